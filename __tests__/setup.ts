@@ -0,0 +1,8 @@
+/**
+ * Jest setup, loaded before every test file
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import '@testing-library/jest-dom';
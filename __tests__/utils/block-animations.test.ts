@@ -0,0 +1,15 @@
+import { normalizeAnimationData } from '../../assets/typescript/utils/block-animations';
+import { ANIMATION_CONFIG_VERSION } from '../../assets/typescript/utils/config-migrations';
+
+describe( 'normalizeAnimationData', () => {
+	it( 'keeps old animations the migrations complete', () => {
+		const [ config ] = normalizeAnimationData( { enabled: true, properties: { x: 50 } } );
+
+		expect( config.version ).toBe( ANIMATION_CONFIG_VERSION );
+		expect( config.timing.duration ).toBe( 0.5 );
+	} );
+
+	it( 'skips entries that are not animations', () => {
+		expect( normalizeAnimationData( [ null, 'fade', [ 1 ] ] ) ).toEqual( [] );
+	} );
+} );
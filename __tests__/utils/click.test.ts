@@ -0,0 +1,23 @@
+import { findDuplicateBlockRefs } from '../../assets/typescript/utils/click';
+
+describe( 'findDuplicateBlockRefs', () => {
+	it( 'flags the copy of a duplicated source block', () => {
+		const blocks = [
+			{ clientId: 'button', ref: 'block-source' },
+			{ clientId: 'paragraph' },
+			{ clientId: 'button-copy', ref: 'block-source' },
+		];
+
+		expect( findDuplicateBlockRefs( blocks ) ).toEqual( [ 'button-copy' ] );
+	} );
+
+	it( 'leaves blocks with their own reference alone', () => {
+		const blocks = [
+			{ clientId: 'button', ref: 'block-a' },
+			{ clientId: 'heading', ref: 'block-b' },
+			{ clientId: 'paragraph' },
+		];
+
+		expect( findDuplicateBlockRefs( blocks ) ).toEqual( [] );
+	} );
+} );
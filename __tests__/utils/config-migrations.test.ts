@@ -0,0 +1,118 @@
+import type { AnimationConfig } from '../../assets/typescript/types/animation';
+import {
+	ANIMATION_CONFIG_VERSION,
+	fillMissingSettings,
+	getConfigVersion,
+	migrateAnimationConfig,
+	structureEase,
+} from '../../assets/typescript/utils/config-migrations';
+
+/**
+ * Build a stored configuration, as older plugin versions may have saved it
+ * @param {Object} values - The stored values
+ */
+const stored = ( values: Record<string, unknown> ): AnimationConfig => values as unknown as AnimationConfig;
+
+describe( 'fillMissingSettings', () => {
+	it( 'fills in the settings an unversioned animation is missing', () => {
+		const config = fillMissingSettings( stored( { enabled: true, properties: { x: 100 } } ) );
+
+		expect( config ).toEqual( {
+			enabled: true,
+			type: 'to',
+			trigger: 'pageload',
+			properties: { x: 100 },
+			timing: { duration: 0.5, delay: 0, repeat: 0, yoyo: false, ease: 'power1.out' },
+			timeline: { isTimeline: false, timelineId: '', timelineName: '', timelinePosition: 'start' },
+		} );
+	} );
+
+	it( 'keeps the stored settings', () => {
+		const config = fillMissingSettings( stored( {
+			enabled: true,
+			type: 'from',
+			trigger: 'scroll',
+			properties: { opacity: 0 },
+			timing: { duration: 2, ease: 'back.inOut(2)' },
+		} ) );
+
+		expect( config.type ).toBe( 'from' );
+		expect( config.trigger ).toBe( 'scroll' );
+		expect( config.timing ).toEqual( { duration: 2, delay: 0, repeat: 0, yoyo: false, ease: 'back.inOut(2)' } );
+	} );
+} );
+
+describe( 'structureEase', () => {
+	it( 'turns a GSAP ease string into a descriptor', () => {
+		const config = structureEase( fillMissingSettings( stored( { timing: { ease: 'back.inOut(2)' } } ) ) );
+
+		expect( config.timing.ease ).toEqual( { family: 'back', direction: 'inOut', overshoot: 2 } );
+	} );
+
+	it( 'keeps an ease that already is a descriptor', () => {
+		const ease = { family: 'expo', direction: 'in' };
+		const config = structureEase( fillMissingSettings( stored( { timing: { ease } } ) ) );
+
+		expect( config.timing.ease ).toEqual( ease );
+	} );
+} );
+
+describe( 'getConfigVersion', () => {
+	it( 'counts animations saved before versioning as version 0', () => {
+		expect( getConfigVersion( stored( {} ) ) ).toBe( 0 );
+		expect( getConfigVersion( stored( { version: 'abc' } ) ) ).toBe( 0 );
+		expect( getConfigVersion( stored( { version: 1 } ) ) ).toBe( 1 );
+	} );
+} );
+
+describe( 'migrateAnimationConfig', () => {
+	it( 'upgrades an unversioned animation to the current version', () => {
+		const config = migrateAnimationConfig( stored( { enabled: true, properties: { y: 20 } } ) );
+
+		expect( config.version ).toBe( ANIMATION_CONFIG_VERSION );
+		expect( config.timing.ease ).toEqual( { family: 'power1', direction: 'out' } );
+		expect( config.timeline?.isTimeline ).toBe( false );
+	} );
+
+	it( 'upgrades a version 1 animation to version 2', () => {
+		const config = migrateAnimationConfig( stored( {
+			version: 1,
+			enabled: true,
+			type: 'to',
+			trigger: 'pageload',
+			properties: {},
+			timing: { duration: 1, delay: 0, repeat: 0, yoyo: false, ease: 'sine.in' },
+		} ) );
+
+		expect( config.version ).toBe( 2 );
+		expect( config.timing.ease ).toEqual( { family: 'sine', direction: 'in' } );
+		// Version 1 steps do not run again
+		expect( config.timeline ).toBeUndefined();
+	} );
+
+	it( 'upgrades a version 1 animation without timing', () => {
+		const config = migrateAnimationConfig( stored( { version: 1, enabled: true, properties: { x: 10 } } ) );
+
+		expect( config.version ).toBe( 2 );
+		expect( config.timing ).toEqual( { ease: { family: 'power1', direction: 'out' } } );
+	} );
+
+	it( 'returns an animation of the current version unchanged', () => {
+		const current = stored( {
+			version: ANIMATION_CONFIG_VERSION,
+			enabled: true,
+			type: 'to',
+			trigger: 'pageload',
+			properties: {},
+			timing: { duration: 1, delay: 0, repeat: 0, yoyo: false, ease: { family: 'power2', direction: 'out' } },
+		} );
+
+		expect( migrateAnimationConfig( current ) ).toBe( current );
+	} );
+
+	it( 'returns an animation from a newer plugin version unchanged', () => {
+		const future = stored( { version: ANIMATION_CONFIG_VERSION + 1, timing: { ease: 'unknown.shape' } } );
+
+		expect( migrateAnimationConfig( future ) ).toBe( future );
+	} );
+} );
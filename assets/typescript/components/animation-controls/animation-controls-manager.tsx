@@ -1,20 +1,42 @@
 import { Fragment } from '@wordpress/element';
-import type { AnimationConfig, AnimationType, TriggerType } from '../../types/animation';
+import { __ } from '@wordpress/i18n';
+import type { AnimationConfig, AnimationType, BreakpointOverride, PointerEffectType, ReducedMotionPolicy, TextSplitMode, TriggerType, ValidationResult } from '../../types/animation';
 
 import { AnimationToggleControl } from './controls/animation-toggle-control';
 import { AnimationTypeControl } from './controls/animation-type-control';
 import { TriggerControl } from './controls/trigger-control';
 import { SelectorControl } from './controls/selector-control';
+import { TextSplitControl } from './controls/text-split-control';
+import { ReducedMotionControl } from './controls/reduced-motion-control';
 import { TransformPropertiesSection } from './controls/transform-properties-section';
 import { TimingControlsSection } from './controls/timing-controls-section';
+import { ScrollSettingsSection } from './controls/scroll-settings-section';
+import { StaggerControlsSection } from './controls/stagger-controls-section';
+import { HoverSettingsSection } from './controls/hover-settings-section';
+import { ClickSettingsSection } from './controls/click-settings-section';
+import { TriggerOptionsSection } from './controls/trigger-options-section';
+import { PointerEffectSection } from './controls/pointer-effect-section';
 import { ActionButtonsSection } from './controls/action-buttons-section';
 import { ConfigSummarySection } from './controls/config-summary-section';
+import { BreakpointSettingsSection } from './controls/breakpoint-settings-section';
+import { ValidationMessages } from './controls/validation-messages';
+import { getScrollConfig } from '../../utils/scroll-trigger';
+import { getStaggerConfig } from '../../utils/stagger';
+import { getHoverConfig } from '../../utils/hover';
+import { getClickConfig } from '../../utils/click';
+import { getTriggerOptions, isWatchedTrigger } from '../../utils/triggers';
+import { getPointerConfig, POINTER_INTENSITY_RANGES } from '../../utils/pointer';
+import { isParallaxConfig } from '../../utils/parallax';
+import { runValidationRules } from '../../utils/validation-rules';
+import { findBreakpoint, getBreakpointConfig, overrideBreakpoint, removeBreakpoint, setBreakpoint } from '../../utils/breakpoints';
 
 interface AnimationControlsManagerProps {
 	config: AnimationConfig;
 	onChange: ( updates: Partial<AnimationConfig> ) => void;
 	onToggle: ( enabled: boolean ) => void;
 	blockName: string;
+	clientId?: string;
+	breakpoint?: string;
 }
 
 export class AnimationControlsManager {
@@ -22,12 +44,30 @@ export class AnimationControlsManager {
 	private onChange: ( updates: Partial<AnimationConfig> ) => void;
 	private onToggle: ( enabled: boolean ) => void;
 	private blockName: string;
+	private clientId?: string;
+	private validation: ValidationResult;
+	private storedConfig: AnimationConfig;
+	private saveConfig: ( updates: Partial<AnimationConfig> ) => void;
+	private breakpoint: string;
 
+	/**
+	 * With a breakpoint selected the controls show the values that
+	 * breakpoint animates with, and edits are stored as its overrides.
+	 *
+	 * @param {AnimationControlsManagerProps} props - The manager props
+	 */
 	constructor( props: AnimationControlsManagerProps ) {
-		this.config = props.config;
-		this.onChange = props.onChange;
+		this.breakpoint = props.breakpoint || '';
+		this.storedConfig = props.config;
+		this.saveConfig = props.onChange;
+		this.config = getBreakpointConfig( props.config, this.breakpoint );
+		this.onChange = this.breakpoint
+			? ( updates ) => this.saveConfig( { breakpoints: overrideBreakpoint( this.storedConfig, this.breakpoint, updates ) } )
+			: props.onChange;
 		this.onToggle = props.onToggle;
 		this.blockName = props.blockName;
+		this.clientId = props.clientId;
+		this.validation = runValidationRules( this.config );
 	}
 
 	public render(): JSX.Element {
@@ -47,17 +87,75 @@ export class AnimationControlsManager {
 	}
 
 	private renderEnabledControls(): JSX.Element {
+		if ( this.breakpoint ) {
+			return this.renderBreakpointControls();
+		}
+
 		return (
 			<Fragment>
 				{ this.renderBasicControls() }
-				{ this.renderTransformProperties() }
-				{ this.renderTimingControls() }
+				{ this.renderMotionControls() }
+				{ TriggerControl.isScrollTrigger( this.config.trigger ) && this.renderScrollSettings() }
+				{ 'click' === this.config.trigger && this.renderClickSettings() }
+				{ 'hover' === this.config.trigger && this.renderHoverSettings() }
+				{ this.renderTriggerOptions() }
 				{ this.renderActionButtons() }
 				{ this.renderConfigSummary() }
 			</Fragment>
 		);
 	}
 
+	/**
+	 * Only properties and timing can differ per breakpoint, and whether
+	 * the animation runs at all
+	 */
+	private renderBreakpointControls(): JSX.Element {
+		const override = this.getBreakpointOverride();
+		const canOverrideMotion = 'pointer' !== this.config.trigger && ! isParallaxConfig( this.config );
+
+		return (
+			<Fragment>
+				{ BreakpointSettingsSection.render( {
+					breakpoint: override,
+					canOverrideMotion,
+					updateBreakpoint: this.updateBreakpoint.bind( this ),
+					onReset: this.resetBreakpoint.bind( this ),
+				} ) }
+				{ this.renderMessages( 'breakpoints' ) }
+				{ ! override.disabled && canOverrideMotion && (
+					<Fragment>
+						{ this.renderTransformProperties() }
+						{ this.renderTimingControls() }
+					</Fragment>
+				) }
+				{ this.renderConfigSummary() }
+			</Fragment>
+		);
+	}
+
+	private renderMotionControls(): JSX.Element | null {
+		if ( 'pointer' === this.config.trigger ) {
+			return this.renderPointerEffect();
+		}
+
+		// Parallax layers move with the scroll position only
+		if ( isParallaxConfig( this.config ) ) {
+			return null;
+		}
+
+		return this.renderTweenControls();
+	}
+
+	private renderTweenControls(): JSX.Element {
+		return (
+			<Fragment>
+				{ this.renderTransformProperties() }
+				{ this.renderTimingControls() }
+				{ ( this.config.selector || this.config.textSplit ) && this.renderStaggerControls() }
+			</Fragment>
+		);
+	}
+
 	private renderBasicControls(): JSX.Element {
 		return (
 			<Fragment>
@@ -65,32 +163,142 @@ export class AnimationControlsManager {
 					value: this.config.type,
 					onChange: ( type: AnimationType ) => this.onChange( { type } ),
 				} ) }
+				{ this.renderMessages( 'type' ) }
 				{ TriggerControl.render( {
 					value: this.config.trigger,
 					onChange: ( trigger: TriggerType ) => this.onChange( { trigger } ),
 				} ) }
+				{ this.renderMessages( 'trigger' ) }
 				{ SelectorControl.render( {
 					value: this.config.selector || '',
 					onChange: ( selector: string ) => this.onChange( { selector } ),
 				} ) }
+				{ this.renderMessages( 'selector' ) }
+				{ TextSplitControl.render( {
+					value: this.config.textSplit,
+					onChange: ( textSplit?: TextSplitMode ) => this.onChange( { textSplit } ),
+				} ) }
+				{ this.renderMessages( 'textSplit' ) }
+				{ ReducedMotionControl.render( {
+					value: this.config.reducedMotion,
+					onChange: ( reducedMotion?: ReducedMotionPolicy ) => this.onChange( { reducedMotion } ),
+				} ) }
 			</Fragment>
 		);
 	}
 
 	private renderTransformProperties(): JSX.Element {
-		return TransformPropertiesSection.render( {
-			properties: this.config.properties,
-			updateProperty: this.updateProperty.bind( this ),
-		} );
+		if ( 'fromTo' !== this.config.type ) {
+			return (
+				<Fragment>
+					{ TransformPropertiesSection.render( {
+						properties: this.config.properties,
+						updateProperty: this.updateProperty.bind( this ),
+						validation: this.validation,
+					} ) }
+					{ this.renderMessages( 'properties' ) }
+				</Fragment>
+			);
+		}
+
+		return (
+			<Fragment>
+				{ TransformPropertiesSection.render( {
+					label: __( 'From Properties', 'gsap-block-animator' ),
+					properties: this.config.fromProperties || {},
+					updateProperty: this.updateFromProperty.bind( this ),
+					field: 'fromProperties',
+					validation: this.validation,
+				} ) }
+				{ TransformPropertiesSection.render( {
+					label: __( 'To Properties', 'gsap-block-animator' ),
+					properties: this.config.properties,
+					updateProperty: this.updateProperty.bind( this ),
+					validation: this.validation,
+				} ) }
+				{ this.renderMessages( 'properties' ) }
+			</Fragment>
+		);
+	}
+
+	private renderMessages( field: string ): JSX.Element | null {
+		return ValidationMessages.render( { validation: this.validation, field } );
 	}
 
 	private renderTimingControls(): JSX.Element {
 		return TimingControlsSection.render( {
 			timing: this.config.timing,
 			updateTiming: this.updateTiming.bind( this ),
+			validation: this.validation,
 		} );
 	}
 
+	private renderStaggerControls(): JSX.Element {
+		return StaggerControlsSection.render( {
+			stagger: getStaggerConfig( this.config ),
+			updateStagger: this.updateStagger.bind( this ),
+		} );
+	}
+
+	private renderScrollSettings(): JSX.Element {
+		return ScrollSettingsSection.render( {
+			scroll: getScrollConfig( this.config ),
+			hasLayers: !! ( this.config.selector || this.config.textSplit ),
+			updateScroll: this.updateScroll.bind( this ),
+		} );
+	}
+
+	private renderClickSettings(): JSX.Element {
+		return ClickSettingsSection.render( {
+			click: getClickConfig( this.config ),
+			clientId: this.clientId,
+			updateClick: this.updateClick.bind( this ),
+		} );
+	}
+
+	private renderTriggerOptions(): JSX.Element | null {
+		const trigger = this.config.trigger;
+
+		if ( ! isWatchedTrigger( trigger ) ) {
+			return null;
+		}
+
+		return TriggerOptionsSection.render( {
+			trigger,
+			options: getTriggerOptions( this.config, trigger ),
+			updateOption: this.updateTriggerOption.bind( this ),
+			validation: this.validation,
+		} );
+	}
+
+	private renderPointerEffect(): JSX.Element {
+		return PointerEffectSection.render( {
+			pointer: getPointerConfig( this.config ),
+			hasLayers: !! ( this.config.selector || this.config.textSplit ),
+			updatePointer: this.updatePointer.bind( this ),
+		} );
+	}
+
+	private renderHoverSettings(): JSX.Element {
+		const hover = getHoverConfig( this.config );
+
+		return (
+			<Fragment>
+				{ HoverSettingsSection.render( {
+					hover,
+					updateHover: this.updateHover.bind( this ),
+				} ) }
+				{ 'animate' === hover.leave && TransformPropertiesSection.render( {
+					label: __( 'Leave Properties', 'gsap-block-animator' ),
+					properties: hover.leaveProperties || {},
+					updateProperty: this.updateLeaveProperty.bind( this ),
+					field: 'hover.leaveProperties',
+					validation: this.validation,
+				} ) }
+			</Fragment>
+		);
+	}
+
 	private renderActionButtons(): JSX.Element {
 		return ActionButtonsSection.render( {
 			onReset: ActionButtonsSection.createResetHandler( this.onChange ),
@@ -100,6 +308,26 @@ export class AnimationControlsManager {
 	private renderConfigSummary(): JSX.Element {
 		return ConfigSummarySection.render( {
 			config: this.config,
+			validation: this.validation,
+		} );
+	}
+
+	private getBreakpointOverride(): BreakpointOverride {
+		return findBreakpoint( this.storedConfig, this.breakpoint ) || { id: this.breakpoint };
+	}
+
+	private updateBreakpoint( updates: Partial<BreakpointOverride> ): void {
+		this.saveConfig( {
+			breakpoints: setBreakpoint( this.storedConfig, {
+				...this.getBreakpointOverride(),
+				...updates,
+			} ),
+		} );
+	}
+
+	private resetBreakpoint(): void {
+		this.saveConfig( {
+			breakpoints: removeBreakpoint( this.storedConfig, this.breakpoint ),
 		} );
 	}
 
@@ -112,6 +340,15 @@ export class AnimationControlsManager {
 		} );
 	}
 
+	private updateFromProperty( key: string, value: unknown ): void {
+		this.onChange( {
+			fromProperties: {
+				...this.config.fromProperties,
+				[ key ]: value,
+			},
+		} );
+	}
+
 	private updateTiming( key: string, value: unknown ): void {
 		this.onChange( {
 			timing: {
@@ -121,6 +358,79 @@ export class AnimationControlsManager {
 		} );
 	}
 
+	private updateStagger( key: string, value: unknown ): void {
+		this.onChange( {
+			stagger: {
+				...getStaggerConfig( this.config ),
+				[ key ]: value,
+			},
+		} );
+	}
+
+	private updateScroll( key: string, value: unknown ): void {
+		this.onChange( {
+			scroll: {
+				...getScrollConfig( this.config ),
+				[ key ]: value,
+			},
+		} );
+	}
+
+	private updateClick( key: string, value: unknown ): void {
+		this.onChange( {
+			click: {
+				...getClickConfig( this.config ),
+				[ key ]: value,
+			},
+		} );
+	}
+
+	private updateTriggerOption( key: string, value: unknown ): void {
+		const trigger = this.config.trigger;
+
+		if ( ! isWatchedTrigger( trigger ) ) {
+			return;
+		}
+
+		this.onChange( {
+			[ trigger ]: {
+				...getTriggerOptions( this.config, trigger ),
+				[ key ]: value,
+			},
+		} );
+	}
+
+	private updatePointer( key: string, value: unknown ): void {
+		const pointer = getPointerConfig( this.config );
+
+		this.onChange( {
+			pointer: {
+				...pointer,
+				// Each effect measures intensity differently
+				...( 'effect' === key && value !== pointer.effect ? { intensity: POINTER_INTENSITY_RANGES[ value as PointerEffectType ].default } : {} ),
+				[ key ]: value,
+			},
+		} );
+	}
+
+	private updateHover( key: string, value: unknown ): void {
+		this.onChange( {
+			hover: {
+				...getHoverConfig( this.config ),
+				[ key ]: value,
+			},
+		} );
+	}
+
+	private updateLeaveProperty( key: string, value: unknown ): void {
+		const hover = getHoverConfig( this.config );
+
+		this.updateHover( 'leaveProperties', {
+			...hover.leaveProperties,
+			[ key ]: value,
+		} );
+	}
+
 	public static create( props: AnimationControlsManagerProps ): AnimationControlsManager {
 		return new AnimationControlsManager( props );
 	}
@@ -134,21 +444,7 @@ export class AnimationControlsManager {
 		return this.config;
 	}
 
-	public validateConfiguration(): string[] {
-		const errors: string[] = [];
-
-		if ( this.config.enabled && 0 === Object.keys( this.config.properties ).length ) {
-			errors.push( 'At least one animation property is required when animation is enabled' );
-		}
-
-		if ( this.config.timing.duration <= 0 ) {
-			errors.push( 'Animation duration must be greater than 0' );
-		}
-
-		if ( this.config.selector && ! SelectorControl.validateSelector( this.config.selector ) ) {
-			errors.push( 'Invalid CSS selector provided' );
-		}
-
-		return errors;
+	public validateConfiguration(): ValidationResult {
+		return this.validation;
 	}
 }
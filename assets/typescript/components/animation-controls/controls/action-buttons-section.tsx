@@ -42,7 +42,7 @@ export class ActionButtonsSection {
 
 	static createResetHandler( onChange: ( updates: Partial<AnimationConfig> ) => void ) {
 		return () => {
-			onChange( this.getDefaultConfig() );
+			onChange( { ...this.getDefaultConfig(), breakpoints: undefined } );
 		};
 	}
 }
@@ -0,0 +1,227 @@
+import { useState, useRef, useEffect, useMemo, useCallback } from '@wordpress/element';
+import { TextControl } from '@wordpress/components';
+import { __ } from '@wordpress/i18n';
+import PropTypes from 'prop-types';
+import type { BezierPoints } from '../../../types/animation';
+import { BEZIER_OVERSHOOT, createBezierEase, formatBezier, parseBezier, sanitizeBezier } from '../../../utils/custom-ease';
+
+interface BezierCurveEditorProps {
+	value: BezierPoints;
+	duration: number;
+	onChange: ( bezier: BezierPoints ) => void;
+}
+
+type HandleIndex = 0 | 1;
+
+const PLOT_SIZE = 100;
+const PREVIEW_PAUSE = 600;
+const KEYBOARD_STEP = 0.01;
+const KEYBOARD_STEP_LARGE = 0.1;
+
+/**
+ * Map a curve point onto SVG coordinates, with y growing upwards
+ * @param {number} x - Progress of time (0-1)
+ * @param {number} y - Progress of the animation
+ */
+const toSvg = ( x: number, y: number ) => ( {
+	x: x * PLOT_SIZE,
+	y: ( 1 - y ) * PLOT_SIZE,
+} );
+
+export const BezierCurveEditor: React.FC<BezierCurveEditorProps> = ( {
+	value,
+	duration,
+	onChange,
+} ) => {
+	const [ draft, setDraft ] = useState<BezierPoints>( () => sanitizeBezier( value ) );
+	const [ dragging, setDragging ] = useState<HandleIndex | null>( null );
+	const [ text, setText ] = useState( () => formatBezier( sanitizeBezier( value ) ) );
+	const [ previewTime, setPreviewTime ] = useState( 0 );
+	const svgRef = useRef<SVGSVGElement>( null );
+
+	// Keep the text as typed while it already describes the saved curve
+	const syncFromValue = useCallback( () => {
+		const bezier = sanitizeBezier( value );
+		setDraft( bezier );
+		setText( ( current ) => {
+			const parsed = parseBezier( current );
+			return parsed && parsed.every( ( point, index ) => point === bezier[ index ] ) ? current : formatBezier( bezier );
+		} );
+	}, [ value ] );
+
+	useEffect( syncFromValue, [ syncFromValue ] );
+
+	const ease = useMemo( () => createBezierEase( draft ), [ draft ] );
+
+	const animatePreview = useCallback( () => {
+		const cycle = ( Math.max( duration, 0.1 ) * 1000 ) + PREVIEW_PAUSE;
+		const start = performance.now();
+		let frame = 0;
+
+		const tick = ( now: number ) => {
+			setPreviewTime( Math.min( 1, ( ( now - start ) % cycle ) / ( cycle - PREVIEW_PAUSE ) ) );
+			frame = window.requestAnimationFrame( tick );
+		};
+
+		frame = window.requestAnimationFrame( tick );
+
+		return () => window.cancelAnimationFrame( frame );
+	}, [ duration ] );
+
+	useEffect( animatePreview, [ animatePreview ] );
+
+	const commit = useCallback( ( bezier: BezierPoints ) => {
+		const sanitized = sanitizeBezier( bezier );
+		setDraft( sanitized );
+		setText( formatBezier( sanitized ) );
+		onChange( sanitized );
+	}, [ onChange ] );
+
+	const moveHandle = useCallback( ( handle: HandleIndex, x: number, y: number ): BezierPoints => {
+		const next: BezierPoints = [ ...draft ];
+		next[ handle * 2 ] = Math.round( x * 100 ) / 100;
+		next[ ( handle * 2 ) + 1 ] = Math.round( y * 100 ) / 100;
+		return sanitizeBezier( next );
+	}, [ draft ] );
+
+	const getPointerPosition = useCallback( ( event: React.PointerEvent<SVGSVGElement> ) => {
+		const matrix = svgRef.current?.getScreenCTM();
+
+		if ( ! matrix ) {
+			return null;
+		}
+
+		const point = new DOMPoint( event.clientX, event.clientY ).matrixTransform( matrix.inverse() );
+
+		return {
+			x: point.x / PLOT_SIZE,
+			y: 1 - ( point.y / PLOT_SIZE ),
+		};
+	}, [] );
+
+	const handlePointerDown = useCallback( ( handle: HandleIndex ) => ( event: React.PointerEvent<SVGCircleElement> ) => {
+		event.preventDefault();
+		svgRef.current?.setPointerCapture( event.pointerId );
+		setDragging( handle );
+	}, [] );
+
+	const handlePointerMove = useCallback( ( event: React.PointerEvent<SVGSVGElement> ) => {
+		const position = null !== dragging ? getPointerPosition( event ) : null;
+
+		if ( null !== dragging && position ) {
+			setDraft( moveHandle( dragging, position.x, position.y ) );
+		}
+	}, [ dragging, getPointerPosition, moveHandle ] );
+
+	const handlePointerUp = useCallback( ( event: React.PointerEvent<SVGSVGElement> ) => {
+		if ( null === dragging ) {
+			return;
+		}
+
+		svgRef.current?.releasePointerCapture( event.pointerId );
+		setDragging( null );
+		commit( draft );
+	}, [ dragging, draft, commit ] );
+
+	const handleKeyDown = useCallback( ( handle: HandleIndex ) => ( event: React.KeyboardEvent<SVGCircleElement> ) => {
+		const step = event.shiftKey ? KEYBOARD_STEP_LARGE : KEYBOARD_STEP;
+		const offsets: Record<string, [ number, number ]> = {
+			ArrowLeft: [ -step, 0 ],
+			ArrowRight: [ step, 0 ],
+			ArrowUp: [ 0, step ],
+			ArrowDown: [ 0, -step ],
+		};
+		const offset = offsets[ event.key ];
+
+		if ( ! offset ) {
+			return;
+		}
+
+		event.preventDefault();
+		commit( moveHandle( handle, draft[ handle * 2 ] + offset[ 0 ], draft[ ( handle * 2 ) + 1 ] + offset[ 1 ] ) );
+	}, [ draft, commit, moveHandle ] );
+
+	const handleTextChange = useCallback( ( input: string ) => {
+		setText( input );
+
+		const bezier = parseBezier( input );
+		if ( bezier ) {
+			setDraft( bezier );
+			onChange( bezier );
+		}
+	}, [ onChange ] );
+
+	const start = toSvg( 0, 0 );
+	const end = toSvg( 1, 1 );
+	const first = toSvg( draft[ 0 ], draft[ 1 ] );
+	const second = toSvg( draft[ 2 ], draft[ 3 ] );
+	const dot = toSvg( previewTime, ease( previewTime ) );
+	const overshoot = BEZIER_OVERSHOOT * PLOT_SIZE;
+
+	return (
+		<div className="gsap-bezier-editor">
+			<svg
+				ref={ svgRef }
+				className="gsap-bezier-editor__canvas"
+				viewBox={ `-4 ${ -overshoot } ${ PLOT_SIZE + 8 } ${ PLOT_SIZE + ( overshoot * 2 ) }` }
+				role="group"
+				aria-label={ __( 'Custom easing curve', 'gsap-block-animator' ) }
+				onPointerMove={ handlePointerMove }
+				onPointerUp={ handlePointerUp }
+				onPointerCancel={ handlePointerUp }
+			>
+				<rect x={ 0 } y={ 0 } width={ PLOT_SIZE } height={ PLOT_SIZE } fill="#f0f0f0" />
+				<line x1={ start.x } y1={ start.y } x2={ end.x } y2={ end.y } stroke="#ddd" strokeDasharray="2 2" />
+				<line x1={ start.x } y1={ start.y } x2={ first.x } y2={ first.y } stroke="#949494" />
+				<line x1={ end.x } y1={ end.y } x2={ second.x } y2={ second.y } stroke="#949494" />
+				<path
+					d={ `M ${ start.x } ${ start.y } C ${ first.x } ${ first.y }, ${ second.x } ${ second.y }, ${ end.x } ${ end.y }` }
+					fill="none"
+					stroke="#1e1e1e"
+					strokeWidth={ 2 }
+				/>
+				<circle cx={ dot.x } cy={ dot.y } r={ 2.5 } fill="#d94f04" className="gsap-bezier-editor__dot" />
+				{ [ first, second ].map( ( handle, index ) => (
+					<circle
+						key={ index }
+						cx={ handle.x }
+						cy={ handle.y }
+						r={ 4 }
+						fill="#007cba"
+						tabIndex={ 0 }
+						role="slider"
+						aria-label={ 0 === index
+							? __( 'First control point', 'gsap-block-animator' )
+							: __( 'Second control point', 'gsap-block-animator' )
+						}
+						aria-valuetext={ `${ draft[ index * 2 ] }, ${ draft[ ( index * 2 ) + 1 ] }` }
+						className="gsap-bezier-editor__handle"
+						style={ { cursor: dragging === index ? 'grabbing' : 'grab' } }
+						onPointerDown={ handlePointerDown( index as HandleIndex ) }
+						onKeyDown={ handleKeyDown( index as HandleIndex ) }
+					/>
+				) ) }
+			</svg>
+			<div className="gsap-bezier-editor__track" aria-hidden="true">
+				<span
+					className="gsap-bezier-editor__track-dot"
+					style={ { left: `${ Math.min( 100, Math.max( 0, ease( previewTime ) * 100 ) ) }%` } }
+				/>
+			</div>
+			<TextControl
+				label={ __( 'Bezier Values', 'gsap-block-animator' ) }
+				value={ text }
+				onChange={ handleTextChange }
+				onBlur={ () => setText( formatBezier( sanitizeBezier( value ) ) ) }
+				help={ __( 'Enter exact values as x1, y1, x2, y2 or paste a CSS cubic-bezier()', 'gsap-block-animator' ) }
+			/>
+		</div>
+	);
+};
+
+BezierCurveEditor.propTypes = {
+	value: PropTypes.arrayOf( PropTypes.number ).isRequired,
+	duration: PropTypes.number.isRequired,
+	onChange: PropTypes.func.isRequired,
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+} as any;
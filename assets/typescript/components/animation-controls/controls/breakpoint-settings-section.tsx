@@ -0,0 +1,62 @@
+import { Fragment } from '@wordpress/element';
+import { Button, TextControl, ToggleControl } from '@wordpress/components';
+import { __ } from '@wordpress/i18n';
+import { BaseControlSection } from './base-control-section';
+import type { BreakpointOverride } from '../../../types/animation';
+import { getBreakpointQuery, isBreakpointDevice } from '../../../utils/breakpoints';
+
+interface BreakpointSettingsSectionProps {
+	breakpoint: BreakpointOverride;
+	canOverrideMotion: boolean;
+	updateBreakpoint: ( updates: Partial<BreakpointOverride> ) => void;
+	onReset: () => void;
+}
+
+export class BreakpointSettingsSection {
+	static render( { breakpoint, canOverrideMotion, updateBreakpoint, onReset }: BreakpointSettingsSectionProps ): JSX.Element {
+		const isDevice = isBreakpointDevice( breakpoint.id );
+
+		return BaseControlSection.render( {
+			label: __( 'Breakpoint Settings', 'gsap-block-animator' ),
+			className: 'gsap-section-divider gsap-breakpoint-settings',
+			children: (
+				<Fragment>
+					{ isDevice ? (
+						<p className="gsap-breakpoint-settings__query">
+							{ __( 'Applies to', 'gsap-block-animator' ) } <code>{ getBreakpointQuery( breakpoint ) }</code>
+						</p>
+					) : (
+						<TextControl
+							label={ __( 'Media Query', 'gsap-block-animator' ) }
+							value={ breakpoint.query || '' }
+							onChange={ ( query: string ) => updateBreakpoint( { query } ) }
+							placeholder="(min-width: 1440px)"
+							help={ __( 'Later breakpoints win where several match', 'gsap-block-animator' ) }
+						/>
+					) }
+					<ToggleControl
+						label={ __( 'Disable on This Breakpoint', 'gsap-block-animator' ) }
+						checked={ !! breakpoint.disabled }
+						onChange={ ( disabled: boolean ) => updateBreakpoint( { disabled: disabled || undefined } ) }
+					/>
+					{ ! breakpoint.disabled && (
+						<p className="gsap-breakpoint-settings__help">
+							{ canOverrideMotion
+								? __( 'Properties and timing changed below only apply on this breakpoint, everything else follows All Devices.', 'gsap-block-animator' )
+								: __( 'Pointer effects and parallax layers can only be switched off per breakpoint.', 'gsap-block-animator' ) }
+						</p>
+					) }
+					<Button
+						variant="secondary"
+						isDestructive={ ! isDevice }
+						onClick={ onReset }
+					>
+						{ isDevice
+							? __( 'Reset to All Devices', 'gsap-block-animator' )
+							: __( 'Remove Breakpoint', 'gsap-block-animator' ) }
+					</Button>
+				</Fragment>
+			),
+		} );
+	}
+}
@@ -0,0 +1,61 @@
+import { Fragment } from '@wordpress/element';
+import { SelectControl } from '@wordpress/components';
+import { __ } from '@wordpress/i18n';
+import { BaseControlSection } from './base-control-section';
+import { ClickSourcePicker } from './click-source-picker';
+import type { ClickConfig, ClickMode } from '../../../types/animation';
+
+interface ClickSettingsSectionProps {
+	click: ClickConfig;
+	clientId?: string;
+	updateClick: ( key: string, value: unknown ) => void;
+}
+
+export class ClickSettingsSection {
+	private static readonly MODE_OPTIONS = [
+		{ label: __( 'Restart', 'gsap-block-animator' ), value: 'restart' as ClickMode },
+		{ label: __( 'Play Once', 'gsap-block-animator' ), value: 'once' as ClickMode },
+		{ label: __( 'Toggle Forward / Reverse', 'gsap-block-animator' ), value: 'toggle' as ClickMode },
+		{ label: __( 'Play Next Step', 'gsap-block-animator' ), value: 'step' as ClickMode },
+	];
+
+	static render( { click, clientId, updateClick }: ClickSettingsSectionProps ): JSX.Element {
+		return BaseControlSection.render( {
+			label: __( 'Click Settings', 'gsap-block-animator' ),
+			className: 'gsap-section-divider',
+			children: (
+				<Fragment>
+					<SelectControl
+						label={ __( 'Click Mode', 'gsap-block-animator' ) }
+						value={ click.mode }
+						options={ this.MODE_OPTIONS }
+						onChange={ ( mode: string ) => updateClick( 'mode', mode as ClickMode ) }
+						help={ this.getModeHelp( click.mode ) }
+					/>
+					<ClickSourcePicker
+						value={ click.source }
+						clientId={ clientId }
+						onChange={ ( source?: string ) => updateClick( 'source', source ) }
+					/>
+				</Fragment>
+			),
+		} );
+	}
+
+	static getModeOptions() {
+		return this.MODE_OPTIONS;
+	}
+
+	private static getModeHelp( mode: ClickMode ): string {
+		switch ( mode ) {
+			case 'once':
+				return __( 'Only the first click plays the animation', 'gsap-block-animator' );
+			case 'toggle':
+				return __( 'Clicks alternate between playing forward and reversing', 'gsap-block-animator' );
+			case 'step':
+				return __( 'Each click animates the next targeted element; after the last one the animation rewinds', 'gsap-block-animator' );
+			default:
+				return __( 'Every click plays the animation from the start', 'gsap-block-animator' );
+		}
+	}
+}
@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useMemo } from '@wordpress/element';
+import { SelectControl } from '@wordpress/components';
+import { useDispatch, useSelect } from '@wordpress/data';
+import { __ } from '@wordpress/i18n';
+import PropTypes from 'prop-types';
+import { createBlockRef, findDuplicateBlockRefs } from '../../../utils/click';
+
+interface ClickSourcePickerProps {
+	value?: string;
+	clientId?: string;
+	onChange: ( source?: string ) => void;
+}
+
+interface SourceBlock {
+	clientId: string;
+	title: string;
+	excerpt: string;
+	ref?: string;
+}
+
+const EXCERPT_LENGTH = 30;
+const MISSING_SOURCE = '__missing';
+
+/**
+ * Get a short plain text excerpt of a block's content
+ * @param {Record<string, unknown>} attributes - The block attributes
+ */
+const getExcerpt = ( attributes: Record<string, unknown> ): string => {
+	const content = [ attributes.text, attributes.content, attributes.anchor ].find( ( value ) => 'string' === typeof value && '' !== value );
+	const text = String( content || '' ).replace( /<[^>]*>/g, '' ).trim();
+
+	return text.length > EXCERPT_LENGTH ? text.slice( 0, EXCERPT_LENGTH ) + '…' : text;
+};
+
+export const ClickSourcePicker: React.FC<ClickSourcePickerProps> = ( {
+	value,
+	clientId,
+	onChange,
+} ) => {
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	const { updateBlockAttributes } = useDispatch( 'core/block-editor' ) as any;
+
+	const blocks: SourceBlock[] = useSelect( ( select ) => {
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		const editor = select( 'core/block-editor' ) as any;
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		const blockTypes = select( 'core/blocks' ) as any;
+
+		return ( editor.getClientIdsWithDescendants() as string[] ).map( ( id ) => {
+			const attributes = editor.getBlockAttributes( id ) || {};
+			const name = editor.getBlockName( id );
+
+			return {
+				clientId: id,
+				title: blockTypes.getBlockType( name )?.title || name,
+				excerpt: getExcerpt( attributes ),
+				ref: attributes.gsapBlockRef,
+			};
+		} );
+	}, [] );
+
+	// Duplicated blocks come with a copy of the reference, so they get their own
+	useEffect( () => {
+		findDuplicateBlockRefs( blocks ).forEach( ( id ) => {
+			updateBlockAttributes( id, { gsapBlockRef: createBlockRef() } );
+		} );
+	}, [ blocks, updateBlockAttributes ] );
+
+	const sources = useMemo( () => blocks.filter( ( block ) => block.clientId !== clientId ), [ blocks, clientId ] );
+
+	const selected = useMemo( () => {
+		if ( ! value ) {
+			return '';
+		}
+
+		return sources.find( ( block ) => block.ref === value )?.clientId || MISSING_SOURCE;
+	}, [ sources, value ] );
+
+	const options = useMemo( () => [
+		{ label: __( 'This Block', 'gsap-block-animator' ), value: '' },
+		...( MISSING_SOURCE === selected ? [ { label: __( 'Missing Block', 'gsap-block-animator' ), value: MISSING_SOURCE } ] : [] ),
+		...sources.map( ( block ) => ( {
+			label: block.excerpt ? `${ block.title }: ${ block.excerpt }` : block.title,
+			value: block.clientId,
+		} ) ),
+	], [ sources, selected ] );
+
+	const handleChange = useCallback( ( sourceClientId: string ) => {
+		const block = sources.find( ( candidate ) => candidate.clientId === sourceClientId );
+
+		if ( ! block ) {
+			onChange( undefined );
+			return;
+		}
+
+		// Give the source block a stable reference the first time it is picked
+		const ref = block.ref || createBlockRef();
+
+		if ( ! block.ref ) {
+			updateBlockAttributes( block.clientId, { gsapBlockRef: ref } );
+		}
+
+		onChange( ref );
+	}, [ sources, onChange, updateBlockAttributes ] );
+
+	return (
+		<SelectControl
+			label={ __( 'Click Source', 'gsap-block-animator' ) }
+			value={ selected }
+			options={ options }
+			onChange={ handleChange }
+			help={ MISSING_SOURCE === selected
+				? __( 'The picked block was removed; clicks on it can no longer start this animation', 'gsap-block-animator' )
+				: __( 'The block whose clicks start this animation, e.g. a button', 'gsap-block-animator' )
+			}
+		/>
+	);
+};
+
+ClickSourcePicker.propTypes = {
+	value: PropTypes.string,
+	clientId: PropTypes.string,
+	onChange: PropTypes.func.isRequired,
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+} as any;
@@ -1,26 +1,68 @@
 import { __ } from '@wordpress/i18n';
 import { BaseControlSection } from './base-control-section';
-import type { AnimationConfig } from '../../../types/animation';
+import type { AnimationConfig, ValidationError, ValidationResult } from '../../../types/animation';
 
 interface ConfigSummarySectionProps {
 	config: AnimationConfig;
+	validation?: ValidationResult;
 }
 
 export class ConfigSummarySection {
-	static render( { config }: ConfigSummarySectionProps ): JSX.Element {
+	static render( { config, validation }: ConfigSummarySectionProps ): JSX.Element {
+		const errors = validation?.errors || [];
+		const warnings = validation?.warnings || [];
+
 		return BaseControlSection.render( {
 			label: '',
 			className: 'gsap-config-summary',
 			children: (
-				<div className="gsap-summary-box">
-					<strong>{ __( '✅ Animation Configured', 'gsap-block-animator' ) }</strong>
+				<div className={ `gsap-summary-box${ this.getStatusClass( errors, warnings ) }` }>
+					<strong>{ this.getStatusLabel( errors, warnings ) }</strong>
 					<br />
 					{ this.formatSummaryText( config ) }
+					{ this.renderIssues( errors, 'is-error' ) }
+					{ this.renderIssues( warnings, 'is-warning' ) }
 				</div>
 			),
 		} );
 	}
 
+	private static getStatusLabel( errors: ValidationError[], warnings: ValidationError[] ): string {
+		if ( errors.length > 0 ) {
+			return __( '⛔ Fix the errors below to preview this animation', 'gsap-block-animator' );
+		}
+
+		if ( warnings.length > 0 ) {
+			return __( '⚠️ Animation Configured with Warnings', 'gsap-block-animator' );
+		}
+
+		return __( '✅ Animation Configured', 'gsap-block-animator' );
+	}
+
+	private static getStatusClass( errors: ValidationError[], warnings: ValidationError[] ): string {
+		if ( errors.length > 0 ) {
+			return ' is-error';
+		}
+
+		return warnings.length > 0 ? ' is-warning' : '';
+	}
+
+	private static renderIssues( issues: ValidationError[], className: string ): JSX.Element | null {
+		if ( 0 === issues.length ) {
+			return null;
+		}
+
+		return (
+			<ul className={ `gsap-summary-issues ${ className }` }>
+				{ issues.map( ( issue ) => (
+					<li key={ `${ issue.field }-${ issue.code }` }>
+						<code>{ issue.field }</code> { issue.message }
+					</li>
+				) ) }
+			</ul>
+		);
+	}
+
 	private static formatSummaryText( config: AnimationConfig ): string {
 		const typeLabel = __( 'Type:', 'gsap-block-animator' );
 		const triggerLabel = __( 'Trigger:', 'gsap-block-animator' );
@@ -0,0 +1,126 @@
+import { Fragment } from '@wordpress/element';
+import { RangeControl, SelectControl } from '@wordpress/components';
+import { __ } from '@wordpress/i18n';
+import type { EaseDescriptor, EaseDirection, EaseFamily, EaseType } from '../../../types/animation';
+import { EASE_FAMILIES, EASE_PARAMETER_RANGES, getEaseParameter, parseEase, type EaseParameter } from '../../../utils/ease';
+
+interface EaseControlProps {
+	label: string;
+	value?: EaseType;
+	onChange: ( ease: EaseDescriptor ) => void;
+	allowCustom?: boolean;
+	help?: string;
+}
+
+export class EaseControl {
+	private static readonly FAMILY_OPTIONS = [
+		{ label: __( 'None (Linear)', 'gsap-block-animator' ), value: 'none' as EaseFamily },
+		{ label: __( 'Power0', 'gsap-block-animator' ), value: 'power0' as EaseFamily },
+		{ label: __( 'Power1', 'gsap-block-animator' ), value: 'power1' as EaseFamily },
+		{ label: __( 'Power2', 'gsap-block-animator' ), value: 'power2' as EaseFamily },
+		{ label: __( 'Power3', 'gsap-block-animator' ), value: 'power3' as EaseFamily },
+		{ label: __( 'Power4', 'gsap-block-animator' ), value: 'power4' as EaseFamily },
+		{ label: __( 'Sine', 'gsap-block-animator' ), value: 'sine' as EaseFamily },
+		{ label: __( 'Expo', 'gsap-block-animator' ), value: 'expo' as EaseFamily },
+		{ label: __( 'Circ', 'gsap-block-animator' ), value: 'circ' as EaseFamily },
+		{ label: __( 'Back', 'gsap-block-animator' ), value: 'back' as EaseFamily },
+		{ label: __( 'Elastic', 'gsap-block-animator' ), value: 'elastic' as EaseFamily },
+		{ label: __( 'Bounce', 'gsap-block-animator' ), value: 'bounce' as EaseFamily },
+		{ label: __( 'Steps', 'gsap-block-animator' ), value: 'steps' as EaseFamily },
+		{ label: __( 'Custom Curve', 'gsap-block-animator' ), value: 'custom' as EaseFamily },
+	];
+
+	private static readonly DIRECTION_OPTIONS = [
+		{ label: __( 'In', 'gsap-block-animator' ), value: 'in' as EaseDirection },
+		{ label: __( 'Out', 'gsap-block-animator' ), value: 'out' as EaseDirection },
+		{ label: __( 'In-Out', 'gsap-block-animator' ), value: 'inOut' as EaseDirection },
+	];
+
+	private static readonly PARAMETER_LABELS: Record<EaseParameter, string> = {
+		overshoot: __( 'Overshoot', 'gsap-block-animator' ),
+		amplitude: __( 'Amplitude', 'gsap-block-animator' ),
+		period: __( 'Period', 'gsap-block-animator' ),
+		steps: __( 'Number of Steps', 'gsap-block-animator' ),
+	};
+
+	static render( { label, value, onChange, allowCustom = true, help }: EaseControlProps ): JSX.Element {
+		const ease = parseEase( value );
+		const definition = EASE_FAMILIES[ ease.family ];
+
+		return (
+			<Fragment>
+				<SelectControl
+					label={ label }
+					value={ ease.family }
+					options={ this.getFamilyOptions( allowCustom ) }
+					onChange={ ( family: string ) => onChange( this.changeFamily( ease, family as EaseFamily ) ) }
+					help={ help }
+				/>
+				{ definition.directional && (
+					<SelectControl
+						label={ __( 'Direction', 'gsap-block-animator' ) }
+						value={ ease.direction }
+						options={ this.DIRECTION_OPTIONS }
+						onChange={ ( direction: string ) => onChange( { ...ease, direction: direction as EaseDirection } ) }
+					/>
+				) }
+				{ definition.parameters.map( ( parameter ) => (
+					<RangeControl
+						key={ parameter }
+						label={ this.PARAMETER_LABELS[ parameter ] }
+						value={ getEaseParameter( ease, parameter ) }
+						onChange={ ( parameterValue?: number ) => onChange( {
+							...ease,
+							[ parameter ]: parameterValue ?? EASE_PARAMETER_RANGES[ parameter ].default,
+						} ) }
+						min={ EASE_PARAMETER_RANGES[ parameter ].min }
+						max={ EASE_PARAMETER_RANGES[ parameter ].max }
+						step={ EASE_PARAMETER_RANGES[ parameter ].step }
+					/>
+				) ) }
+			</Fragment>
+		);
+	}
+
+	/**
+	 * Switch to another family, keeping the direction and dropping parameters it does not take
+	 * @param {EaseDescriptor} ease   - The current ease
+	 * @param {EaseFamily}     family - The new family
+	 */
+	private static changeFamily( ease: EaseDescriptor, family: EaseFamily ): EaseDescriptor {
+		const next: EaseDescriptor = { family, direction: ease.direction };
+
+		EASE_FAMILIES[ family ].parameters.forEach( ( parameter ) => {
+			if ( undefined !== ease[ parameter ] ) {
+				next[ parameter ] = ease[ parameter ];
+			}
+		} );
+
+		return next;
+	}
+
+	static getFamilyOptions( allowCustom: boolean = true ) {
+		return allowCustom ? this.FAMILY_OPTIONS : this.FAMILY_OPTIONS.filter( ( option ) => 'custom' !== option.value );
+	}
+
+	static getDirectionOptions() {
+		return this.DIRECTION_OPTIONS;
+	}
+
+	/**
+	 * Get a readable name for a stored ease, e.g. "Power2 In-Out"
+	 * @param {EaseType} value - The stored ease
+	 */
+	static getEaseLabel( value?: EaseType ): string {
+		const ease = parseEase( value );
+		const family = this.FAMILY_OPTIONS.find( ( option ) => option.value === ease.family )?.label || ease.family;
+
+		if ( ! EASE_FAMILIES[ ease.family ].directional ) {
+			return family;
+		}
+
+		const direction = this.DIRECTION_OPTIONS.find( ( option ) => option.value === ease.direction )?.label || ease.direction;
+
+		return `${ family } ${ direction }`;
+	}
+}
@@ -0,0 +1,60 @@
+import { Fragment } from '@wordpress/element';
+import { RangeControl, SelectControl } from '@wordpress/components';
+import { __ } from '@wordpress/i18n';
+import { BaseControlSection } from './base-control-section';
+import type { HoverConfig, HoverLeaveBehavior } from '../../../types/animation';
+
+interface HoverSettingsSectionProps {
+	hover: HoverConfig;
+	updateHover: ( key: string, value: unknown ) => void;
+}
+
+export class HoverSettingsSection {
+	private static readonly LEAVE_OPTIONS = [
+		{ label: __( 'Reverse', 'gsap-block-animator' ), value: 'reverse' as HoverLeaveBehavior },
+		{ label: __( 'Finish, Then Reverse', 'gsap-block-animator' ), value: 'continue' as HoverLeaveBehavior },
+		{ label: __( 'Leave Animation', 'gsap-block-animator' ), value: 'animate' as HoverLeaveBehavior },
+	];
+
+	static render( { hover, updateHover }: HoverSettingsSectionProps ): JSX.Element {
+		return BaseControlSection.render( {
+			label: __( 'Hover Settings', 'gsap-block-animator' ),
+			className: 'gsap-section-divider',
+			children: (
+				<Fragment>
+					<SelectControl
+						label={ __( 'On Mouse Leave', 'gsap-block-animator' ) }
+						value={ hover.leave }
+						options={ this.LEAVE_OPTIONS }
+						onChange={ ( leave: string ) => updateHover( 'leave', leave as HoverLeaveBehavior ) }
+						help={ this.getLeaveHelp( hover.leave ) }
+					/>
+					<RangeControl
+						label={ __( 'Hover Intent Delay (seconds)', 'gsap-block-animator' ) }
+						value={ hover.intentDelay }
+						onChange={ ( value?: number ) => updateHover( 'intentDelay', value ?? 0 ) }
+						min={ 0 }
+						max={ 2 }
+						step={ 0.05 }
+						help={ __( 'How long the pointer must rest on the block before the animation starts', 'gsap-block-animator' ) }
+					/>
+				</Fragment>
+			),
+		} );
+	}
+
+	static getLeaveOptions() {
+		return this.LEAVE_OPTIONS;
+	}
+
+	private static getLeaveHelp( leave: HoverLeaveBehavior ): string {
+		switch ( leave ) {
+			case 'continue':
+				return __( 'Let the hover animation finish before reversing it', 'gsap-block-animator' );
+			case 'animate':
+				return __( 'Animate to the leave properties below instead of reversing', 'gsap-block-animator' );
+			default:
+				return __( 'Play the animation backwards from where it is', 'gsap-block-animator' );
+		}
+	}
+}
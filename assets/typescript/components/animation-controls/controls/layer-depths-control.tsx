@@ -0,0 +1,54 @@
+import { useState, useEffect } from '@wordpress/element';
+import { TextControl } from '@wordpress/components';
+import { __ } from '@wordpress/i18n';
+import PropTypes from 'prop-types';
+import { parseLayerDepths } from '../../../utils/pointer';
+
+interface LayerDepthsControlProps {
+	value?: number[];
+	onChange: ( depths?: number[] ) => void;
+	label?: string;
+	help?: string;
+}
+
+export const LayerDepthsControl: React.FC<LayerDepthsControlProps> = ( {
+	value,
+	onChange,
+	label,
+	help,
+} ) => {
+	const [ text, setText ] = useState( () => ( value || [] ).join( ', ' ) );
+
+	// Keep the text as typed while it already describes the saved depths
+	useEffect( () => {
+		setText( ( current ) => {
+			return parseLayerDepths( current ).join( ',' ) === ( value || [] ).join( ',' ) ? current : ( value || [] ).join( ', ' );
+		} );
+	}, [ value ] );
+
+	const handleChange = ( input: string ) => {
+		const depths = parseLayerDepths( input );
+
+		setText( input );
+		onChange( depths.length > 0 ? depths : undefined );
+	};
+
+	return (
+		<TextControl
+			label={ label || __( 'Layer Depths', 'gsap-block-animator' ) }
+			value={ text }
+			onChange={ handleChange }
+			onBlur={ () => setText( ( value || [] ).join( ', ' ) ) }
+			placeholder="1, 0.5, 0.2"
+			help={ help || __( 'Depth of each matched layer in order; deeper layers move further. Leave empty to spread them evenly.', 'gsap-block-animator' ) }
+		/>
+	);
+};
+
+LayerDepthsControl.propTypes = {
+	value: PropTypes.arrayOf( PropTypes.number ),
+	onChange: PropTypes.func.isRequired,
+	label: PropTypes.string,
+	help: PropTypes.string,
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+} as any;
@@ -0,0 +1,86 @@
+import { Fragment } from '@wordpress/element';
+import { RangeControl, SelectControl } from '@wordpress/components';
+import { __ } from '@wordpress/i18n';
+import { BaseControlSection } from './base-control-section';
+import { EaseControl } from './ease-control';
+import { LayerDepthsControl } from './layer-depths-control';
+import { POINTER_INTENSITY_RANGES } from '../../../utils/pointer';
+import type { EaseDescriptor, PointerConfig, PointerEffectType } from '../../../types/animation';
+
+interface PointerEffectSectionProps {
+	pointer: PointerConfig;
+	hasLayers: boolean;
+	updatePointer: ( key: string, value: unknown ) => void;
+}
+
+export class PointerEffectSection {
+	private static readonly EFFECT_OPTIONS = [
+		{ label: __( '3D Tilt', 'gsap-block-animator' ), value: 'tilt' as PointerEffectType },
+		{ label: __( 'Magnetic Pull', 'gsap-block-animator' ), value: 'magnetic' as PointerEffectType },
+		{ label: __( 'Mouse Parallax', 'gsap-block-animator' ), value: 'parallax' as PointerEffectType },
+	];
+
+	static render( { pointer, hasLayers, updatePointer }: PointerEffectSectionProps ): JSX.Element {
+		const range = POINTER_INTENSITY_RANGES[ pointer.effect ];
+
+		return BaseControlSection.render( {
+			label: __( 'Pointer Effect', 'gsap-block-animator' ),
+			className: 'gsap-section-divider',
+			children: (
+				<Fragment>
+					<SelectControl
+						label={ __( 'Effect', 'gsap-block-animator' ) }
+						value={ pointer.effect }
+						options={ this.EFFECT_OPTIONS }
+						onChange={ ( effect: string ) => updatePointer( 'effect', effect as PointerEffectType ) }
+						help={ __( 'Disabled on touch devices and for visitors who prefer reduced motion', 'gsap-block-animator' ) }
+					/>
+					<RangeControl
+						label={ this.getIntensityLabel( pointer.effect ) }
+						value={ pointer.intensity }
+						onChange={ ( value?: number ) => updatePointer( 'intensity', value ?? range.default ) }
+						min={ range.min }
+						max={ range.max }
+						step={ range.step }
+					/>
+					<RangeControl
+						label={ __( 'Smoothing (seconds)', 'gsap-block-animator' ) }
+						value={ pointer.smoothing }
+						onChange={ ( value?: number ) => updatePointer( 'smoothing', value ?? 0 ) }
+						min={ 0 }
+						max={ 2 }
+						step={ 0.05 }
+						help={ __( 'How long the block takes to catch up with the pointer', 'gsap-block-animator' ) }
+					/>
+					{ EaseControl.render( {
+						label: __( 'Follow Easing', 'gsap-block-animator' ),
+						value: pointer.ease,
+						onChange: ( ease: EaseDescriptor ) => updatePointer( 'ease', ease ),
+						allowCustom: false,
+					} ) }
+					{ 'parallax' === pointer.effect && hasLayers && (
+						<LayerDepthsControl
+							value={ pointer.depths }
+							onChange={ ( depths?: number[] ) => updatePointer( 'depths', depths ) }
+						/>
+					) }
+				</Fragment>
+			),
+		} );
+	}
+
+	static getEffectOptions() {
+		return this.EFFECT_OPTIONS;
+	}
+
+	private static getIntensityLabel( effect: PointerEffectType ): string {
+		switch ( effect ) {
+			case 'magnetic':
+				return __( 'Pull Strength', 'gsap-block-animator' );
+			case 'parallax':
+				return __( 'Maximum Offset (px)', 'gsap-block-animator' );
+			default:
+				return __( 'Maximum Tilt (degrees)', 'gsap-block-animator' );
+		}
+	}
+}
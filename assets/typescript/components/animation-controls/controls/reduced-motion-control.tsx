@@ -0,0 +1,38 @@
+import { SelectControl } from '@wordpress/components';
+import { __ } from '@wordpress/i18n';
+import type { ReducedMotionPolicy } from '../../../types/animation';
+
+interface ReducedMotionControlProps {
+	value?: ReducedMotionPolicy;
+	onChange: ( policy?: ReducedMotionPolicy ) => void;
+}
+
+export class ReducedMotionControl {
+	private static readonly POLICY_OPTIONS = [
+		{ label: __( 'Site Default', 'gsap-block-animator' ), value: '' },
+		{ label: __( 'Skip (Jump to End State)', 'gsap-block-animator' ), value: 'skip' },
+		{ label: __( 'Fade Only', 'gsap-block-animator' ), value: 'fade' },
+		{ label: __( 'Keep (Essential Animation)', 'gsap-block-animator' ), value: 'keep' },
+	];
+
+	static render( { value, onChange }: ReducedMotionControlProps ): JSX.Element {
+		return (
+			<SelectControl
+				label={ __( 'Reduced Motion', 'gsap-block-animator' ) }
+				value={ value || '' }
+				options={ this.POLICY_OPTIONS }
+				onChange={ ( policy: string ) => onChange( ( policy || undefined ) as ReducedMotionPolicy | undefined ) }
+				help={ __( 'What to do for visitors who prefer reduced motion', 'gsap-block-animator' ) }
+			/>
+		);
+	}
+
+	static getPolicyOptions() {
+		return this.POLICY_OPTIONS;
+	}
+
+	static getPolicyLabel( policy?: ReducedMotionPolicy ): string {
+		const option = this.POLICY_OPTIONS.find( ( opt ) => opt.value === ( policy || '' ) );
+		return option?.label || policy || '';
+	}
+}
@@ -0,0 +1,269 @@
+import { Fragment } from '@wordpress/element';
+import { RangeControl, ToggleControl, SelectControl, TextControl } from '@wordpress/components';
+import { __ } from '@wordpress/i18n';
+import { BaseControlSection } from './base-control-section';
+import { LayerDepthsControl } from './layer-depths-control';
+import type { ParallaxDirection, ScrollConfig, ScrollMode, ScrollToggleAction, ScrollToggleActions } from '../../../types/animation';
+
+interface ScrollSettingsSectionProps {
+	scroll: ScrollConfig;
+	hasLayers?: boolean;
+	updateScroll: ( key: string, value: unknown ) => void;
+}
+
+export class ScrollSettingsSection {
+	private static readonly MODE_OPTIONS = [
+		{ label: __( 'Play Animation', 'gsap-block-animator' ), value: 'play' as ScrollMode },
+		{ label: __( 'Parallax', 'gsap-block-animator' ), value: 'parallax' as ScrollMode },
+	];
+
+	private static readonly DIRECTION_OPTIONS = [
+		{ label: __( 'Vertical', 'gsap-block-animator' ), value: 'vertical' as ParallaxDirection },
+		{ label: __( 'Horizontal', 'gsap-block-animator' ), value: 'horizontal' as ParallaxDirection },
+	];
+
+	private static readonly TOGGLE_ACTION_OPTIONS = [
+		{ label: __( 'None', 'gsap-block-animator' ), value: 'none' as ScrollToggleAction },
+		{ label: __( 'Play', 'gsap-block-animator' ), value: 'play' as ScrollToggleAction },
+		{ label: __( 'Pause', 'gsap-block-animator' ), value: 'pause' as ScrollToggleAction },
+		{ label: __( 'Resume', 'gsap-block-animator' ), value: 'resume' as ScrollToggleAction },
+		{ label: __( 'Reverse', 'gsap-block-animator' ), value: 'reverse' as ScrollToggleAction },
+		{ label: __( 'Restart', 'gsap-block-animator' ), value: 'restart' as ScrollToggleAction },
+		{ label: __( 'Reset', 'gsap-block-animator' ), value: 'reset' as ScrollToggleAction },
+		{ label: __( 'Complete', 'gsap-block-animator' ), value: 'complete' as ScrollToggleAction },
+	];
+
+	private static readonly TOGGLE_ACTION_LABELS: Record<keyof ScrollToggleActions, string> = {
+		onEnter: __( 'On Enter', 'gsap-block-animator' ),
+		onLeave: __( 'On Leave', 'gsap-block-animator' ),
+		onEnterBack: __( 'On Enter Back', 'gsap-block-animator' ),
+		onLeaveBack: __( 'On Leave Back', 'gsap-block-animator' ),
+	};
+
+	static render( { scroll, hasLayers = false, updateScroll }: ScrollSettingsSectionProps ): JSX.Element {
+		return BaseControlSection.render( {
+			label: __( 'Scroll Settings', 'gsap-block-animator' ),
+			className: 'gsap-section-divider',
+			children: (
+				<Fragment>
+					{ this.renderModeControl( scroll, updateScroll ) }
+					{ 'parallax' === scroll.mode ? this.renderParallaxControls( scroll, hasLayers, updateScroll ) : this.renderPlayControls( scroll, updateScroll ) }
+					{ this.renderMarkersControl( scroll, updateScroll ) }
+				</Fragment>
+			),
+		} );
+	}
+
+	private static renderModeControl( scroll: ScrollConfig, updateScroll: ( key: string, value: unknown ) => void ): JSX.Element {
+		return (
+			<SelectControl
+				label={ __( 'Scroll Mode', 'gsap-block-animator' ) }
+				value={ scroll.mode }
+				options={ this.MODE_OPTIONS }
+				onChange={ ( mode: string ) => updateScroll( 'mode', mode as ScrollMode ) }
+				help={ 'parallax' === scroll.mode
+					? __( 'Move the block, its layers or a cover background at their own speed while scrolling', 'gsap-block-animator' )
+					: __( 'Play the animation when the block scrolls into view', 'gsap-block-animator' )
+				}
+			/>
+		);
+	}
+
+	private static renderPlayControls( scroll: ScrollConfig, updateScroll: ( key: string, value: unknown ) => void ): JSX.Element {
+		return (
+			<Fragment>
+				{ this.renderPositionControls( scroll, updateScroll ) }
+				{ this.renderPinControls( scroll, updateScroll ) }
+				{ this.renderScrubControls( scroll, updateScroll ) }
+				{ ! this.isScrubbed( scroll ) && this.renderToggleActionControls( scroll, updateScroll ) }
+				{ ! scroll.pin.enabled && this.renderOnceControl( scroll, updateScroll ) }
+			</Fragment>
+		);
+	}
+
+	private static renderParallaxControls( scroll: ScrollConfig, hasLayers: boolean, updateScroll: ( key: string, value: unknown ) => void ): JSX.Element {
+		const parallax = scroll.parallax;
+		const updateParallax = ( key: string, value: unknown ) => updateScroll( 'parallax', { ...parallax, [ key ]: value } );
+
+		return (
+			<Fragment>
+				<RangeControl
+					label={ __( 'Speed', 'gsap-block-animator' ) }
+					value={ parallax.speed }
+					onChange={ ( value?: number ) => updateParallax( 'speed', value ?? 1 ) }
+					min={ -1 }
+					max={ 2 }
+					step={ 0.05 }
+					help={ __( '1 scrolls with the page, lower values lag behind and higher values move ahead', 'gsap-block-animator' ) }
+				/>
+				<SelectControl
+					label={ __( 'Direction', 'gsap-block-animator' ) }
+					value={ parallax.direction }
+					options={ this.DIRECTION_OPTIONS }
+					onChange={ ( direction: string ) => updateParallax( 'direction', direction as ParallaxDirection ) }
+				/>
+				{ hasLayers && (
+					<LayerDepthsControl
+						label={ __( 'Layer Speeds', 'gsap-block-animator' ) }
+						help={ __( 'Speed of each matched layer in order. Layers without a value use the speed above.', 'gsap-block-animator' ) }
+						value={ parallax.speeds }
+						onChange={ ( speeds?: number[] ) => updateParallax( 'speeds', speeds ) }
+					/>
+				) }
+				<ToggleControl
+					label={ __( 'Keep Layers Inside the Block', 'gsap-block-animator' ) }
+					checked={ parallax.clamp }
+					onChange={ ( value: boolean ) => updateParallax( 'clamp', value ) }
+					help={ __( 'Limit each layer to the free space around it inside the block', 'gsap-block-animator' ) }
+				/>
+				{ this.renderScrubSmoothingControl( scroll, updateScroll ) }
+			</Fragment>
+		);
+	}
+
+	private static renderPositionControls( scroll: ScrollConfig, updateScroll: ( key: string, value: unknown ) => void ): JSX.Element {
+		return (
+			<Fragment>
+				<TextControl
+					label={ __( 'Start', 'gsap-block-animator' ) }
+					value={ scroll.start }
+					onChange={ ( value: string ) => updateScroll( 'start', value ) }
+					placeholder="top 80%"
+					help={ __( 'Element edge and viewport position where the animation starts', 'gsap-block-animator' ) }
+				/>
+				{ ! scroll.pin.enabled && (
+					<TextControl
+						label={ __( 'End', 'gsap-block-animator' ) }
+						value={ scroll.end }
+						onChange={ ( value: string ) => updateScroll( 'end', value ) }
+						placeholder="bottom 20%"
+						help={ __( 'Element edge and viewport position where the animation ends', 'gsap-block-animator' ) }
+					/>
+				) }
+			</Fragment>
+		);
+	}
+
+	private static renderPinControls( scroll: ScrollConfig, updateScroll: ( key: string, value: unknown ) => void ): JSX.Element {
+		const pin = scroll.pin;
+		const updatePin = ( key: string, value: unknown ) => updateScroll( 'pin', { ...pin, [ key ]: value } );
+
+		return (
+			<Fragment>
+				<ToggleControl
+					label={ __( 'Pin Block', 'gsap-block-animator' ) }
+					checked={ pin.enabled }
+					onChange={ ( value: boolean ) => updatePin( 'enabled', value ) }
+					help={ __( 'Hold the block in place from the start position while the page scrolls. A start of "top top" pins it to the top of the viewport.', 'gsap-block-animator' ) }
+				/>
+				{ pin.enabled && (
+					<Fragment>
+						<RangeControl
+							label={ __( 'Pin Duration (% of viewport height)', 'gsap-block-animator' ) }
+							value={ pin.duration }
+							onChange={ ( value?: number ) => updatePin( 'duration', value ?? 100 ) }
+							min={ 10 }
+							max={ 500 }
+							step={ 10 }
+							help={ __( 'Scroll distance the block stays pinned; it replaces the end position', 'gsap-block-animator' ) }
+						/>
+						<ToggleControl
+							label={ __( 'Pin Spacing', 'gsap-block-animator' ) }
+							checked={ pin.pinSpacing }
+							onChange={ ( value: boolean ) => updatePin( 'pinSpacing', value ) }
+							help={ __( 'Push the following content down so it waits until the pin is released', 'gsap-block-animator' ) }
+						/>
+						<RangeControl
+							label={ __( 'Anticipate Pin', 'gsap-block-animator' ) }
+							value={ pin.anticipatePin }
+							onChange={ ( value?: number ) => updatePin( 'anticipatePin', value ?? 0 ) }
+							min={ 0 }
+							max={ 2 }
+							step={ 0.1 }
+							help={ __( 'Apply the pin slightly early to avoid a jump when scrolling fast', 'gsap-block-animator' ) }
+						/>
+					</Fragment>
+				) }
+			</Fragment>
+		);
+	}
+
+	private static renderScrubControls( scroll: ScrollConfig, updateScroll: ( key: string, value: unknown ) => void ): JSX.Element {
+		return (
+			<Fragment>
+				<ToggleControl
+					label={ __( 'Scrub', 'gsap-block-animator' ) }
+					checked={ this.isScrubbed( scroll ) }
+					onChange={ ( value: boolean ) => updateScroll( 'scrub', value ) }
+					help={ __( 'Link animation progress to the scroll position', 'gsap-block-animator' ) }
+				/>
+				{ this.isScrubbed( scroll ) && this.renderScrubSmoothingControl( scroll, updateScroll ) }
+			</Fragment>
+		);
+	}
+
+	private static renderScrubSmoothingControl( scroll: ScrollConfig, updateScroll: ( key: string, value: unknown ) => void ): JSX.Element {
+		return (
+			<RangeControl
+				label={ __( 'Scrub Smoothing (seconds)', 'gsap-block-animator' ) }
+				value={ 'number' === typeof scroll.scrub ? scroll.scrub : 0 }
+				onChange={ ( value?: number ) => updateScroll( 'scrub', value || true ) }
+				min={ 0 }
+				max={ 5 }
+				step={ 0.1 }
+				help={ __( 'Time the animation takes to catch up with the scrollbar (0 = instant)', 'gsap-block-animator' ) }
+			/>
+		);
+	}
+
+	private static renderToggleActionControls( scroll: ScrollConfig, updateScroll: ( key: string, value: unknown ) => void ): JSX.Element {
+		const keys = Object.keys( this.TOGGLE_ACTION_LABELS ) as Array<keyof ScrollToggleActions>;
+
+		return (
+			<Fragment>
+				{ keys.map( ( key ) => (
+					<SelectControl
+						key={ key }
+						label={ this.TOGGLE_ACTION_LABELS[ key ] }
+						value={ scroll.toggleActions[ key ] }
+						options={ this.TOGGLE_ACTION_OPTIONS }
+						onChange={ ( action: string ) => updateScroll( 'toggleActions', {
+							...scroll.toggleActions,
+							[ key ]: action as ScrollToggleAction,
+						} ) }
+					/>
+				) ) }
+			</Fragment>
+		);
+	}
+
+	private static renderOnceControl( scroll: ScrollConfig, updateScroll: ( key: string, value: unknown ) => void ): JSX.Element {
+		return (
+			<ToggleControl
+				label={ __( 'Play Once', 'gsap-block-animator' ) }
+				checked={ scroll.once }
+				onChange={ ( value: boolean ) => updateScroll( 'once', value ) }
+				help={ __( 'Stop listening to scroll after the animation has played', 'gsap-block-animator' ) }
+			/>
+		);
+	}
+
+	private static renderMarkersControl( scroll: ScrollConfig, updateScroll: ( key: string, value: unknown ) => void ): JSX.Element {
+		return (
+			<ToggleControl
+				label={ __( 'Show Markers', 'gsap-block-animator' ) }
+				checked={ scroll.markers }
+				onChange={ ( value: boolean ) => updateScroll( 'markers', value ) }
+				help={ __( 'Draw start and end markers on the page (debug mode only)', 'gsap-block-animator' ) }
+			/>
+		);
+	}
+
+	static isScrubbed( scroll: ScrollConfig ): boolean {
+		return false !== scroll.scrub;
+	}
+
+	static getToggleActionOptions() {
+		return this.TOGGLE_ACTION_OPTIONS;
+	}
+}
@@ -19,24 +19,6 @@ export class SelectorControl {
 		);
 	}
 
-	static validateSelector( selector: string ): boolean {
-		if ( ! selector || '' === selector.trim() ) {
-			return true;
-		}
-
-		const forbiddenPatterns = [
-			'javascript:', 'data:', 'vbscript:', 'on\\w+\\s*=', '<script', '</script',
-		];
-
-		for ( const pattern of forbiddenPatterns ) {
-			if ( new RegExp( pattern, 'i' ).test( selector ) ) {
-				return false;
-			}
-		}
-
-		return selector.length <= 200;
-	}
-
 	static sanitizeSelector( selector: string ): string {
 		if ( ! selector ) {
 			return '';
@@ -0,0 +1,98 @@
+import { Fragment } from '@wordpress/element';
+import { RangeControl, ToggleControl, SelectControl } from '@wordpress/components';
+import { __ } from '@wordpress/i18n';
+import { BaseControlSection } from './base-control-section';
+import { EaseControl } from './ease-control';
+import type { EaseDescriptor, StaggerConfig, StaggerFrom, StaggerMode } from '../../../types/animation';
+
+interface StaggerControlsSectionProps {
+	stagger: StaggerConfig;
+	updateStagger: ( key: string, value: unknown ) => void;
+}
+
+export class StaggerControlsSection {
+	private static readonly MODE_OPTIONS = [
+		{ label: __( 'Time Between Each', 'gsap-block-animator' ), value: 'each' as StaggerMode },
+		{ label: __( 'Total Amount', 'gsap-block-animator' ), value: 'amount' as StaggerMode },
+	];
+
+	private static readonly FROM_OPTIONS = [
+		{ label: __( 'Start', 'gsap-block-animator' ), value: 'start' as StaggerFrom },
+		{ label: __( 'Center', 'gsap-block-animator' ), value: 'center' as StaggerFrom },
+		{ label: __( 'End', 'gsap-block-animator' ), value: 'end' as StaggerFrom },
+		{ label: __( 'Edges', 'gsap-block-animator' ), value: 'edges' as StaggerFrom },
+		{ label: __( 'Random', 'gsap-block-animator' ), value: 'random' as StaggerFrom },
+	];
+
+	static render( { stagger, updateStagger }: StaggerControlsSectionProps ): JSX.Element {
+		return BaseControlSection.render( {
+			label: __( 'Stagger', 'gsap-block-animator' ),
+			className: 'gsap-section-divider',
+			children: (
+				<Fragment>
+					{ this.renderEnabledControl( stagger, updateStagger ) }
+					{ stagger.enabled && this.renderStaggerControls( stagger, updateStagger ) }
+				</Fragment>
+			),
+		} );
+	}
+
+	private static renderEnabledControl( stagger: StaggerConfig, updateStagger: ( key: string, value: unknown ) => void ): JSX.Element {
+		return (
+			<ToggleControl
+				label={ __( 'Stagger Targets', 'gsap-block-animator' ) }
+				checked={ stagger.enabled }
+				onChange={ ( value: boolean ) => updateStagger( 'enabled', value ) }
+				help={ __( 'Animate the elements matched by the selector one after another', 'gsap-block-animator' ) }
+			/>
+		);
+	}
+
+	private static renderStaggerControls( stagger: StaggerConfig, updateStagger: ( key: string, value: unknown ) => void ): JSX.Element {
+		return (
+			<Fragment>
+				<SelectControl
+					label={ __( 'Stagger Mode', 'gsap-block-animator' ) }
+					value={ stagger.mode }
+					options={ this.MODE_OPTIONS }
+					onChange={ ( mode: string ) => updateStagger( 'mode', mode as StaggerMode ) }
+				/>
+				<RangeControl
+					label={ 'each' === stagger.mode
+						? __( 'Time Between Each (seconds)', 'gsap-block-animator' )
+						: __( 'Total Stagger Time (seconds)', 'gsap-block-animator' )
+					}
+					value={ stagger.value }
+					onChange={ ( value?: number ) => updateStagger( 'value', value ?? 0 ) }
+					min={ 0 }
+					max={ 'each' === stagger.mode ? 2 : 10 }
+					step={ 0.05 }
+				/>
+				<SelectControl
+					label={ __( 'Stagger From', 'gsap-block-animator' ) }
+					value={ stagger.from }
+					options={ this.FROM_OPTIONS }
+					onChange={ ( from: string ) => updateStagger( 'from', from as StaggerFrom ) }
+					help={ __( 'Which element starts the cascade', 'gsap-block-animator' ) }
+				/>
+				<ToggleControl
+					label={ __( 'Grid Layout', 'gsap-block-animator' ) }
+					checked={ stagger.grid }
+					onChange={ ( value: boolean ) => updateStagger( 'grid', value ) }
+					help={ __( 'Detect rows and columns automatically and stagger across the grid', 'gsap-block-animator' ) }
+				/>
+				{ EaseControl.render( {
+					label: __( 'Stagger Easing', 'gsap-block-animator' ),
+					value: stagger.ease,
+					onChange: ( ease: EaseDescriptor ) => updateStagger( 'ease', ease ),
+					allowCustom: false,
+					help: __( 'How start times are distributed across the elements', 'gsap-block-animator' ),
+				} ) }
+			</Fragment>
+		);
+	}
+
+	static getFromOptions() {
+		return this.FROM_OPTIONS;
+	}
+}
@@ -0,0 +1,38 @@
+import { SelectControl } from '@wordpress/components';
+import { __ } from '@wordpress/i18n';
+import type { TextSplitMode } from '../../../types/animation';
+
+interface TextSplitControlProps {
+	value?: TextSplitMode;
+	onChange: ( mode?: TextSplitMode ) => void;
+}
+
+export class TextSplitControl {
+	private static readonly SPLIT_OPTIONS = [
+		{ label: __( 'None', 'gsap-block-animator' ), value: '' },
+		{ label: __( 'Characters', 'gsap-block-animator' ), value: 'chars' },
+		{ label: __( 'Words', 'gsap-block-animator' ), value: 'words' },
+		{ label: __( 'Lines', 'gsap-block-animator' ), value: 'lines' },
+	];
+
+	static render( { value, onChange }: TextSplitControlProps ): JSX.Element {
+		return (
+			<SelectControl
+				label={ __( 'Split Text', 'gsap-block-animator' ) }
+				value={ value || '' }
+				options={ this.SPLIT_OPTIONS }
+				onChange={ ( mode: string ) => onChange( ( mode || undefined ) as TextSplitMode | undefined ) }
+				help={ __( 'Animate the text piece by piece; combine with stagger for a cascade', 'gsap-block-animator' ) }
+			/>
+		);
+	}
+
+	static getSplitOptions() {
+		return this.SPLIT_OPTIONS;
+	}
+
+	static getSplitLabel( mode?: TextSplitMode ): string {
+		const option = this.SPLIT_OPTIONS.find( ( opt ) => opt.value === ( mode || '' ) );
+		return option?.label || mode || '';
+	}
+}
@@ -1,36 +1,38 @@
 import { Fragment } from '@wordpress/element';
-import { RangeControl, ToggleControl, SelectControl } from '@wordpress/components';
+import { RangeControl, ToggleControl } from '@wordpress/components';
 import { __ } from '@wordpress/i18n';
 import { BaseControlSection } from './base-control-section';
-import type { EaseType, TimingProperties } from '../../../types/animation';
+import { BezierCurveEditor } from './bezier-curve-editor';
+import { EaseControl } from './ease-control';
+import { ValidationMessages } from './validation-messages';
+import type { BezierPoints, EaseDescriptor, EaseType, TimingProperties, ValidationResult } from '../../../types/animation';
+import { DEFAULT_BEZIER } from '../../../utils/custom-ease';
+import { DEFAULT_EASE, isCustomEase } from '../../../utils/ease';
+import { TIMING_RANGES } from '../../../utils/validation-rules';
 
 interface TimingControlsSectionProps {
 	timing: TimingProperties;
 	updateTiming: ( key: string, value: unknown ) => void;
+	validation?: ValidationResult;
 }
 
 export class TimingControlsSection {
-	private static readonly EASE_OPTIONS = [
-		{ label: __( 'None', 'gsap-block-animator' ), value: 'none' as EaseType },
-		{ label: __( 'Power1 Out', 'gsap-block-animator' ), value: 'power1.out' as EaseType },
-		{ label: __( 'Power2 Out', 'gsap-block-animator' ), value: 'power2.out' as EaseType },
-		{ label: __( 'Power3 Out', 'gsap-block-animator' ), value: 'power3.out' as EaseType },
-		{ label: __( 'Back Out', 'gsap-block-animator' ), value: 'back.out' as EaseType },
-		{ label: __( 'Elastic Out', 'gsap-block-animator' ), value: 'elastic.out' as EaseType },
-		{ label: __( 'Bounce Out', 'gsap-block-animator' ), value: 'bounce.out' as EaseType },
-	];
-
-	static render( { timing, updateTiming }: TimingControlsSectionProps ): JSX.Element {
+	static render( { timing, updateTiming, validation }: TimingControlsSectionProps ): JSX.Element {
 		return BaseControlSection.render( {
 			label: __( 'Animation Settings', 'gsap-block-animator' ),
 			className: 'gsap-section-divider',
 			children: (
 				<Fragment>
 					{ this.renderDurationControl( timing, updateTiming ) }
+					{ ValidationMessages.render( { validation, field: 'timing.duration' } ) }
 					{ this.renderDelayControl( timing, updateTiming ) }
+					{ ValidationMessages.render( { validation, field: 'timing.delay' } ) }
 					{ this.renderRepeatControl( timing, updateTiming ) }
+					{ ValidationMessages.render( { validation, field: 'timing.repeat' } ) }
 					{ this.renderYoyoControl( timing, updateTiming ) }
 					{ this.renderEaseControl( timing, updateTiming ) }
+					{ ValidationMessages.render( { validation, field: 'timing.ease' } ) }
+					{ isCustomEase( timing.ease ) && this.renderCustomEaseEditor( timing, updateTiming ) }
 				</Fragment>
 			),
 		} );
@@ -41,10 +43,10 @@ export class TimingControlsSection {
 			<RangeControl
 				label={ __( 'Duration (seconds)', 'gsap-block-animator' ) }
 				value={ timing.duration }
-				onChange={ ( value?: number ) => updateTiming( 'duration', value || 0.1 ) }
-				min={ 0.1 }
-				max={ 5 }
-				step={ 0.1 }
+				onChange={ ( value?: number ) => updateTiming( 'duration', value ?? TIMING_RANGES.duration.default ) }
+				min={ TIMING_RANGES.duration.min }
+				max={ TIMING_RANGES.duration.max }
+				step={ TIMING_RANGES.duration.step }
 				help={ __( 'Animation duration in seconds', 'gsap-block-animator' ) }
 			/>
 		);
@@ -55,10 +57,10 @@ export class TimingControlsSection {
 			<RangeControl
 				label={ __( 'Delay (seconds)', 'gsap-block-animator' ) }
 				value={ timing.delay }
-				onChange={ ( value?: number ) => updateTiming( 'delay', value || 0 ) }
-				min={ 0 }
-				max={ 3 }
-				step={ 0.1 }
+				onChange={ ( value?: number ) => updateTiming( 'delay', value ?? TIMING_RANGES.delay.default ) }
+				min={ TIMING_RANGES.delay.min }
+				max={ TIMING_RANGES.delay.max }
+				step={ TIMING_RANGES.delay.step }
 				help={ __( 'Delay before animation starts', 'gsap-block-animator' ) }
 			/>
 		);
@@ -69,11 +71,11 @@ export class TimingControlsSection {
 			<RangeControl
 				label={ __( 'Repeat', 'gsap-block-animator' ) }
 				value={ timing.repeat }
-				onChange={ ( value?: number ) => updateTiming( 'repeat', value || 0 ) }
-				min={ 0 }
-				max={ 10 }
-				step={ 1 }
-				help={ __( 'Number of times to repeat (0 = no repeat)', 'gsap-block-animator' ) }
+				onChange={ ( value?: number ) => updateTiming( 'repeat', value ?? TIMING_RANGES.repeat.default ) }
+				min={ TIMING_RANGES.repeat.min }
+				max={ TIMING_RANGES.repeat.max }
+				step={ TIMING_RANGES.repeat.step }
+				help={ __( 'Number of times to repeat (0 = no repeat, -1 = forever)', 'gsap-block-animator' ) }
 			/>
 		);
 	}
@@ -90,36 +92,26 @@ export class TimingControlsSection {
 	}
 
 	private static renderEaseControl( timing: TimingProperties, updateTiming: ( key: string, value: unknown ) => void ): JSX.Element {
+		return EaseControl.render( {
+			label: __( 'Easing', 'gsap-block-animator' ),
+			value: timing.ease,
+			onChange: ( ease: EaseDescriptor ) => updateTiming( 'ease', ease ),
+			help: __( 'Animation easing function', 'gsap-block-animator' ),
+		} );
+	}
+
+	private static renderCustomEaseEditor( timing: TimingProperties, updateTiming: ( key: string, value: unknown ) => void ): JSX.Element {
 		return (
-			<SelectControl
-				label={ __( 'Easing', 'gsap-block-animator' ) }
-				value={ timing.ease }
-				options={ this.EASE_OPTIONS }
-				onChange={ ( ease: string ) => updateTiming( 'ease', ease as EaseType ) }
-				help={ __( 'Animation easing function', 'gsap-block-animator' ) }
+			<BezierCurveEditor
+				value={ timing.customEase?.bezier || DEFAULT_BEZIER }
+				duration={ timing.duration }
+				onChange={ ( bezier: BezierPoints ) => updateTiming( 'customEase', { bezier } ) }
 			/>
 		);
 	}
 
-	static getEaseOptions() {
-		return this.EASE_OPTIONS;
-	}
-
 	static getEaseLabel( ease: EaseType ): string {
-		const option = this.EASE_OPTIONS.find( ( opt ) => opt.value === ease );
-		return option?.label || ease;
-	}
-
-	static validateDuration( duration: number ): boolean {
-		return duration >= 0.1 && duration <= 60;
-	}
-
-	static validateDelay( delay: number ): boolean {
-		return delay >= 0 && delay <= 30;
-	}
-
-	static validateRepeat( repeat: number ): boolean {
-		return repeat >= 0 && repeat <= 1000;
+		return EaseControl.getEaseLabel( ease );
 	}
 
 	static getDefaultTiming() {
@@ -128,7 +120,7 @@ export class TimingControlsSection {
 			delay: 0,
 			repeat: 0,
 			yoyo: false,
-			ease: 'power1.out' as EaseType,
+			ease: { ...DEFAULT_EASE } as EaseType,
 		};
 	}
 }
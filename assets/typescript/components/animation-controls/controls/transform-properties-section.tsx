@@ -2,30 +2,38 @@ import { Fragment } from '@wordpress/element';
 import { TextControl, RangeControl } from '@wordpress/components';
 import { __ } from '@wordpress/i18n';
 import { BaseControlSection } from './base-control-section';
-import type { AnimationProperties } from '../../../types/animation';
+import { ValidationMessages } from './validation-messages';
+import type { AnimationProperties, ValidationResult } from '../../../types/animation';
 
 interface TransformPropertiesSectionProps {
 	properties: Partial<AnimationProperties>;
 	updateProperty: ( key: string, value: unknown ) => void;
+	label?: string;
+	field?: string;
+	validation?: ValidationResult;
 }
 
+type PropertyMessages = ( key: string ) => JSX.Element | null;
+
 export class TransformPropertiesSection {
-	static render( { properties, updateProperty }: TransformPropertiesSectionProps ): JSX.Element {
+	static render( { properties, updateProperty, label, field = 'properties', validation }: TransformPropertiesSectionProps ): JSX.Element {
+		const messages: PropertyMessages = ( key ) => ValidationMessages.render( { validation, field: `${ field }.${ key }` } );
+
 		return BaseControlSection.render( {
-			label: __( 'Transform Properties', 'gsap-block-animator' ),
+			label: label || __( 'Transform Properties', 'gsap-block-animator' ),
 			className: 'gsap-section-divider',
 			children: (
 				<div className="gsap-properties-grid">
-					{ this.renderMovementControls( properties, updateProperty ) }
-					{ this.renderTransformControls( properties, updateProperty ) }
-					{ this.renderOpacityControl( properties, updateProperty ) }
-					{ this.renderColorControl( properties, updateProperty ) }
+					{ this.renderMovementControls( properties, updateProperty, messages ) }
+					{ this.renderTransformControls( properties, updateProperty, messages ) }
+					{ this.renderOpacityControl( properties, updateProperty, messages ) }
+					{ this.renderColorControl( properties, updateProperty, messages ) }
 				</div>
 			),
 		} );
 	}
 
-	private static renderMovementControls( properties: Partial<AnimationProperties>, updateProperty: ( key: string, value: unknown ) => void ): JSX.Element {
+	private static renderMovementControls( properties: Partial<AnimationProperties>, updateProperty: ( key: string, value: unknown ) => void, messages: PropertyMessages ): JSX.Element {
 		return (
 			<Fragment>
 				<TextControl
@@ -35,6 +43,7 @@ export class TransformPropertiesSection {
 					placeholder="0px"
 					help={ __( 'Horizontal movement (px, %, em, etc.)', 'gsap-block-animator' ) }
 				/>
+				{ messages( 'x' ) }
 				<TextControl
 					label={ __( 'Y Movement', 'gsap-block-animator' ) }
 					value={ properties.y?.toString() || '' }
@@ -42,11 +51,12 @@ export class TransformPropertiesSection {
 					placeholder="0px"
 					help={ __( 'Vertical movement (px, %, em, etc.)', 'gsap-block-animator' ) }
 				/>
+				{ messages( 'y' ) }
 			</Fragment>
 		);
 	}
 
-	private static renderTransformControls( properties: Partial<AnimationProperties>, updateProperty: ( key: string, value: unknown ) => void ): JSX.Element {
+	private static renderTransformControls( properties: Partial<AnimationProperties>, updateProperty: ( key: string, value: unknown ) => void, messages: PropertyMessages ): JSX.Element {
 		return (
 			<Fragment>
 				<TextControl
@@ -56,6 +66,7 @@ export class TransformPropertiesSection {
 					placeholder="0"
 					help={ __( 'Rotation in degrees', 'gsap-block-animator' ) }
 				/>
+				{ messages( 'rotation' ) }
 				<TextControl
 					label={ __( 'Scale', 'gsap-block-animator' ) }
 					value={ properties.scale?.toString() || '' }
@@ -63,68 +74,40 @@ export class TransformPropertiesSection {
 					placeholder="1"
 					help={ __( 'Scale multiplier (1 = 100%)', 'gsap-block-animator' ) }
 				/>
+				{ messages( 'scale' ) }
 			</Fragment>
 		);
 	}
 
-	private static renderOpacityControl( properties: Partial<AnimationProperties>, updateProperty: ( key: string, value: unknown ) => void ): JSX.Element {
+	private static renderOpacityControl( properties: Partial<AnimationProperties>, updateProperty: ( key: string, value: unknown ) => void, messages: PropertyMessages ): JSX.Element {
 		return (
-			<RangeControl
-				label={ __( 'Opacity', 'gsap-block-animator' ) }
-				value={ properties.opacity || 1 }
-				onChange={ ( value?: number ) => updateProperty( 'opacity', value || 1 ) }
-				min={ 0 }
-				max={ 1 }
-				step={ 0.1 }
-				help={ __( 'Element opacity (0–1)', 'gsap-block-animator' ) }
-			/>
+			<Fragment>
+				<RangeControl
+					label={ __( 'Opacity', 'gsap-block-animator' ) }
+					value={ properties.opacity ?? 1 }
+					onChange={ ( value?: number ) => updateProperty( 'opacity', value ?? 1 ) }
+					min={ 0 }
+					max={ 1 }
+					step={ 0.1 }
+					help={ __( 'Element opacity (0–1)', 'gsap-block-animator' ) }
+				/>
+				{ messages( 'opacity' ) }
+			</Fragment>
 		);
 	}
 
-	private static renderColorControl( properties: Partial<AnimationProperties>, updateProperty: ( key: string, value: unknown ) => void ): JSX.Element {
+	private static renderColorControl( properties: Partial<AnimationProperties>, updateProperty: ( key: string, value: unknown ) => void, messages: PropertyMessages ): JSX.Element {
 		return (
-			<TextControl
-				label={ __( 'Background Color', 'gsap-block-animator' ) }
-				value={ properties.backgroundColor || '' }
-				onChange={ ( value: string ) => updateProperty( 'backgroundColor', value ) }
-				placeholder="#ffffff"
-				help={ __( 'Background color (hex, rgb, etc.)', 'gsap-block-animator' ) }
-			/>
+			<Fragment>
+				<TextControl
+					label={ __( 'Background Color', 'gsap-block-animator' ) }
+					value={ properties.backgroundColor || '' }
+					onChange={ ( value: string ) => updateProperty( 'backgroundColor', value ) }
+					placeholder="#ffffff"
+					help={ __( 'Background color (hex, rgb, etc.)', 'gsap-block-animator' ) }
+				/>
+				{ messages( 'backgroundColor' ) }
+			</Fragment>
 		);
 	}
-
-	static validateMovementValue( value: string ): boolean {
-		if ( ! value ) {
-			return true;
-		}
-		return /^-?\d+(\.\d+)?(px|em|rem|%|vw|vh)$/.test( value ) || ! isNaN( Number( value ) );
-	}
-
-	static validateRotationValue( value: string ): boolean {
-		if ( ! value ) {
-			return true;
-		}
-		const num = parseFloat( value );
-		return ! isNaN( num ) && num >= -360 && num <= 360;
-	}
-
-	static validateScaleValue( value: string ): boolean {
-		if ( ! value ) {
-			return true;
-		}
-		const num = parseFloat( value );
-		return ! isNaN( num ) && num >= 0.1 && num <= 10;
-	}
-
-	static validateOpacityValue( value: number ): boolean {
-		return value >= 0 && value <= 1;
-	}
-
-	static validateColorValue( value: string ): boolean {
-		if ( ! value ) {
-			return true;
-		}
-		return /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/.test( value ) ||
-			/^rgba?\([^)]+\)$/.test( value );
-	}
 }
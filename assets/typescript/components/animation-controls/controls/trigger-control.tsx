@@ -1,6 +1,7 @@
 import { SelectControl } from '@wordpress/components';
 import { __ } from '@wordpress/i18n';
 import type { TriggerType } from '../../../types/animation';
+import { isWatchedTrigger } from '../../../utils/triggers';
 
 interface TriggerControlProps {
 	value: TriggerType;
@@ -13,6 +14,12 @@ export class TriggerControl {
 		{ label: __( 'On Scroll', 'gsap-block-animator' ), value: 'scroll' as TriggerType },
 		{ label: __( 'On Click', 'gsap-block-animator' ), value: 'click' as TriggerType },
 		{ label: __( 'On Hover', 'gsap-block-animator' ), value: 'hover' as TriggerType },
+		{ label: __( 'On Leaving the Viewport', 'gsap-block-animator' ), value: 'exit' as TriggerType },
+		{ label: __( 'On Focus', 'gsap-block-animator' ), value: 'focus' as TriggerType },
+		{ label: __( 'On Custom Event', 'gsap-block-animator' ), value: 'event' as TriggerType },
+		{ label: __( 'After Idle Time', 'gsap-block-animator' ), value: 'idle' as TriggerType },
+		{ label: __( 'On URL Hash', 'gsap-block-animator' ), value: 'hash' as TriggerType },
+		{ label: __( 'Pointer Effect', 'gsap-block-animator' ), value: 'pointer' as TriggerType },
 	];
 
 	static render( { value, onChange }: TriggerControlProps ): JSX.Element {
@@ -41,6 +48,10 @@ export class TriggerControl {
 	}
 
 	static isInteractionTrigger( trigger: TriggerType ): boolean {
-		return 'click' === trigger || 'hover' === trigger;
+		return 'click' === trigger || 'hover' === trigger || 'focus' === trigger;
+	}
+
+	static isWatchedTrigger( trigger: TriggerType ): boolean {
+		return isWatchedTrigger( trigger );
 	}
 }
@@ -0,0 +1,145 @@
+import { Fragment } from '@wordpress/element';
+import { RangeControl, SelectControl, TextControl, ToggleControl } from '@wordpress/components';
+import { __ } from '@wordpress/i18n';
+import { BaseControlSection } from './base-control-section';
+import { ValidationMessages } from './validation-messages';
+import type { EventTriggerAction, TriggerOptionsMap, ValidationResult } from '../../../types/animation';
+import type { WatchedTrigger } from '../../../utils/triggers';
+
+interface TriggerOptionsSectionProps<K extends WatchedTrigger> {
+	trigger: K;
+	options: TriggerOptionsMap[ K ];
+	updateOption: ( key: string, value: unknown ) => void;
+	validation?: ValidationResult;
+}
+
+type UpdateOption = ( key: string, value: unknown ) => void;
+
+export class TriggerOptionsSection {
+	private static readonly EVENT_ACTION_OPTIONS = [
+		{ label: __( 'Play', 'gsap-block-animator' ), value: 'play' as EventTriggerAction },
+		{ label: __( 'Restart', 'gsap-block-animator' ), value: 'restart' as EventTriggerAction },
+		{ label: __( 'Reverse', 'gsap-block-animator' ), value: 'reverse' as EventTriggerAction },
+		{ label: __( 'Toggle', 'gsap-block-animator' ), value: 'toggle' as EventTriggerAction },
+	];
+
+	static render<K extends WatchedTrigger>( { trigger, options, updateOption, validation }: TriggerOptionsSectionProps<K> ): JSX.Element {
+		return BaseControlSection.render( {
+			label: __( 'Trigger Options', 'gsap-block-animator' ),
+			className: 'gsap-section-divider',
+			children: this.renderOptions( trigger, options, updateOption, validation ),
+		} );
+	}
+
+	private static renderOptions<K extends WatchedTrigger>( trigger: K, options: TriggerOptionsMap[ K ], updateOption: UpdateOption, validation?: ValidationResult ): JSX.Element {
+		switch ( trigger ) {
+			case 'exit':
+				return this.renderExitOptions( options as TriggerOptionsMap[ 'exit' ], updateOption );
+			case 'focus':
+				return this.renderFocusOptions( options as TriggerOptionsMap[ 'focus' ], updateOption );
+			case 'event':
+				return this.renderEventOptions( options as TriggerOptionsMap[ 'event' ], updateOption, validation );
+			case 'idle':
+				return this.renderIdleOptions( options as TriggerOptionsMap[ 'idle' ], updateOption );
+			default:
+				return this.renderHashOptions( options as TriggerOptionsMap[ 'hash' ], updateOption, validation );
+		}
+	}
+
+	private static renderExitOptions( options: TriggerOptionsMap[ 'exit' ], updateOption: UpdateOption ): JSX.Element {
+		return (
+			<ToggleControl
+				label={ __( 'Play Once', 'gsap-block-animator' ) }
+				checked={ options.once }
+				onChange={ ( value: boolean ) => updateOption( 'once', value ) }
+				help={ __( 'Otherwise the animation reverses when the block scrolls back into view', 'gsap-block-animator' ) }
+			/>
+		);
+	}
+
+	private static renderFocusOptions( options: TriggerOptionsMap[ 'focus' ], updateOption: UpdateOption ): JSX.Element {
+		return (
+			<Fragment>
+				<ToggleControl
+					label={ __( 'Focus Within', 'gsap-block-animator' ) }
+					checked={ options.within }
+					onChange={ ( value: boolean ) => updateOption( 'within', value ) }
+					help={ __( 'Also play when a link or field inside the block has focus', 'gsap-block-animator' ) }
+				/>
+				<ToggleControl
+					label={ __( 'Keyboard Focus Only', 'gsap-block-animator' ) }
+					checked={ options.keyboardOnly }
+					onChange={ ( value: boolean ) => updateOption( 'keyboardOnly', value ) }
+					help={ __( 'Ignore focus caused by mouse clicks', 'gsap-block-animator' ) }
+				/>
+			</Fragment>
+		);
+	}
+
+	private static renderEventOptions( options: TriggerOptionsMap[ 'event' ], updateOption: UpdateOption, validation?: ValidationResult ): JSX.Element {
+		return (
+			<Fragment>
+				<TextControl
+					label={ __( 'Event Name', 'gsap-block-animator' ) }
+					value={ options.name }
+					onChange={ ( value: string ) => updateOption( 'name', value ) }
+					placeholder="my-theme:open-menu"
+					help={ __( 'Name of the event dispatched on document', 'gsap-block-animator' ) }
+				/>
+				{ ValidationMessages.render( { validation, field: 'event.name' } ) }
+				<SelectControl
+					label={ __( 'Action', 'gsap-block-animator' ) }
+					value={ options.action }
+					options={ this.EVENT_ACTION_OPTIONS }
+					onChange={ ( action: string ) => updateOption( 'action', action as EventTriggerAction ) }
+				/>
+			</Fragment>
+		);
+	}
+
+	private static renderIdleOptions( options: TriggerOptionsMap[ 'idle' ], updateOption: UpdateOption ): JSX.Element {
+		return (
+			<Fragment>
+				<RangeControl
+					label={ __( 'Idle Time (seconds)', 'gsap-block-animator' ) }
+					value={ options.delay }
+					onChange={ ( value?: number ) => updateOption( 'delay', value ?? 0 ) }
+					min={ 1 }
+					max={ 120 }
+					step={ 1 }
+				/>
+				<ToggleControl
+					label={ __( 'Reverse on Activity', 'gsap-block-animator' ) }
+					checked={ options.reverseOnActivity }
+					onChange={ ( value: boolean ) => updateOption( 'reverseOnActivity', value ) }
+					help={ __( 'Reverse as soon as the visitor moves, scrolls or types again', 'gsap-block-animator' ) }
+				/>
+			</Fragment>
+		);
+	}
+
+	private static renderHashOptions( options: TriggerOptionsMap[ 'hash' ], updateOption: UpdateOption, validation?: ValidationResult ): JSX.Element {
+		return (
+			<Fragment>
+				<TextControl
+					label={ __( 'URL Hash', 'gsap-block-animator' ) }
+					value={ options.hash }
+					onChange={ ( value: string ) => updateOption( 'hash', value ) }
+					placeholder="#pricing"
+					help={ __( 'Play when the address ends with this hash', 'gsap-block-animator' ) }
+				/>
+				{ ValidationMessages.render( { validation, field: 'hash.hash' } ) }
+				<ToggleControl
+					label={ __( 'Reverse on Change', 'gsap-block-animator' ) }
+					checked={ options.reverseOnChange }
+					onChange={ ( value: boolean ) => updateOption( 'reverseOnChange', value ) }
+					help={ __( 'Reverse when the hash changes to something else', 'gsap-block-animator' ) }
+				/>
+			</Fragment>
+		);
+	}
+
+	static getEventActionOptions() {
+		return this.EVENT_ACTION_OPTIONS;
+	}
+}
@@ -0,0 +1,32 @@
+import type { ValidationResult } from '../../../types/animation';
+import { getFieldIssues } from '../../../utils/validation-rules';
+
+interface ValidationMessagesProps {
+	validation?: ValidationResult;
+	field: string;
+}
+
+export class ValidationMessages {
+	static render( { validation, field }: ValidationMessagesProps ): JSX.Element | null {
+		const { errors, warnings } = getFieldIssues( validation, field );
+
+		if ( 0 === errors.length && 0 === warnings.length ) {
+			return null;
+		}
+
+		return (
+			<div className="gsap-field-messages">
+				{ errors.map( ( issue ) => (
+					<p key={ `error-${ issue.code }` } className="gsap-field-message is-error" role="alert">
+						{ issue.message }
+					</p>
+				) ) }
+				{ warnings.map( ( issue ) => (
+					<p key={ `warning-${ issue.code }` } className="gsap-field-message is-warning">
+						{ issue.message }
+					</p>
+				) ) }
+			</div>
+		);
+	}
+}
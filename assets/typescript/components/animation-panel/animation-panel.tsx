@@ -1,5 +1,6 @@
-import { useState, useCallback } from '@wordpress/element';
+import { useState, useCallback, useEffect, useMemo } from '@wordpress/element';
 import { PanelBody } from '@wordpress/components';
+import { useSelect } from '@wordpress/data';
 import { __ } from '@wordpress/i18n';
 import PropTypes from 'prop-types';
 
@@ -7,6 +8,11 @@ import type { BlockEditProps } from '../../types/block';
 import type { AnimationConfig } from '../../types/animation';
 import { AnimationControls } from '../animation-controls/animation-controls';
 import { AnimationPreview } from '../animation-preview/animation-preview';
+import { AnimationTabs } from './animation-tabs';
+import { BreakpointSwitcher } from './breakpoint-switcher';
+import { createDefaultAnimationConfig, getBlockAnimations, toBlockAttributes } from '../../utils/block-animations';
+import { createBreakpointId, findBreakpoint, getBreakpointConfig, isBreakpointDevice, setBreakpoint } from '../../utils/breakpoints';
+import { createBlockRef, findDuplicateBlockRefs } from '../../utils/click';
 
 interface AnimationPanelProps extends BlockEditProps {
 	// Additional props can be added here
@@ -19,57 +25,134 @@ export const AnimationPanel: React.FC<AnimationPanelProps> = ( {
 	name: blockName,
 } ) => {
 	const [ isPreviewMode, setIsPreviewMode ] = useState( false );
+	const [ activeIndex, setActiveIndex ] = useState( 0 );
+	const [ activeBreakpoint, setActiveBreakpoint ] = useState( '' );
 
-	const getDefaultAnimationConfig = (): AnimationConfig => ( {
-		enabled: false,
-		type: 'to',
-		trigger: 'pageload',
-		properties: {},
-		timing: {
-			duration: 0.5,
-			delay: 0,
-			repeat: 0,
-			yoyo: false,
-			ease: 'power1.out',
-		},
-	} );
-
-	const animationConfig: AnimationConfig = attributes.gsapAnimation || getDefaultAnimationConfig();
+	// Blocks without animations still show one disabled animation to switch on
+	const storedAnimations = useMemo( () => getBlockAnimations( attributes ), [ attributes ] );
+	const animations = useMemo( () => {
+		return storedAnimations.length > 0 ? storedAnimations : [ createDefaultAnimationConfig() ];
+	}, [ storedAnimations ] );
 
-	const updateAnimationConfig = useCallback( ( updates: Partial<AnimationConfig> ) => {
-		const newConfig = {
-			...animationConfig,
-			...updates,
-		};
+	const currentIndex = Math.min( activeIndex, animations.length - 1 );
+	const animationConfig = animations[ currentIndex ];
+
+	// Custom breakpoints belong to one animation, device breakpoints to all of them
+	const currentBreakpoint = isBreakpointDevice( activeBreakpoint ) || findBreakpoint( animationConfig, activeBreakpoint ) ? activeBreakpoint : '';
+
+	// A duplicated block comes with a copy of the original's reference
+	const hasDuplicateRef: boolean = useSelect( ( select ) => {
+		if ( ! attributes.gsapBlockRef ) {
+			return false;
+		}
+
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		const editor = select( 'core/block-editor' ) as any;
+		const blocks = ( editor.getClientIdsWithDescendants() as string[] ).map( ( id ) => ( {
+			clientId: id,
+			ref: editor.getBlockAttributes( id )?.gsapBlockRef,
+		} ) );
+
+		return findDuplicateBlockRefs( blocks ).includes( clientId );
+	}, [ attributes.gsapBlockRef, clientId ] );
+
+	useEffect( () => {
+		if ( hasDuplicateRef ) {
+			setAttributes( { gsapBlockRef: createBlockRef() } );
+		}
+	}, [ hasDuplicateRef, setAttributes ] );
+
+	// Animated blocks get the stable reference the frontend looks them up by
+	const saveAnimations = useCallback( ( nextAnimations: AnimationConfig[] ) => {
+		const needsRef = ( ! attributes.gsapBlockRef || hasDuplicateRef ) && nextAnimations.some( ( animation ) => animation.enabled );
 
 		setAttributes( {
-			gsapAnimation: newConfig,
+			...toBlockAttributes( nextAnimations ),
+			...( needsRef ? { gsapBlockRef: createBlockRef() } : {} ),
 		} );
-	}, [ animationConfig, setAttributes ] );
+	}, [ attributes.gsapBlockRef, hasDuplicateRef, setAttributes ] );
+
+	const updateAnimationConfig = useCallback( ( updates: Partial<AnimationConfig> ) => {
+		saveAnimations( animations.map( ( animation, index ) => {
+			return index === currentIndex ? { ...animation, ...updates } : animation;
+		} ) );
+	}, [ animations, currentIndex, saveAnimations ] );
 
 	const toggleAnimation = useCallback( ( enabled: boolean ) => {
 		updateAnimationConfig( { enabled } );
 	}, [ updateAnimationConfig ] );
 
+	const addAnimation = useCallback( () => {
+		saveAnimations( [ ...animations, createDefaultAnimationConfig( { enabled: true, trigger: 'hover' } ) ] );
+		setActiveIndex( animations.length );
+	}, [ animations, saveAnimations ] );
+
+	const removeAnimation = useCallback( ( index: number ) => {
+		saveAnimations( animations.filter( ( _animation, position ) => position !== index ) );
+		setActiveIndex( Math.max( 0, index - 1 ) );
+	}, [ animations, saveAnimations ] );
+
+	const moveAnimation = useCallback( ( index: number, offset: number ) => {
+		const target = index + offset;
+
+		if ( target < 0 || target >= animations.length ) {
+			return;
+		}
+
+		const nextAnimations = [ ...animations ];
+		[ nextAnimations[ index ], nextAnimations[ target ] ] = [ nextAnimations[ target ], nextAnimations[ index ] ];
+
+		saveAnimations( nextAnimations );
+		setActiveIndex( target );
+	}, [ animations, saveAnimations ] );
+
+	const addBreakpoint = useCallback( () => {
+		const id = createBreakpointId();
+
+		updateAnimationConfig( { breakpoints: setBreakpoint( animationConfig, { id, query: '' } ) } );
+		setActiveBreakpoint( id );
+	}, [ animationConfig, updateAnimationConfig ] );
+
 	const togglePreviewMode = useCallback( () => {
 		setIsPreviewMode( ! isPreviewMode );
 	}, [ isPreviewMode ] );
 	return (
 		<PanelBody
 			title={ __( 'GSAP Animation', 'gsap-block-animator' ) }
-			initialOpen={ animationConfig.enabled }
+			initialOpen={ animations.some( ( animation ) => animation.enabled ) }
 			className="gsap-animation-panel"
 		>
+			<AnimationTabs
+				animations={ animations }
+				activeIndex={ currentIndex }
+				onSelect={ setActiveIndex }
+				onAdd={ addAnimation }
+				onRemove={ removeAnimation }
+				onMove={ moveAnimation }
+			/>
+
+			{ animationConfig.enabled && (
+				<BreakpointSwitcher
+					config={ animationConfig }
+					active={ currentBreakpoint }
+					onSelect={ setActiveBreakpoint }
+					onAdd={ addBreakpoint }
+				/>
+			) }
+
 			<AnimationControls
+				key={ animationConfig.id || currentIndex }
 				config={ animationConfig }
 				onChange={ updateAnimationConfig }
 				onToggle={ toggleAnimation }
 				blockName={ blockName }
+				clientId={ clientId }
+				breakpoint={ currentBreakpoint }
 			/>
 
 			{ animationConfig.enabled && (
 				<AnimationPreview
-					config={ animationConfig }
+					config={ getBreakpointConfig( animationConfig, currentBreakpoint ) }
 					blockId={ clientId }
 					isPreviewMode={ isPreviewMode }
 					onTogglePreview={ togglePreviewMode }
@@ -0,0 +1,93 @@
+import { Button, ButtonGroup } from '@wordpress/components';
+import { __ } from '@wordpress/i18n';
+import PropTypes from 'prop-types';
+
+import type { AnimationConfig } from '../../types/animation';
+import { TriggerControl } from '../animation-controls/controls/trigger-control';
+
+interface AnimationTabsProps {
+	animations: AnimationConfig[];
+	activeIndex: number;
+	onSelect: ( index: number ) => void;
+	onAdd: () => void;
+	onRemove: ( index: number ) => void;
+	onMove: ( index: number, offset: number ) => void;
+}
+
+/**
+ * Get the tab label of an animation, e.g. "2. On Hover"
+ * @param {AnimationConfig} animation - The animation configuration
+ * @param {number}          index     - The position in the list
+ */
+const getTabLabel = ( animation: AnimationConfig, index: number ): string => {
+	return `${ index + 1 }. ${ TriggerControl.getTriggerLabel( animation.trigger ) }`;
+};
+
+export const AnimationTabs: React.FC<AnimationTabsProps> = ( {
+	animations,
+	activeIndex,
+	onSelect,
+	onAdd,
+	onRemove,
+	onMove,
+} ) => {
+	return (
+		<div className="gsap-animation-tabs">
+			<div className="gsap-animation-tabs__list" role="tablist" aria-label={ __( 'Block animations', 'gsap-block-animator' ) }>
+				{ animations.map( ( animation, index ) => (
+					<Button
+						key={ animation.id || index }
+						role="tab"
+						aria-selected={ index === activeIndex }
+						variant={ index === activeIndex ? 'primary' : 'secondary' }
+						className={ animation.enabled ? 'gsap-animation-tabs__tab' : 'gsap-animation-tabs__tab is-disabled' }
+						onClick={ () => onSelect( index ) }
+					>
+						{ getTabLabel( animation, index ) }
+					</Button>
+				) ) }
+				<Button
+					variant="tertiary"
+					icon="plus"
+					label={ __( 'Add animation', 'gsap-block-animator' ) }
+					onClick={ onAdd }
+				/>
+			</div>
+			{ animations.length > 1 && (
+				<ButtonGroup className="gsap-animation-tabs__actions">
+					<Button
+						variant="tertiary"
+						icon="arrow-up-alt2"
+						label={ __( 'Move earlier', 'gsap-block-animator' ) }
+						disabled={ 0 === activeIndex }
+						onClick={ () => onMove( activeIndex, -1 ) }
+					/>
+					<Button
+						variant="tertiary"
+						icon="arrow-down-alt2"
+						label={ __( 'Move later', 'gsap-block-animator' ) }
+						disabled={ activeIndex === animations.length - 1 }
+						onClick={ () => onMove( activeIndex, 1 ) }
+					/>
+					<Button
+						variant="tertiary"
+						isDestructive
+						icon="trash"
+						label={ __( 'Remove animation', 'gsap-block-animator' ) }
+						onClick={ () => onRemove( activeIndex ) }
+					/>
+				</ButtonGroup>
+			) }
+		</div>
+	);
+};
+
+AnimationTabs.propTypes = {
+	animations: PropTypes.array.isRequired,
+	activeIndex: PropTypes.number.isRequired,
+	onSelect: PropTypes.func.isRequired,
+	onAdd: PropTypes.func.isRequired,
+	onRemove: PropTypes.func.isRequired,
+	onMove: PropTypes.func.isRequired,
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+} as any;
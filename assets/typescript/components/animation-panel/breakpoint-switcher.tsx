@@ -0,0 +1,144 @@
+import { useEffect, useRef } from '@wordpress/element';
+import { Button, ButtonGroup } from '@wordpress/components';
+import { dispatch, useSelect } from '@wordpress/data';
+import { __ } from '@wordpress/i18n';
+import PropTypes from 'prop-types';
+
+import type { AnimationConfig, BreakpointDevice } from '../../types/animation';
+import { BREAKPOINT_DEVICES, findBreakpoint, getBreakpoints, hasBreakpointChanges, isBreakpointDevice } from '../../utils/breakpoints';
+
+interface BreakpointSwitcherProps {
+	config: AnimationConfig;
+	active: string;
+	onSelect: ( id: string ) => void;
+	onAdd: () => void;
+}
+
+const DEVICE_TYPES: Record<BreakpointDevice, string> = {
+	desktop: 'Desktop',
+	tablet: 'Tablet',
+	mobile: 'Mobile',
+};
+
+const DEVICE_ICONS: Record<BreakpointDevice, 'desktop' | 'tablet' | 'smartphone'> = {
+	desktop: 'desktop',
+	tablet: 'tablet',
+	mobile: 'smartphone',
+};
+
+const DEVICE_LABELS: Record<BreakpointDevice, string> = {
+	desktop: __( 'Desktop', 'gsap-block-animator' ),
+	tablet: __( 'Tablet', 'gsap-block-animator' ),
+	mobile: __( 'Mobile', 'gsap-block-animator' ),
+};
+
+/**
+ * Switch the editor's device preview, in the post editor and the site editor
+ * @param {BreakpointDevice} device - The device breakpoint
+ */
+const setPreviewDevice = ( device: BreakpointDevice ): void => {
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	const editor = dispatch( 'core/editor' ) as any;
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	const editPost = dispatch( 'core/edit-post' ) as any;
+
+	if ( editor?.setDeviceType ) {
+		editor.setDeviceType( DEVICE_TYPES[ device ] );
+	} else {
+		editPost?.__experimentalSetPreviewDeviceType?.( DEVICE_TYPES[ device ] );
+	}
+};
+
+export const BreakpointSwitcher: React.FC<BreakpointSwitcherProps> = ( {
+	config,
+	active,
+	onSelect,
+	onAdd,
+} ) => {
+	const deviceType: string = useSelect( ( select ) => {
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		const editor = select( 'core/editor' ) as any;
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		const editPost = select( 'core/edit-post' ) as any;
+
+		return editor?.getDeviceType?.() || editPost?.__experimentalGetPreviewDeviceType?.() || 'Desktop';
+	}, [] );
+
+	const followedDevice = useRef<string | null>( null );
+	const hasDesktopOverride = !! findBreakpoint( config, 'desktop' );
+
+	// Follow the device preview; desktop edits all devices unless it has its own overrides
+	useEffect( () => {
+		if ( followedDevice.current === deviceType ) {
+			return;
+		}
+
+		followedDevice.current = deviceType;
+
+		const device = BREAKPOINT_DEVICES.find( ( id ) => DEVICE_TYPES[ id ] === deviceType ) || 'desktop';
+
+		if ( device !== active ) {
+			onSelect( 'desktop' === device && ! hasDesktopOverride ? '' : device );
+		}
+	}, [ deviceType, active, hasDesktopOverride, onSelect ] );
+
+	const selectBreakpoint = ( id: string ) => {
+		onSelect( id );
+
+		if ( isBreakpointDevice( id ) ) {
+			setPreviewDevice( id );
+		}
+	};
+
+	const getClassName = ( id: string ): string => {
+		return hasBreakpointChanges( findBreakpoint( config, id ) ) ? 'gsap-breakpoint-switcher__item has-override' : 'gsap-breakpoint-switcher__item';
+	};
+
+	return (
+		<div className="gsap-breakpoint-switcher">
+			<ButtonGroup aria-label={ __( 'Breakpoints', 'gsap-block-animator' ) }>
+				<Button
+					variant={ '' === active ? 'primary' : 'secondary' }
+					className="gsap-breakpoint-switcher__item"
+					onClick={ () => onSelect( '' ) }
+				>
+					{ __( 'All Devices', 'gsap-block-animator' ) }
+				</Button>
+				{ BREAKPOINT_DEVICES.map( ( device ) => (
+					<Button
+						key={ device }
+						variant={ device === active ? 'primary' : 'secondary' }
+						className={ getClassName( device ) }
+						icon={ DEVICE_ICONS[ device ] }
+						label={ DEVICE_LABELS[ device ] }
+						onClick={ () => selectBreakpoint( device ) }
+					/>
+				) ) }
+				{ getBreakpoints( config ).filter( ( override ) => ! isBreakpointDevice( override.id ) ).map( ( override ) => (
+					<Button
+						key={ override.id }
+						variant={ override.id === active ? 'primary' : 'secondary' }
+						className={ getClassName( override.id ) }
+						onClick={ () => selectBreakpoint( override.id ) }
+					>
+						{ override.query?.trim() || __( 'Custom', 'gsap-block-animator' ) }
+					</Button>
+				) ) }
+				<Button
+					variant="tertiary"
+					icon="plus"
+					label={ __( 'Add custom breakpoint', 'gsap-block-animator' ) }
+					onClick={ onAdd }
+				/>
+			</ButtonGroup>
+		</div>
+	);
+};
+
+BreakpointSwitcher.propTypes = {
+	config: PropTypes.object.isRequired,
+	active: PropTypes.string.isRequired,
+	onSelect: PropTypes.func.isRequired,
+	onAdd: PropTypes.func.isRequired,
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+} as any;
@@ -25,10 +25,16 @@ import type {
 	AnimationConfig,
 	AnimationType,
 	TriggerType,
-	EaseType,
+	EaseDirection,
+	EaseFamily,
 	TimelineConfig,
 } from '../../types/animation';
 import type { BlockEditProps } from '../../types/block';
+import { EaseControl } from '../animation-controls/controls/ease-control';
+import { EASE_DIRECTIONS, EASE_FAMILIES, parseEase, serializeEase } from '../../utils/ease';
+import { DEFAULT_ANIMATION_CONFIG } from '../../utils/block-animations';
+import { migrateAnimationConfig } from '../../utils/config-migrations';
+import { TIMING_RANGES } from '../../utils/validation-rules';
 
 interface GSAPAnimationPanelProps extends BlockEditProps {
     attributes: {
@@ -38,29 +44,6 @@ interface GSAPAnimationPanelProps extends BlockEditProps {
     setAttributes: ( attributes: Partial<{ gsapAnimation: AnimationConfig }> ) => void;
 }
 
-/**
- * Default animation configuration
- */
-const DEFAULT_ANIMATION_CONFIG: AnimationConfig = {
-	enabled: false,
-	type: 'to',
-	trigger: 'pageload',
-	properties: {},
-	timing: {
-		duration: 0.5,
-		delay: 0,
-		repeat: 0,
-		yoyo: false,
-		ease: 'power1.out',
-	},
-	timeline: {
-		isTimeline: false,
-		timelineId: '',
-		timelineName: '',
-		timelinePosition: 'start',
-	},
-};
-
 /**
  * Animation type options for SelectControl
  */
@@ -79,20 +62,27 @@ const TRIGGER_TYPE_OPTIONS: Array<{ label: string; value: TriggerType }> = [
 	{ label: __( 'On Scroll', 'gsap-block-animator' ), value: 'scroll' },
 	{ label: __( 'On Click', 'gsap-block-animator' ), value: 'click' },
 	{ label: __( 'On Hover', 'gsap-block-animator' ), value: 'hover' },
+	{ label: __( 'On Leaving the Viewport', 'gsap-block-animator' ), value: 'exit' },
+	{ label: __( 'On Focus', 'gsap-block-animator' ), value: 'focus' },
+	{ label: __( 'On Custom Event', 'gsap-block-animator' ), value: 'event' },
+	{ label: __( 'After Idle Time', 'gsap-block-animator' ), value: 'idle' },
+	{ label: __( 'On URL Hash', 'gsap-block-animator' ), value: 'hash' },
+	{ label: __( 'Pointer Effect', 'gsap-block-animator' ), value: 'pointer' },
 ];
 
 /**
- * Easing options for SelectControl
+ * Easing options for SelectControl: every family in each of its directions,
+ * using default parameters. The custom curve needs the full animation panel.
  */
-const EASING_OPTIONS: Array<{ label: string; value: EaseType }> = [
-	{ label: __( 'None', 'gsap-block-animator' ), value: 'none' },
-	{ label: __( 'Power1 Out', 'gsap-block-animator' ), value: 'power1.out' },
-	{ label: __( 'Power2 Out', 'gsap-block-animator' ), value: 'power2.out' },
-	{ label: __( 'Power3 Out', 'gsap-block-animator' ), value: 'power3.out' },
-	{ label: __( 'Back Out', 'gsap-block-animator' ), value: 'back.out' },
-	{ label: __( 'Elastic Out', 'gsap-block-animator' ), value: 'elastic.out' },
-	{ label: __( 'Bounce Out', 'gsap-block-animator' ), value: 'bounce.out' },
-];
+const EASING_OPTIONS: Array<{ label: string; value: string }> = ( Object.keys( EASE_FAMILIES ) as EaseFamily[] )
+	.filter( ( family ) => 'custom' !== family )
+	.flatMap( ( family ) => {
+		const directions: EaseDirection[] = EASE_FAMILIES[ family ].directional ? EASE_DIRECTIONS : [ 'out' ];
+		return directions.map( ( direction ) => {
+			const ease = { family, direction };
+			return { label: EaseControl.getEaseLabel( ease ), value: serializeEase( ease ) };
+		} );
+	} );
 
 /**
  * Timeline position options
@@ -115,7 +105,7 @@ const TIMELINE_POSITION_OPTIONS: Array<{ label: string; value: string }> = [
 function GSAPAnimationPanel( { attributes, setAttributes }: GSAPAnimationPanelProps ): JSX.Element {
 	const gsapAnimation: AnimationConfig = {
 		...DEFAULT_ANIMATION_CONFIG,
-		...attributes.gsapAnimation,
+		...( attributes.gsapAnimation ? migrateAnimationConfig( attributes.gsapAnimation ) : {} ),
 	};
 
 	/**
@@ -336,28 +326,28 @@ function GSAPAnimationPanel( { attributes, setAttributes }: GSAPAnimationPanelPr
 					key: 'duration',
 					label: __( 'Duration (seconds)', 'gsap-block-animator' ),
 					value: gsapAnimation.timing.duration,
-					onChange: ( value?: number ) => updateTiming( 'duration', value || 0.5 ),
-					min: 0.1,
-					max: 5,
-					step: 0.1,
+					onChange: ( value?: number ) => updateTiming( 'duration', value ?? TIMING_RANGES.duration.default ),
+					min: TIMING_RANGES.duration.min,
+					max: TIMING_RANGES.duration.max,
+					step: TIMING_RANGES.duration.step,
 					help: __( 'Animation duration in seconds', 'gsap-block-animator' ),
 				} ),
 				createElement( RangeControl, {
 					key: 'delay',
 					label: __( 'Delay (seconds)', 'gsap-block-animator' ),
 					value: gsapAnimation.timing.delay,
-					onChange: ( value?: number ) => updateTiming( 'delay', value || 0 ),
-					min: 0,
-					max: 3,
-					step: 0.1,
+					onChange: ( value?: number ) => updateTiming( 'delay', value ?? TIMING_RANGES.delay.default ),
+					min: TIMING_RANGES.delay.min,
+					max: TIMING_RANGES.delay.max,
+					step: TIMING_RANGES.delay.step,
 					help: __( 'Delay before animation starts', 'gsap-block-animator' ),
 				} ),
 				createElement( SelectControl, {
 					key: 'easing',
 					label: __( 'Easing', 'gsap-block-animator' ),
-					value: gsapAnimation.timing.ease,
+					value: serializeEase( parseEase( gsapAnimation.timing.ease ) ),
 					options: EASING_OPTIONS,
-					onChange: ( ease: string ) => updateTiming( 'ease', ease as EaseType ),
+					onChange: ( ease: string ) => updateTiming( 'ease', parseEase( ease ) ),
 				} ),
 			);
 
@@ -1,10 +1,11 @@
-import { useState, useCallback, useEffect } from '@wordpress/element';
+import { useState, useCallback, useEffect, useMemo } from '@wordpress/element';
 import { Button, Notice } from '@wordpress/components';
 import { __ } from '@wordpress/i18n';
 import PropTypes from 'prop-types';
 
 import type { AnimationConfig } from '../../types/animation';
 import { AnimationService } from '../../services/animation-service';
+import { runValidationRules } from '../../utils/validation-rules';
 
 interface AnimationPreviewProps {
 	config: AnimationConfig;
@@ -23,6 +24,9 @@ export const AnimationPreview: React.FC<AnimationPreviewProps> = ( {
 	const [ error, setError ] = useState<string | null>( null );
 	const [ animationService ] = useState( () => new AnimationService() );
 
+	// Errors block the preview, warnings are only shown next to their controls
+	const validation = useMemo( () => runValidationRules( config ), [ config ] );
+
 	const clearErrorsOnConfigChange = useCallback( () => {
 		setError( null );
 	}, [] );
@@ -53,7 +57,7 @@ export const AnimationPreview: React.FC<AnimationPreviewProps> = ( {
 	}, [] );
 
 	const playPreview = useCallback( async () => {
-		if ( ! config.enabled ) {
+		if ( ! config.enabled || ! validation.isValid ) {
 			return;
 		}
 
@@ -71,7 +75,7 @@ export const AnimationPreview: React.FC<AnimationPreviewProps> = ( {
 		} catch ( err ) {
 			handlePlayError( err );
 		}
-	}, [ config, findBlockElement, animationService, handleAnimationComplete, handleAnimationError, handlePlayError ] );
+	}, [ config, validation, findBlockElement, animationService, handleAnimationComplete, handleAnimationError, handlePlayError ] );
 
 	const stopPreview = useCallback( () => {
 		animationService.stopPreview( blockId );
@@ -99,12 +103,18 @@ export const AnimationPreview: React.FC<AnimationPreviewProps> = ( {
 				</Notice>
 			) }
 
+			{ ! validation.isValid && (
+				<Notice status="error" isDismissible={ false }>
+					{ __( 'Fix the highlighted settings before previewing this animation.', 'gsap-block-animator' ) }
+				</Notice>
+			) }
+
 			<div className="gsap-preview-controls">
 				<Button
 					variant="primary"
 					onClick={ playPreview }
 					isBusy={ isPlaying }
-					disabled={ ! config.enabled || isPlaying }
+					disabled={ ! config.enabled || ! validation.isValid || isPlaying }
 					className="gsap-preview-button"
 				>
 					{ isPlaying
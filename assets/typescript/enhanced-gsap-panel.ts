@@ -12,9 +12,13 @@ import type {
 	AnimationConfig,
 	AnimationType,
 	TriggerType,
-	EaseType,
+	EaseFamily,
 	TimelineConfig,
 } from './types/animation';
+import { runValidationRules } from './utils/validation-rules';
+import { DEFAULT_ANIMATION_CONFIG } from './utils/block-animations';
+
+export { DEFAULT_ANIMATION_CONFIG };
 
 // WordPress globals - properly typed
 declare const wp: {
@@ -39,29 +43,6 @@ declare const wp: {
     };
 };
 
-/**
- * Default animation configuration with proper typing
- */
-export const DEFAULT_ANIMATION_CONFIG: AnimationConfig = {
-	enabled: false,
-	type: 'to',
-	trigger: 'pageload',
-	properties: {},
-	timing: {
-		duration: 0.5,
-		delay: 0,
-		repeat: 0,
-		yoyo: false,
-		ease: 'power1.out',
-	},
-	timeline: {
-		isTimeline: false,
-		timelineId: '',
-		timelineName: '',
-		timelinePosition: 'start',
-	},
-};
-
 /**
  * Animation type definitions for UI components
  */
@@ -104,19 +85,50 @@ export const TRIGGER_TYPES: Record<TriggerType, { label: string; description: st
 		label: 'On Hover',
 		description: 'Animation starts on mouse hover',
 	},
+	exit: {
+		label: 'On Leaving the Viewport',
+		description: 'Animation starts when element scrolls out of view',
+	},
+	focus: {
+		label: 'On Focus',
+		description: 'Animation plays while element or its content has keyboard focus',
+	},
+	event: {
+		label: 'On Custom Event',
+		description: 'Animation starts when a named event is dispatched on document',
+	},
+	idle: {
+		label: 'After Idle Time',
+		description: 'Animation starts once the visitor has been inactive for a while',
+	},
+	hash: {
+		label: 'On URL Hash',
+		description: 'Animation plays while the URL hash matches',
+	},
+	pointer: {
+		label: 'Pointer Effect',
+		description: 'Element tilts, pulls or shifts in layers as the mouse moves',
+	},
 };
 
 /**
- * Easing function definitions
+ * Easing family definitions, each available as in, out and inOut unless noted
  */
-export const EASING_FUNCTIONS: Record<EaseType, { label: string; curve: string }> = {
+export const EASING_FUNCTIONS: Record<EaseFamily, { label: string; curve: string }> = {
 	none: { label: 'None', curve: 'linear' },
-	'power1.out': { label: 'Power1 Out', curve: 'ease-out' },
-	'power2.out': { label: 'Power2 Out', curve: 'ease-out strong' },
-	'power3.out': { label: 'Power3 Out', curve: 'ease-out stronger' },
-	'back.out': { label: 'Back Out', curve: 'back ease-out' },
-	'elastic.out': { label: 'Elastic Out', curve: 'elastic ease-out' },
-	'bounce.out': { label: 'Bounce Out', curve: 'bounce ease-out' },
+	power0: { label: 'Power0', curve: 'linear' },
+	power1: { label: 'Power1', curve: 'quadratic' },
+	power2: { label: 'Power2', curve: 'cubic' },
+	power3: { label: 'Power3', curve: 'quartic' },
+	power4: { label: 'Power4', curve: 'quintic' },
+	sine: { label: 'Sine', curve: 'sine wave' },
+	expo: { label: 'Expo', curve: 'exponential' },
+	circ: { label: 'Circ', curve: 'circular' },
+	back: { label: 'Back', curve: 'overshoot (adjustable)' },
+	elastic: { label: 'Elastic', curve: 'spring (amplitude and period)' },
+	bounce: { label: 'Bounce', curve: 'bounce' },
+	steps: { label: 'Steps', curve: 'stepped (no direction)' },
+	custom: { label: 'Custom Curve', curve: 'cubic-bezier (no direction)' },
 };
 
 /**
@@ -157,45 +169,17 @@ export class AnimationValidator {
 	}
 
 	/**
-	 * Validate animation configuration
+	 * Validate animation configuration against the shared validation rules
 	 * @param {AnimationConfig} config - The animation configuration to validate
 	 */
 	static validateConfig( config: AnimationConfig ): { isValid: boolean; errors: string[] } {
-		const errors: string[] = [];
-
 		if ( ! config.enabled ) {
 			return { isValid: true, errors: [] }; // Disabled animations are always valid
 		}
 
-		// Validate timing
-		if ( config.timing.duration <= 0 ) {
-			errors.push( 'Duration must be greater than 0' );
-		}
-
-		if ( config.timing.delay < 0 ) {
-			errors.push( 'Delay cannot be negative' );
-		}
-
-		// Validate properties
-		if ( config.properties.x && 'string' === typeof config.properties.x ) {
-			if ( ! this.validateCSSUnit( config.properties.x ) ) {
-				errors.push( 'X movement must be a valid CSS unit' );
-			}
-		}
-
-		if ( config.properties.y && 'string' === typeof config.properties.y ) {
-			if ( ! this.validateCSSUnit( config.properties.y ) ) {
-				errors.push( 'Y movement must be a valid CSS unit' );
-			}
-		}
-
-		if ( config.properties.opacity !== undefined ) {
-			if ( ! this.validateRange( config.properties.opacity, 0, 1 ) ) {
-				errors.push( 'Opacity must be between 0 and 1' );
-			}
-		}
+		const result = runValidationRules( config );
 
-		return { isValid: 0 === errors.length, errors };
+		return { isValid: result.isValid, errors: result.errors.map( ( error ) => error.message ) };
 	}
 }
 
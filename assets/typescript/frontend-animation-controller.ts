@@ -6,6 +6,35 @@
  */
 
 import type { AnimationConfig } from './types/animation';
+import type { GSAPTarget, GSAPTimeline, GSAPTween } from './types/gsap';
+import { TimelineRegistry } from './services/timeline-registry';
+import { ReducedMotionManager, type MotionPlan } from './services/reduced-motion';
+import { TextSplitter } from './services/text-splitter';
+import { HoverInteraction } from './services/hover-interaction';
+import { ClickInteraction } from './services/click-interaction';
+import { TriggerWatcher } from './services/trigger-watcher';
+import { PointerTracker } from './services/pointer-tracker';
+import { PointerEffect } from './services/pointer-effect';
+import { DEFAULT_LAZY_MARGIN, LazyLoader } from './services/lazy-loader';
+import { PlaybackManager } from './services/playback-manager';
+import { MutationWatcher } from './services/mutation-watcher';
+import { BreakpointWatcher } from './services/breakpoint-watcher';
+import { AnimationApi } from './services/animation-api';
+import { debugLog } from './services/debug-log';
+import { DebugOverlay, type DebugBlockInfo } from './services/debug-overlay';
+import { bindLifecycleEvents } from './utils/lifecycle-events';
+import { isDebugMode } from './utils/debug';
+import type { AnimationLookup, AnimationSource } from './types/api';
+import { buildScrollTriggerVars } from './utils/scroll-trigger';
+import { buildAnimationVars, buildFromVars, hasAnimationProperties } from './utils/animation-properties';
+import { buildStaggerVars } from './utils/stagger';
+import { resolveEase } from './utils/ease';
+import { normalizeAnimationData } from './utils/block-animations';
+import { validateAnimationConfig } from './utils/config-validator';
+import { getBreakpointQueries, resolveBreakpoints } from './utils/breakpoints';
+import { getClickConfig, resolveClickSource } from './utils/click';
+import { getPointerConfig } from './utils/pointer';
+import { buildParallaxScrollTriggerVars, buildParallaxVars, getParallaxLayers, isParallaxConfig } from './utils/parallax';
 
 // Global types are included automatically via tsconfig.json
 
@@ -13,19 +42,48 @@ interface AnimationProperties {
     [key: string]: unknown;
     duration?: number;
     delay?: number;
-    ease?: string;
+    ease?: string | ( ( progress: number ) => number );
     repeat?: number;
     yoyo?: boolean;
 }
 
+interface TrackedRebuild {
+	setup: () => void;
+	animationId?: string;
+}
+
+interface TrackedAnimation {
+	tweens: GSAPTween[];
+	animationIds: Map<GSAPTween, string>;
+	cleanup: Array<() => void>;
+	rebuilds: TrackedRebuild[];
+}
+
 /**
  * Frontend Animation Controller Class
  */
-export class FrontendAnimationController {
+export class FrontendAnimationController implements AnimationSource {
 	private initialized: boolean = false;
-	private observer: IntersectionObserver | null = null;
+	private lazyLoader: LazyLoader | null = null;
+	private mutationWatcher: MutationWatcher | null = null;
+	private debugOverlay: DebugOverlay | null = null;
+	private loadedElements: Map<Element, AnimationConfig[]> = new Map();
+	private currentAnimationId?: string;
+	private timelineRegistry: TimelineRegistry = new TimelineRegistry();
+	private trackedAnimations: Map<Element, TrackedAnimation> = new Map();
+	private textSplitters: Map<Element, TextSplitter[]> = new Map();
+	private reducedMotion: ReducedMotionManager;
+	private pointerTracker: PointerTracker = new PointerTracker();
+	private playback: PlaybackManager;
+	private breakpointWatcher: BreakpointWatcher;
 
 	constructor() {
+		this.reducedMotion = new ReducedMotionManager( window.gsapBlockAnimatorSettings?.reducedMotionPolicy );
+		this.playback = new PlaybackManager(
+			( element ) => this.getPlaybackAnimations( element ),
+			!! window.gsapBlockAnimatorSettings?.pauseOffscreen,
+		);
+		this.breakpointWatcher = new BreakpointWatcher( ( elements ) => this.rebuildAnimatedElements( elements ) );
 		this.bindEvents();
 	}
 
@@ -40,6 +98,7 @@ export class FrontendAnimationController {
 		}
 
 		window.addEventListener( 'beforeunload', this.cleanupBeforeUnload.bind( this ) );
+		this.reducedMotion.subscribe( () => this.reinitialize() );
 	}
 
 	/**
@@ -51,90 +110,591 @@ export class FrontendAnimationController {
 		}
 
 		this.initialized = true;
+		this.lazyLoader = this.createLazyLoader();
 		this.initializeAnimations();
-		this.initializeIntersectionObserver();
+
+		if ( window.gsapBlockAnimatorSettings?.observeMutations ) {
+			this.mutationWatcher = new MutationWatcher( ( added, removed ) => this.handleMutations( added, removed ) );
+		}
+
+		if ( isDebugMode() && ! this.debugOverlay ) {
+			this.debugOverlay = new DebugOverlay( () => this.getDebugInfo(), () => this.reinitialize() );
+		}
 	}
 
 	/**
 	 * Initialize all animations
 	 */
 	private initializeAnimations(): void {
-		const animatedElements = this.findAnimatedElements();
+		this.loadAnimatedElements( [ document ] );
+	}
+
+	/**
+	 * Animate the blocks inside a part of the page that were not animated yet
+	 *
+	 * For content inserted after the page loaded, e.g. by a page transition
+	 * library. Scroll positions are measured again afterwards.
+	 *
+	 * @param {ParentNode} root - The element or document to scan
+	 */
+	public scan( root: ParentNode = document ): void {
+		this.loadAnimatedElements( [ root ] );
+		this.refreshScrollTriggers();
+	}
+
+	/**
+	 * Tear down the animations of the blocks inside a part of the page
+	 *
+	 * Call this before the content is removed, e.g. by a page transition
+	 * library. Scroll positions are measured again afterwards.
+	 *
+	 * @param {ParentNode} root - The element or document to tear down
+	 */
+	public teardown( root: ParentNode ): void {
+		this.teardownAnimatedElements( [ root ] );
+		this.refreshScrollTriggers();
+	}
+
+	/**
+	 * Animate added blocks and tear down removed ones
+	 * @param {Element[]} added   - The root elements added to the page
+	 * @param {Element[]} removed - The root elements removed from the page
+	 */
+	private handleMutations( added: Element[], removed: Element[] ): void {
+		const tornDown = this.teardownAnimatedElements( removed );
+		const loaded = this.loadAnimatedElements( added );
+
+		// Most mutations, like text being split, touch no animated block
+		if ( tornDown || loaded ) {
+			this.refreshScrollTriggers();
+		}
+	}
+
+	/**
+	 * Load every animated block inside the given roots once
+	 *
+	 * Returns whether any block was loaded.
+	 *
+	 * @param {ParentNode[]} roots - The elements or documents to search
+	 */
+	private loadAnimatedElements( roots: ParentNode[] ): boolean {
+		const elements = roots
+			.flatMap( ( root ) => this.findAnimatedElements( root ) )
+			.filter( ( element ) => ! this.loadedElements.has( element ) );
 
-		animatedElements.forEach( ( element: Element ) => {
-			this.processAnimatedElement( element );
+		if ( 0 === elements.length ) {
+			return false;
+		}
+
+		elements.forEach( ( element: Element ) => {
+			this.loadAnimatedElement( element );
 		} );
+
+		this.buildTimelines();
+
+		return true;
+	}
+
+	/**
+	 * Revert the animations of every loaded block inside the given roots
+	 *
+	 * Returns whether any block was torn down.
+	 *
+	 * @param {ParentNode[]} roots - The elements or documents to search
+	 */
+	private teardownAnimatedElements( roots: ParentNode[] ): boolean {
+		const elements = roots
+			.flatMap( ( root ) => this.findAnimatedElements( root ) )
+			.filter( ( element ) => this.loadedElements.has( element ) );
+
+		elements.forEach( ( element ) => this.unloadAnimatedElement( element ) );
+
+		if ( elements.length > 0 ) {
+			// Rebuild the timelines the removed blocks shared with others
+			this.buildTimelines();
+		}
+
+		return elements.length > 0;
 	}
 
 	/**
-	 * Find all elements with animation data
+	 * Revert the animations of a loaded block and forget about it
+	 * @param {Element} element - The DOM element
 	 */
-	private findAnimatedElements(): NodeListOf<Element> {
-		return document.querySelectorAll( '[data-gsap-animation]' );
+	private unloadAnimatedElement( element: Element ): void {
+		this.loadedElements.delete( element );
+		this.lazyLoader?.unobserve( element );
+		this.playback.unwatch( element );
+		this.breakpointWatcher.unwatch( element );
+		this.timelineRegistry.destroyFor( element );
+		this.destroyTrackedAnimation( element );
+		this.textSplitters.get( element )?.forEach( ( splitter ) => splitter.revert() );
+		this.textSplitters.delete( element );
+		debugLog.forget( element );
 	}
 
 	/**
-	 * Process a single animated element
-	 * @param {Element} element - The DOM element to process
+	 * Rebuild the animations of blocks whose breakpoints changed
+	 *
+	 * The old animations are reverted first, like gsap.matchMedia does, so
+	 * the new ones start from the block's original state. Blocks sharing a
+	 * timeline with them are rebuilt too, so the sequence is built again
+	 * from every member, whichever of them changed.
+	 *
+	 * @param {Element[]} elements - The blocks whose breakpoints changed
 	 */
-	private processAnimatedElement( element: Element ): void {
-		const animationConfig = this.extractAnimationConfig( element );
+	private rebuildAnimatedElements( elements: Element[] ): void {
+		const loaded = this.withTimelinePartners( elements ).filter( ( element ) => this.loadedElements.has( element ) );
 
-		if ( this.isValidConfig( animationConfig ) ) {
-			this.createAnimation( element, animationConfig );
+		if ( 0 === loaded.length ) {
+			return;
 		}
+
+		loaded.forEach( ( element ) => this.unloadAnimatedElement( element ) );
+		loaded.forEach( ( element ) => this.loadAnimatedElement( element ) );
+		this.buildTimelines();
+		this.refreshScrollTriggers();
 	}
 
 	/**
-	 * Extract animation configuration from element
+	 * Add the loaded blocks that share a timeline with the given blocks
+	 * @param {Element[]} elements - The DOM elements
+	 */
+	private withTimelinePartners( elements: Element[] ): Element[] {
+		const timelineIds = new Set( elements.flatMap( ( element ) => this.getTimelineIds( element ) ) );
+
+		if ( 0 === timelineIds.size ) {
+			return elements;
+		}
+
+		const partners = Array.from( this.loadedElements.keys() ).filter( ( element ) => {
+			return this.getTimelineIds( element ).some( ( timelineId ) => timelineIds.has( timelineId ) );
+		} );
+
+		return Array.from( new Set( [ ...elements, ...partners ] ) );
+	}
+
+	/**
+	 * List the timelines an element's stored animations own or join
+	 *
+	 * Stored configurations are read, so animations a breakpoint disabled
+	 * still count.
+	 *
+	 * @param {Element} element - The DOM element
+	 */
+	private getTimelineIds( element: Element ): string[] {
+		return this.extractAnimationConfigs( element )
+			.map( ( config ) => config.timeline?.isTimeline ? config.timeline.timelineId : config.timeline?.parentTimelineId )
+			.filter( ( timelineId ): timelineId is string => !! timelineId );
+	}
+
+	/**
+	 * Measure all scroll positions again after the page layout changed
+	 */
+	private refreshScrollTriggers(): void {
+		if ( 'undefined' !== typeof window.ScrollTrigger ) {
+			window.ScrollTrigger.refresh();
+		}
+	}
+
+	/**
+	 * Build the animations of an element now, or leave them to the lazy
+	 * loader when every one of them can wait for the element to approach
+	 * the viewport
+	 *
+	 * Each animation is built with the overrides of the breakpoints that
+	 * match right now, and rebuilt when they change.
+	 *
 	 * @param {Element} element - The DOM element
 	 */
-	private extractAnimationConfig( element: Element ): AnimationConfig | null {
+	private loadAnimatedElement( element: Element ): void {
+		const storedConfigs = this.extractAnimationConfigs( element );
+
+		this.breakpointWatcher.watch( element, storedConfigs.flatMap( getBreakpointQueries ) );
+
+		const configs = storedConfigs
+			.map( ( config ) => this.validateConfig( element, resolveBreakpoints( config, this.breakpointWatcher.matches ) ) )
+			.filter( ( config ): config is AnimationConfig => null !== config );
+
+		this.loadedElements.set( element, configs );
+
+		if ( ! this.lazyLoader || 0 === configs.length || ! configs.every( LazyLoader.isLazyConfig ) ) {
+			this.processAnimatedElement( element, configs );
+			return;
+		}
+
+		this.lazyLoader.observe(
+			element,
+			() => this.processAnimatedElement( element, configs ),
+			configs.every( LazyLoader.isReleasableConfig ) ? () => this.destroyTrackedAnimation( element ) : undefined,
+		);
+	}
+
+	/**
+	 * Build master timelines and animate members whose owner is missing
+	 */
+	private buildTimelines(): void {
+		this.timelineRegistry.build( ( member ) => {
+			this.animateStandalone( member.element, member.config, member.vars, member.fromVars );
+		} );
+	}
+
+	/**
+	 * Find all elements with animation data, including the root itself
+	 * @param {ParentNode} root - The element or document to search
+	 */
+	private findAnimatedElements( root: ParentNode = document ): Element[] {
+		const elements = Array.from( root.querySelectorAll( '[data-gsap-animation]' ) );
+
+		return root instanceof Element && root.matches( '[data-gsap-animation]' ) ? [ root, ...elements ] : elements;
+	}
+
+	/**
+	 * Process a single animated element and every animation it declares
+	 * @param {Element}           element - The DOM element to process
+	 * @param {AnimationConfig[]} configs - The valid animation configurations of the element
+	 */
+	private processAnimatedElement( element: Element, configs: AnimationConfig[] ): void {
+		const isShared = configs.length > 1;
+
+		if ( configs.some( ( config ) => -1 === config.timing.repeat ) ) {
+			this.playback.watchOffscreen( element );
+		}
+
+		configs.forEach( ( config ) => {
+			this.createAnimation( element, {
+				...config,
+				selector: this.extractSelector( element, config, isShared ),
+			}, isShared );
+		} );
+	}
+
+	/**
+	 * Extract the ordered animation configurations from element
+	 * @param {Element} element - The DOM element
+	 */
+	private extractAnimationConfigs( element: Element ): AnimationConfig[] {
 		const animationData = element.getAttribute( 'data-gsap-animation' );
 
 		if ( ! animationData ) {
-			return null;
+			return [];
 		}
 
 		try {
-			const config = JSON.parse( animationData ) as AnimationConfig;
-			return config;
+			return normalizeAnimationData( JSON.parse( animationData ) );
 		} catch ( error ) {
-			return null;
+			debugLog.report( 'parse', error, element );
+			return [];
 		}
 	}
 
 	/**
-	 * Validate animation configuration
-	 * @param {AnimationConfig | null} config - The animation configuration to validate
+	 * Extract the child selector
+	 *
+	 * The rendered data attribute is only written for blocks with a single
+	 * animation, so shared elements read each animation's own selector.
+	 *
+	 * @param {Element}         element  - The DOM element
+	 * @param {AnimationConfig} config   - The animation configuration
+	 * @param {boolean}         isShared - Whether the element has several animations
 	 */
-	private isValidConfig( config: AnimationConfig | null ): config is AnimationConfig {
-		return config !== null &&
-               config.enabled &&
-               'string' === typeof config.type &&
-               'string' === typeof config.trigger;
+	private extractSelector( element: Element, config: AnimationConfig, isShared: boolean ): string | undefined {
+		const selector = ( ! isShared && element.getAttribute( 'data-gsap-selector' ) ) || config.selector;
+		return selector?.trim() || undefined;
 	}
 
 	/**
-	 * Create animation for element
+	 * Resolve the elements to animate: the split text pieces, the selector-targeted children or the block itself
 	 * @param {Element}         element - The DOM element
 	 * @param {AnimationConfig} config  - The animation configuration
 	 */
-	private createAnimation( element: Element, config: AnimationConfig ): void {
+	private resolveTarget( element: Element, config: AnimationConfig ): GSAPTarget {
+		const splitters = config.textSplit ? this.textSplitters.get( element ) : undefined;
+
+		if ( splitters ) {
+			return splitters.flatMap( ( splitter ) => splitter.getPieces() );
+		}
+
+		if ( config.selector ) {
+			return element.querySelectorAll( config.selector );
+		}
+		return element;
+	}
+
+	/**
+	 * Validate an enabled animation configuration and coerce its safe values
+	 *
+	 * Problems are reported to the debug log. Returns null for disabled
+	 * animations and for animations that cannot be built safely.
+	 *
+	 * @param {Element}         element - The DOM element
+	 * @param {AnimationConfig} config  - The animation configuration to validate
+	 */
+	private validateConfig( element: Element, config: AnimationConfig ): AnimationConfig | null {
+		const result = validateAnimationConfig( config );
+
+		if ( ! result.config?.enabled ) {
+			return null;
+		}
+
+		result.errors.forEach( ( error ) => debugLog.report( 'validate', `${ error.field }: ${ error.message }`, element ) );
+		result.warnings.forEach( ( warning ) => debugLog.report( 'validate', `${ warning.field }: ${ warning.message }`, element, 'warning' ) );
+
+		return result.isValid ? result.config : null;
+	}
+
+	/**
+	 * Create animation for element
+	 *
+	 * When an element has several animations, standalone tweens overwrite
+	 * the properties they share with tweens already running on the same
+	 * targets instead of fighting over them.
+	 *
+	 * @param {Element}         element  - The DOM element
+	 * @param {AnimationConfig} config   - The animation configuration
+	 * @param {boolean}         isShared - Whether the element has several animations
+	 */
+	private createAnimation( element: Element, config: AnimationConfig, isShared: boolean = false ): void {
 		try {
 			if ( ! this.checkGSAPAvailability() ) {
 				return;
 			}
 
-			const properties = this.prepareAnimationProperties( config );
+			this.splitText( element, config );
+
+			if ( 'pointer' === config.trigger ) {
+				this.createPointerEffect( element, config );
+				return;
+			}
+
+			if ( isParallaxConfig( config ) ) {
+				this.createParallaxAnimation( element, config );
+				return;
+			}
+
+			const plan = this.planAnimation( element, config );
+
+			if ( ! plan ) {
+				return;
+			}
+
+			const motionConfig: AnimationConfig = { ...config, type: plan.type };
+
+			if ( this.registerTimelineMember( element, motionConfig, plan.vars, plan.fromVars ) ) {
+				return;
+			}
+
+			if ( ! this.hasAnimationProperties( plan.vars ) ) {
+				return;
+			}
+
+			const vars = isShared ? { ...plan.vars, overwrite: 'auto' } : plan.vars;
+			this.animateStandalone( element, motionConfig, vars, plan.fromVars );
+		} catch ( error ) {
+			debugLog.report( 'create', error, element );
+		}
+	}
+
+	/**
+	 * Make the block or its selector-targeted layers follow the pointer
+	 *
+	 * Pointer effects are left out on touch devices and whenever the
+	 * visitor prefers reduced motion, whatever the block's policy.
+	 *
+	 * @param {Element}         element - The DOM element
+	 * @param {AnimationConfig} config  - The animation configuration
+	 */
+	private createPointerEffect( element: Element, config: AnimationConfig ): void {
+		if ( this.reducedMotion.isReduced() || ! PointerTracker.isSupported() ) {
+			return;
+		}
+
+		this.runTracked( element, () => {
+			const effect = new PointerEffect(
+				element,
+				this.toTargetList( this.resolveTarget( element, config ) ),
+				getPointerConfig( config ),
+				this.pointerTracker,
+			);
+
+			this.getTrackedAnimation( element ).cleanup.push( () => effect.destroy() );
+		}, config.id );
+	}
+
+	/**
+	 * Move the block or its layers at their own speed while it scrolls by
+	 *
+	 * Parallax is pure motion, so it is left out unless the reduced motion
+	 * policy keeps animations.
+	 *
+	 * @param {Element}         element - The DOM element
+	 * @param {AnimationConfig} config  - The animation configuration
+	 */
+	private createParallaxAnimation( element: Element, config: AnimationConfig ): void {
+		if ( 'keep' !== this.reducedMotion.getPolicy( config ) || 'undefined' === typeof window.ScrollTrigger ) {
+			return;
+		}
+
+		window.gsap.registerPlugin( window.ScrollTrigger );
+
+		this.runTracked( element, () => {
+			const layers = getParallaxLayers( element, this.resolveTarget( element, config ) );
+			const { fromVars, vars } = buildParallaxVars( element, layers, config );
+
+			this.trackTween( element, window.gsap.fromTo( layers, fromVars, {
+				...vars,
+				scrollTrigger: buildParallaxScrollTriggerVars( element, config ),
+			} ) );
+		}, config.id );
+	}
+
+	/**
+	 * Prepare the tween data, adapted to the reduced motion policy
+	 *
+	 * Returns null when the animation is skipped, after jumping to its end state.
+	 *
+	 * @param {Element}         element - The DOM element
+	 * @param {AnimationConfig} config  - The animation configuration
+	 */
+	private planAnimation( element: Element, config: AnimationConfig ): MotionPlan | null {
+		const properties = this.prepareAnimationProperties( config );
+		const plan = this.reducedMotion.adapt( config, properties, this.getFromProperties( config ) );
+
+		if ( ! plan ) {
+			this.jumpToEndState( element, config, properties );
+		}
+
+		return plan;
+	}
+
+	/**
+	 * Split the text of the block or its selector-targeted children
+	 *
+	 * An element is split once; when several of its animations split text,
+	 * the first split mode is used for all of them.
+	 *
+	 * @param {Element}         element - The DOM element
+	 * @param {AnimationConfig} config  - The animation configuration
+	 */
+	private splitText( element: Element, config: AnimationConfig ): void {
+		const mode = config.textSplit;
+
+		if ( ! mode || this.textSplitters.has( element ) ) {
+			return;
+		}
+
+		const sources = config.selector ? Array.from( element.querySelectorAll( config.selector ) ) : [ element ];
+
+		this.textSplitters.set( element, sources
+			.filter( ( source ): source is HTMLElement => source instanceof HTMLElement )
+			.map( ( source ) => new TextSplitter( source, mode, () => this.handleTextResplit( element ) ) ),
+		);
+	}
 
-			if ( ! this.hasAnimationProperties( properties ) ) {
+	/**
+	 * Rebuild the animations of a block whose text was split into new lines
+	 *
+	 * Standalone tweens are recreated and resume at the progress of the
+	 * tweens they replace.
+	 *
+	 * @param {Element} element - The DOM element
+	 */
+	private handleTextResplit( element: Element ): void {
+		try {
+			this.timelineRegistry.retarget( element, ( member ) => this.resolveTarget( element, member.config ) );
+
+			const tracked = this.trackedAnimations.get( element );
+
+			if ( ! tracked ) {
 				return;
 			}
 
-			this.executeAnimationByTrigger( element, config, properties );
+			const progress = tracked.tweens.map( ( tween ) => tween.progress() );
+			this.destroyTrackedAnimation( element );
+			tracked.rebuilds.forEach( ( { setup, animationId } ) => this.runTracked( element, setup, animationId ) );
+
+			this.getTrackedAnimation( element ).tweens.forEach( ( tween, index ) => {
+				tween.progress( progress[ index ] ?? 0 );
+			} );
 		} catch ( error ) {
-			// Silently handle animation creation errors
+			debugLog.report( 'resplit', error, element );
+		}
+	}
+
+	/**
+	 * Animate an element on its own, outside any master timeline
+	 * @param {Element}             element        - The DOM element
+	 * @param {AnimationConfig}     config         - The animation configuration
+	 * @param {AnimationProperties} properties     - The animation properties
+	 * @param {AnimationProperties} fromProperties - The 'from' properties for fromTo animations
+	 */
+	private animateStandalone(
+		element: Element,
+		config: AnimationConfig,
+		properties: AnimationProperties,
+		fromProperties?: AnimationProperties,
+	): void {
+		this.runTracked( element, () => this.executeAnimationByTrigger( element, config, properties, fromProperties ), config.id );
+	}
+
+	/**
+	 * Run an animation setup and remember it so it can be rebuilt on new targets
+	 *
+	 * Tweens created by the setup are tagged with the animation ID so the
+	 * public API can find them.
+	 *
+	 * @param {Element}  element     - The DOM element
+	 * @param {Function} setup       - Creates the tweens and listeners
+	 * @param {string}   animationId - The ID of the animation being set up
+	 */
+	private runTracked( element: Element, setup: () => void, animationId?: string ): void {
+		const previousId = this.currentAnimationId;
+
+		this.getTrackedAnimation( element ).rebuilds.push( { setup, animationId } );
+		this.currentAnimationId = animationId;
+
+		try {
+			setup();
+		} finally {
+			this.currentAnimationId = previousId;
+		}
+	}
+
+	/**
+	 * Hand the element to the timeline registry if it creates or joins a timeline
+	 * @param {Element}             element        - The DOM element
+	 * @param {AnimationConfig}     config         - The animation configuration
+	 * @param {AnimationProperties} properties     - The animation properties
+	 * @param {AnimationProperties} fromProperties - The 'from' properties for fromTo animations
+	 */
+	private registerTimelineMember(
+		element: Element,
+		config: AnimationConfig,
+		properties: AnimationProperties,
+		fromProperties: AnimationProperties,
+	): boolean {
+		return this.timelineRegistry.register( {
+			element,
+			config,
+			target: this.resolveTarget( element, config ),
+			vars: properties,
+			fromVars: fromProperties,
+		} );
+	}
+
+	/**
+	 * Apply the end state of a skipped animation without animating
+	 * @param {Element}             element    - The DOM element
+	 * @param {AnimationConfig}     config     - The animation configuration
+	 * @param {AnimationProperties} properties - The animation properties
+	 */
+	private jumpToEndState( element: Element, config: AnimationConfig, properties: AnimationProperties ): void {
+		const endState = this.reducedMotion.getEndState( config, properties );
+
+		if ( endState && this.hasAnimationProperties( endState ) ) {
+			this.runTracked( element, () => {
+				this.trackTween( element, window.gsap.set( this.resolveTarget( element, config ), endState ) );
+			}, config.id );
 		}
 	}
 
@@ -153,7 +713,7 @@ export class FrontendAnimationController {
 		const properties: AnimationProperties = {
 			duration: config.timing.duration || 0.5,
 			delay: config.timing.delay || 0,
-			ease: config.timing.ease || 'power1.out',
+			ease: resolveEase( config.timing ),
 		};
 
 		// Add timing properties
@@ -164,33 +724,15 @@ export class FrontendAnimationController {
 			properties.yoyo = config.timing.yoyo;
 		}
 
-		// Add transform properties
-		const animProps = config.properties;
-		if ( animProps ) {
-			if ( animProps.x !== undefined && animProps.x !== '' ) {
-				properties.x = animProps.x;
-			}
-			if ( animProps.y !== undefined && animProps.y !== '' ) {
-				properties.y = animProps.y;
-			}
-			if ( animProps.rotation !== undefined ) {
-				const rotationValue = String( animProps.rotation );
-				if ( rotationValue !== '' && rotationValue !== '0' ) {
-					properties.rotation = animProps.rotation;
-				}
-			}
-			if ( animProps.scale !== undefined ) {
-				const scaleValue = String( animProps.scale );
-				if ( scaleValue !== '' && scaleValue !== '1' ) {
-					properties.scale = animProps.scale;
-				}
-			}
-			if ( animProps.opacity !== undefined ) {
-				properties.opacity = animProps.opacity;
-			}
+		const stagger = buildStaggerVars( config );
+		if ( stagger ) {
+			properties.stagger = stagger;
 		}
 
-		return properties;
+		return {
+			...properties,
+			...buildAnimationVars( config.properties ),
+		};
 	}
 
 	/**
@@ -198,29 +740,41 @@ export class FrontendAnimationController {
 	 * @param {AnimationProperties} properties - The animation properties
 	 */
 	private hasAnimationProperties( properties: AnimationProperties ): boolean {
-		const animationKeys = [ 'x', 'y', 'rotation', 'scale', 'opacity' ];
-		return animationKeys.some( ( key ) => properties[ key ] !== undefined );
+		return hasAnimationProperties( properties );
 	}
 
 	/**
 	 * Execute animation based on trigger type
-	 * @param {Element}             element    - The DOM element
-	 * @param {AnimationConfig}     config     - The animation configuration
-	 * @param {AnimationProperties} properties - The animation properties
+	 * @param {Element}             element        - The DOM element
+	 * @param {AnimationConfig}     config         - The animation configuration
+	 * @param {AnimationProperties} properties     - The animation properties
+	 * @param {AnimationProperties} fromProperties - The 'from' properties for fromTo animations
 	 */
-	private executeAnimationByTrigger( element: Element, config: AnimationConfig, properties: AnimationProperties ): void {
+	private executeAnimationByTrigger(
+		element: Element,
+		config: AnimationConfig,
+		properties: AnimationProperties,
+		fromProperties: AnimationProperties = this.getFromProperties( config ),
+	): void {
 		switch ( config.trigger ) {
 			case 'pageload':
-				this.createPageLoadAnimation( element, config, properties );
+				this.createPageLoadAnimation( element, config, properties, fromProperties );
 				break;
 			case 'scroll':
-				this.createScrollAnimation( element, config, properties );
+				this.createScrollAnimation( element, config, properties, fromProperties );
 				break;
 			case 'click':
-				this.createClickAnimation( element, config, properties );
+				this.createClickAnimation( element, config, properties, fromProperties );
 				break;
 			case 'hover':
-				this.createHoverAnimation( element, config, properties );
+				this.createHoverAnimation( element, config, properties, fromProperties );
+				break;
+			case 'exit':
+			case 'focus':
+			case 'event':
+			case 'idle':
+			case 'hash':
+				this.createWatchedAnimation( element, config, properties, fromProperties );
 				break;
 			default:
                 // Unknown trigger type - silently ignored
@@ -229,26 +783,32 @@ export class FrontendAnimationController {
 
 	/**
 	 * Create page load animation
-	 * @param {Element}             element    - The DOM element
-	 * @param {AnimationConfig}     config     - The animation configuration
-	 * @param {AnimationProperties} properties - The animation properties
+	 * @param {Element}             element        - The DOM element
+	 * @param {AnimationConfig}     config         - The animation configuration
+	 * @param {AnimationProperties} properties     - The animation properties
+	 * @param {AnimationProperties} fromProperties - The 'from' properties for fromTo animations
 	 */
-	private createPageLoadAnimation( element: Element, config: AnimationConfig, properties: AnimationProperties ): void {
+	private createPageLoadAnimation(
+		element: Element,
+		config: AnimationConfig,
+		properties: AnimationProperties,
+		fromProperties: AnimationProperties,
+	): void {
 		const gsap = window.gsap;
+		const target = this.resolveTarget( element, config );
 
 		switch ( config.type ) {
 			case 'to':
-				gsap.to( element, properties );
+				this.trackTween( element, gsap.to( target, properties ) );
 				break;
 			case 'from':
-				gsap.from( element, properties );
+				this.trackTween( element, gsap.from( target, properties ) );
 				break;
 			case 'fromTo':
-				const fromProps = this.getFromProperties();
-				gsap.fromTo( element, fromProps, properties );
+				this.trackTween( element, gsap.fromTo( target, fromProperties, properties ) );
 				break;
 			case 'set':
-				gsap.set( element, properties );
+				this.trackTween( element, gsap.set( target, properties ) );
 				break;
 			default:
 		}
@@ -256,36 +816,41 @@ export class FrontendAnimationController {
 
 	/**
 	 * Create scroll-triggered animation
-	 * @param {Element}             element    - The DOM element
-	 * @param {AnimationConfig}     config     - The animation configuration
-	 * @param {AnimationProperties} properties - The animation properties
+	 * @param {Element}             element        - The DOM element
+	 * @param {AnimationConfig}     config         - The animation configuration
+	 * @param {AnimationProperties} properties     - The animation properties
+	 * @param {AnimationProperties} fromProperties - The 'from' properties for fromTo animations
 	 */
-	private createScrollAnimation( element: Element, config: AnimationConfig, properties: AnimationProperties ): void {
+	private createScrollAnimation(
+		element: Element,
+		config: AnimationConfig,
+		properties: AnimationProperties,
+		fromProperties: AnimationProperties,
+	): void {
 		if ( 'undefined' === typeof window.ScrollTrigger ) {
 			// ScrollTrigger not available, fallback to page load
-			this.createPageLoadAnimation( element, config, properties );
+			this.createPageLoadAnimation( element, config, properties, fromProperties );
 			return;
 		}
 
 		const gsap = window.gsap;
+		const target = this.resolveTarget( element, config );
 		gsap.registerPlugin( window.ScrollTrigger );
 
 		const scrollProperties = {
 			...properties,
-			scrollTrigger: {
-				trigger: element,
-				start: 'top 80%',
-				end: 'bottom 20%',
-				toggleActions: 'play none none reverse',
-			},
+			scrollTrigger: buildScrollTriggerVars( element, config ),
 		};
 
 		switch ( config.type ) {
 			case 'to':
-				gsap.to( element, scrollProperties );
+				this.trackTween( element, gsap.to( target, scrollProperties ) );
 				break;
 			case 'from':
-				gsap.from( element, scrollProperties );
+				this.trackTween( element, gsap.from( target, scrollProperties ) );
+				break;
+			case 'fromTo':
+				this.trackTween( element, gsap.fromTo( target, fromProperties, scrollProperties ) );
 				break;
 			default:
                 // Animation type not supported for scroll trigger - silently ignored
@@ -294,163 +859,375 @@ export class FrontendAnimationController {
 
 	/**
 	 * Create click-triggered animation
-	 * @param {Element}             element    - The DOM element
-	 * @param {AnimationConfig}     config     - The animation configuration
-	 * @param {AnimationProperties} properties - The animation properties
+	 *
+	 * Clicks on the source block, which is this block unless another one
+	 * was picked, drive a paused timeline according to the click mode.
+	 * 'from' tweens wait for the first click so the block rests in its
+	 * natural state.
+	 *
+	 * @param {Element}             element        - The DOM element
+	 * @param {AnimationConfig}     config         - The animation configuration
+	 * @param {AnimationProperties} properties     - The animation properties
+	 * @param {AnimationProperties} fromProperties - The 'from' properties for fromTo animations
 	 */
-	private createClickAnimation( element: Element, config: AnimationConfig, properties: AnimationProperties ): void {
-		const gsap = window.gsap;
+	private createClickAnimation(
+		element: Element,
+		config: AnimationConfig,
+		properties: AnimationProperties,
+		fromProperties: AnimationProperties,
+	): void {
+		const source = resolveClickSource( element, config );
 
-		( element as HTMLElement ).style.cursor = 'pointer';
-
-		element.addEventListener( 'click', () => {
-			switch ( config.type ) {
-				case 'to':
-					gsap.to( element, properties );
-					break;
-				case 'from':
-					gsap.from( element, properties );
-					break;
-				default:
-                    // Animation type not supported for click trigger - silently ignored
-			}
+		if ( ! source ) {
+			// The source block is not on this page
+			return;
+		}
+
+		const target = this.resolveTarget( element, config );
+		const timeline = window.gsap.timeline( { paused: true } ) as GSAPTimeline;
+		const isStepMode = 'step' === getClickConfig( config ).mode;
+		const steps = isStepMode ? this.toTargetList( target ) : [ target ];
+		const stepProperties: AnimationProperties = { ...properties, immediateRender: false };
+
+		if ( isStepMode ) {
+			// Each step animates a single element, one after another
+			delete stepProperties.stagger;
+		}
+
+		steps.forEach( ( step ) => {
+			this.addTimelineTween( timeline, step, config, stepProperties, fromProperties );
 		} );
+
+		const interaction = new ClickInteraction( timeline, config, steps.length );
+
+		( source as HTMLElement ).style.cursor = 'pointer';
+
+		this.trackTween( element, timeline );
+		this.getTrackedAnimation( element ).cleanup.push( () => interaction.destroy() );
+		this.addTrackedListener( element, 'click', () => interaction.click(), source );
 	}
 
 	/**
 	 * Create hover-triggered animation
-	 * @param {Element}             element    - The DOM element
-	 * @param {AnimationConfig}     config     - The animation configuration
-	 * @param {AnimationProperties} properties - The animation properties
+	 *
+	 * Each element gets one paused timeline that plays forward on enter
+	 * and applies the configured leave behaviour on leave. A 'from'
+	 * timeline renders its start values right away, so the element rests
+	 * in the 'from' state and reaches its natural state while hovered.
+	 *
+	 * @param {Element}             element        - The DOM element
+	 * @param {AnimationConfig}     config         - The animation configuration
+	 * @param {AnimationProperties} properties     - The animation properties
+	 * @param {AnimationProperties} fromProperties - The 'from' properties for fromTo animations
 	 */
-	private createHoverAnimation( element: Element, config: AnimationConfig, properties: AnimationProperties ): void {
-		const gsap = window.gsap;
+	private createHoverAnimation(
+		element: Element,
+		config: AnimationConfig,
+		properties: AnimationProperties,
+		fromProperties: AnimationProperties,
+	): void {
+		const target = this.resolveTarget( element, config );
+		const timeline = window.gsap.timeline( { paused: true } ) as GSAPTimeline;
 
-		element.addEventListener( 'mouseenter', () => {
-			gsap.to( element, properties );
-		} );
+		this.addTimelineTween( timeline, target, { ...config, type: 'set' === config.type ? 'to' : config.type }, properties, fromProperties );
 
-		element.addEventListener( 'mouseleave', () => {
-			gsap.to( element, {
-				x: 0,
-				y: 0,
-				rotation: 0,
-				scale: 1,
-				opacity: 1,
-				duration: properties.duration,
-				ease: properties.ease,
-			} );
-		} );
+		const interaction = new HoverInteraction( timeline, target, config );
+
+		this.trackTween( element, timeline );
+		this.getTrackedAnimation( element ).cleanup.push( () => interaction.destroy() );
+		this.addTrackedListener( element, 'mouseenter', () => interaction.enter() );
+		this.addTrackedListener( element, 'mouseleave', () => interaction.leave() );
 	}
 
 	/**
-	 * Get default 'from' properties for fromTo animations
+	 * Create an animation started by a watched trigger
+	 *
+	 * Covers the viewport exit, focus, custom event, idle and URL hash
+	 * triggers. 'from' tweens wait for the trigger so the block rests in
+	 * its natural state.
+	 *
+	 * @param {Element}             element        - The DOM element
+	 * @param {AnimationConfig}     config         - The animation configuration
+	 * @param {AnimationProperties} properties     - The animation properties
+	 * @param {AnimationProperties} fromProperties - The 'from' properties for fromTo animations
 	 */
-	private getFromProperties(): AnimationProperties {
-		return {
-			x: 0,
-			y: 0,
-			rotation: 0,
-			scale: 1,
-			opacity: 1,
-		};
+	private createWatchedAnimation(
+		element: Element,
+		config: AnimationConfig,
+		properties: AnimationProperties,
+		fromProperties: AnimationProperties,
+	): void {
+		const target = this.resolveTarget( element, config );
+		const timeline = window.gsap.timeline( { paused: true } ) as GSAPTimeline;
+
+		this.addTimelineTween( timeline, target, config, { ...properties, immediateRender: false }, fromProperties );
+
+		const watcher = new TriggerWatcher( element, timeline, config );
+
+		this.trackTween( element, timeline );
+		this.getTrackedAnimation( element ).cleanup.push( () => watcher.destroy() );
 	}
 
 	/**
-	 * Initialize intersection observer for scroll animations
+	 * Add the tween of an animation type to a timeline
+	 * @param {GSAPTimeline}        timeline       - The timeline
+	 * @param {GSAPTarget}          target         - The tween target
+	 * @param {AnimationConfig}     config         - The animation configuration
+	 * @param {AnimationProperties} properties     - The animation properties
+	 * @param {AnimationProperties} fromProperties - The 'from' properties for fromTo animations
 	 */
-	private initializeIntersectionObserver(): void {
-		if ( ! this.hasScrollTriggeredElements() ) {
-			return;
+	private addTimelineTween(
+		timeline: GSAPTimeline,
+		target: GSAPTarget,
+		config: AnimationConfig,
+		properties: AnimationProperties,
+		fromProperties: AnimationProperties,
+	): void {
+		switch ( config.type ) {
+			case 'from':
+				timeline.from( target, properties );
+				break;
+			case 'fromTo':
+				timeline.fromTo( target, fromProperties, properties );
+				break;
+			case 'set':
+				timeline.set( target, properties );
+				break;
+			default:
+				timeline.to( target, properties );
 		}
+	}
 
-		this.observer = new IntersectionObserver(
-			this.handleIntersectionChanges.bind( this ),
-			this.getIntersectionObserverOptions(),
-		);
+	/**
+	 * Remember a tween so it can be reverted when the controller reinitializes,
+	 * and report its lifecycle events on the element
+	 * @param {Element} element - The DOM element
+	 * @param {unknown} tween   - The tween returned by GSAP
+	 */
+	private trackTween( element: Element, tween: unknown ): void {
+		const tracked = this.getTrackedAnimation( element );
+		const gsapTween = tween as GSAPTween;
+
+		tracked.tweens.push( gsapTween );
+
+		if ( this.currentAnimationId ) {
+			tracked.animationIds.set( gsapTween, this.currentAnimationId );
+		}
 
-		this.observeScrollElements();
+		bindLifecycleEvents( gsapTween, element, { animationId: this.currentAnimationId } );
 	}
 
 	/**
-	 * Check if there are scroll-triggered elements
+	 * Add an event listener that is removed when the controller reinitializes
+	 * @param {Element}  element  - The DOM element
+	 * @param {string}   type     - The event type
+	 * @param {Function} listener - The event listener
+	 * @param {Element}  source   - The element to listen on, when it is not the animated element
 	 */
-	private hasScrollTriggeredElements(): boolean {
-		return document.querySelector( '[data-gsap-trigger="scroll"]' ) !== null;
+	private addTrackedListener( element: Element, type: string, listener: () => void, source: Element = element ): void {
+		source.addEventListener( type, listener );
+		this.getTrackedAnimation( element ).cleanup.push( () => source.removeEventListener( type, listener ) );
 	}
 
 	/**
-	 * Get intersection observer options
+	 * List the elements of a tween target
+	 * @param {GSAPTarget} target - The tween target
 	 */
-	private getIntersectionObserverOptions(): IntersectionObserverInit {
-		return {
-			root: null,
-			rootMargin: '0px',
-			threshold: 0.1,
-		};
+	private toTargetList( target: GSAPTarget ): Element[] {
+		return target instanceof Element ? [ target ] : Array.from( target );
 	}
 
 	/**
-	 * Observe scroll elements
+	 * Get or create the tracking record for an element
+	 * @param {Element} element - The DOM element
 	 */
-	private observeScrollElements(): void {
-		const scrollElements = document.querySelectorAll( '[data-gsap-trigger="scroll"]' );
+	private getTrackedAnimation( element: Element ): TrackedAnimation {
+		let tracked = this.trackedAnimations.get( element );
 
-		scrollElements.forEach( ( element: Element ) => {
-			if ( this.observer ) {
-				this.observer.observe( element );
-			}
-		} );
+		if ( ! tracked ) {
+			tracked = { tweens: [], animationIds: new Map(), cleanup: [], rebuilds: [] };
+			this.trackedAnimations.set( element, tracked );
+		}
+
+		return tracked;
 	}
 
 	/**
-	 * Handle intersection observer changes
-	 * @param {IntersectionObserverEntry[]} entries - The intersection observer entries
+	 * Revert the tracked tweens of an element and remove its listeners
+	 * @param {Element} element - The DOM element
 	 */
-	private handleIntersectionChanges( entries: IntersectionObserverEntry[] ): void {
-		entries.forEach( ( entry: IntersectionObserverEntry ) => {
-			if ( entry.isIntersecting ) {
-				this.triggerScrollAnimation( entry.target );
-			}
-		} );
+	private destroyTrackedAnimation( element: Element ): void {
+		const tracked = this.trackedAnimations.get( element );
+
+		if ( tracked ) {
+			tracked.cleanup.forEach( ( cleanup ) => cleanup() );
+			tracked.tweens.forEach( ( tween ) => {
+				// Revert the trigger first so a pinned block leaves its pin spacer
+				tween.scrollTrigger?.kill( true );
+				tween.revert();
+			} );
+			this.trackedAnimations.delete( element );
+		}
 	}
 
 	/**
-	 * Trigger scroll animation for element
-	 * @param {Element} element - The DOM element
+	 * Revert all tracked tweens and remove their listeners
+	 */
+	private destroyTrackedAnimations(): void {
+		Array.from( this.trackedAnimations.keys() ).forEach( ( element ) => this.destroyTrackedAnimation( element ) );
+	}
+
+	/**
+	 * Restore the original text of all split elements
+	 */
+	private destroyTextSplitters(): void {
+		this.textSplitters.forEach( ( splitters ) => splitters.forEach( ( splitter ) => splitter.revert() ) );
+		this.textSplitters.clear();
+	}
+
+	/**
+	 * Get 'from' properties for fromTo animations
+	 * @param {AnimationConfig} config - The animation configuration
+	 */
+	private getFromProperties( config: AnimationConfig ): AnimationProperties {
+		return buildFromVars( config );
+	}
+
+	/**
+	 * Create the loader that builds animations as blocks approach the viewport
+	 *
+	 * In performance mode, scroll animations far from the viewport are
+	 * released and rebuilt when their block comes back.
+	 */
+	private createLazyLoader(): LazyLoader {
+		const settings = window.gsapBlockAnimatorSettings;
+
+		return new LazyLoader( settings?.lazyMargin ?? DEFAULT_LAZY_MARGIN, !! settings?.performanceMode );
+	}
+
+	/**
+	 * List the animations the playback manager and the public API control
+	 * @param {Element} element - The block element, or all blocks when omitted
 	 */
-	private triggerScrollAnimation( element: Element ): void {
-		const blockId = this.extractBlockId( element );
-		if ( blockId ) {
-			// Handle scroll animation trigger
-			// Animation implementation here
+	private getPlaybackAnimations( element?: Element ): Array<GSAPTween | GSAPTimeline> {
+		const tracked = element ? [ this.trackedAnimations.get( element ) ] : Array.from( this.trackedAnimations.values() );
+
+		return [
+			...tracked.flatMap( ( animation ) => animation?.tweens || [] ),
+			...this.timelineRegistry.getTimelines( element ),
+		];
+	}
+
+	/**
+	 * Find the animations of a block, animation or timeline for the public API
+	 *
+	 * Blocks match by their rendered block ID, block reference or HTML
+	 * anchor. Blocks still waiting for the viewport are built first.
+	 *
+	 * @param {string} id - The block, animation or timeline ID
+	 */
+	public getAnimations( id: string ): AnimationLookup | null {
+		const timeline = this.timelineRegistry.getTimeline( id );
+
+		if ( timeline ) {
+			return { element: this.timelineRegistry.getOwnerElement( id ) || null, animations: [ timeline ] };
+		}
+
+		const blocks = Array.from( this.loadedElements.keys() );
+		const block = blocks.find( ( element ) => {
+			return id === element.getAttribute( 'data-gsap-block-id' ) ||
+				id === element.getAttribute( 'data-gsap-ref' ) ||
+				id === element.id;
+		} );
+
+		if ( block ) {
+			this.lazyLoader?.load( block );
+			return { element: block, animations: this.getPlaybackAnimations( block ) };
 		}
+
+		const owner = blocks.find( ( element ) => this.loadedElements.get( element )?.some( ( config ) => id === config.id ) );
+
+		if ( ! owner ) {
+			return null;
+		}
+
+		this.lazyLoader?.load( owner );
+
+		return { element: owner, animations: this.getConfigAnimations( owner, id ) };
 	}
 
 	/**
-	 * Extract block ID from element
-	 * @param {Element} element - The DOM element
+	 * Get the tweens and timelines built for one animation of a block
+	 * @param {Element} element     - The block element
+	 * @param {string}  animationId - The animation ID
 	 */
-	private extractBlockId( element: Element ): string | null {
-		return element.getAttribute( 'data-gsap-block-id' ) ||
-               element.getAttribute( 'data-block' ) ||
-               null;
+	private getConfigAnimations( element: Element, animationId: string ): Array<GSAPTween | GSAPTimeline> {
+		const tracked = this.trackedAnimations.get( element );
+		const tweens = tracked ? tracked.tweens.filter( ( tween ) => animationId === tracked.animationIds.get( tween ) ) : [];
+
+		return [ ...tweens, ...this.timelineRegistry.getMemberTimelines( animationId ) ];
+	}
+
+	/**
+	 * Describe every loaded block for the debug overlay
+	 *
+	 * Blocks still waiting for the viewport are listed as pending without
+	 * being built.
+	 */
+	public getDebugInfo(): DebugBlockInfo[] {
+		return Array.from( this.loadedElements.entries() ).map( ( [ element, configs ] ) => ( {
+			element,
+			blockId: element.getAttribute( 'data-gsap-block-id' ),
+			animations: configs.map( ( config ) => DebugOverlay.describe(
+				config,
+				config.id ? this.getConfigAnimations( element, config.id ) : this.getPlaybackAnimations( element ),
+			) ),
+			errors: debugLog.getEntries( element ),
+		} ) );
+	}
+
+	/**
+	 * Pause every running animation, e.g. while the tab is hidden
+	 */
+	public pause(): void {
+		this.playback.pauseAll();
+	}
+
+	/**
+	 * Resume the animations paused by pause() from where they stopped
+	 */
+	public resume(): void {
+		this.playback.resumeAll();
 	}
 
 	/**
 	 * Cleanup before unload
 	 */
 	private cleanupBeforeUnload(): void {
-		this.destroyIntersectionObserver();
+		this.playback.clear();
+		this.breakpointWatcher.clear();
+		this.destroyMutationWatcher();
+		this.destroyLazyLoader();
+		this.timelineRegistry.destroyAll();
+	}
+
+	/**
+	 * Stop animating blocks as they are added to the page
+	 */
+	private destroyMutationWatcher(): void {
+		if ( this.mutationWatcher ) {
+			this.mutationWatcher.destroy();
+			this.mutationWatcher = null;
+		}
 	}
 
 	/**
-	 * Destroy intersection observer
+	 * Stop watching blocks that have not been built yet
 	 */
-	private destroyIntersectionObserver(): void {
-		if ( this.observer ) {
-			this.observer.disconnect();
-			this.observer = null;
+	private destroyLazyLoader(): void {
+		if ( this.lazyLoader ) {
+			this.lazyLoader.destroy();
+			this.lazyLoader = null;
 		}
 	}
 
@@ -458,7 +1235,15 @@ export class FrontendAnimationController {
 	 * Reinitialize the controller
 	 */
 	public reinitialize(): void {
-		this.destroyIntersectionObserver();
+		this.playback.clear();
+		this.breakpointWatcher.clear();
+		this.destroyMutationWatcher();
+		this.destroyLazyLoader();
+		this.loadedElements.clear();
+		this.destroyTrackedAnimations();
+		this.timelineRegistry.destroyAll();
+		this.destroyTextSplitters();
+		debugLog.clear();
 		this.initialized = false;
 		this.initializeOnDOMReady();
 	}
@@ -474,15 +1259,18 @@ export class FrontendAnimationController {
 /**
  * Initialize and expose the controller
  */
-function initializeFrontendController(): void {
-	const controller = new FrontendAnimationController();
+let frontendController: FrontendAnimationController | null = null;
 
-	// Expose globally for debugging and external access
-	if ( typeof window !== 'undefined' ) {
-		window.GSAPBlockAnimator = {
-			controller,
-		};
+/**
+ * Initialize the controller once and expose the public API
+ */
+function initializeFrontendController(): FrontendAnimationController {
+	if ( ! frontendController ) {
+		frontendController = new FrontendAnimationController();
+		window.GSAPBlockAnimator = new AnimationApi( frontendController );
 	}
+
+	return frontendController;
 }
 
 // Auto-initialize if we're in a browser environment
@@ -1,13 +1,23 @@
 import { AnimationService } from './services/animation-service';
+import { AnimationApi } from './services/animation-api';
 import type { AnimationConfig } from './types/animation';
-
-class FrontendController {
+import type { AnimationLookup, AnimationSource } from './types/api';
+import { normalizeAnimationData } from './utils/block-animations';
+import { validateAnimationConfig } from './utils/config-validator';
+import { DEFAULT_LAZY_MARGIN, LazyLoader } from './services/lazy-loader';
+import { debugLog } from './services/debug-log';
+import { BreakpointWatcher } from './services/breakpoint-watcher';
+import { getBreakpointQueries, resolveBreakpoints } from './utils/breakpoints';
+
+class FrontendController implements AnimationSource {
 	private animationService: AnimationService;
-	private observer: IntersectionObserver | null = null;
+	private lazyLoader: LazyLoader | null = null;
 	private initialized = false;
+	private breakpointWatcher: BreakpointWatcher;
 
 	constructor() {
 		this.animationService = new AnimationService();
+		this.breakpointWatcher = new BreakpointWatcher( () => this.reinitialize() );
 		this.bindEvents();
 	}
 
@@ -19,6 +29,7 @@ class FrontendController {
 		}
 
 		window.addEventListener( 'beforeunload', this.cleanupBeforeUnload.bind( this ) );
+		this.animationService.onReducedMotionChange( () => this.reinitialize() );
 	}
 
 	private initializeOnDOMReady(): void {
@@ -27,124 +38,101 @@ class FrontendController {
 		}
 
 		this.initialized = true;
+		this.lazyLoader = this.createLazyLoader();
 		this.initializeAnimations();
-		this.initializeIntersectionObserver();
 	}
 
 	private initializeAnimations(): void {
 		const animatedElements = this.findAnimatedElements();
 
 		animatedElements.forEach( ( element ) => {
-			this.processAnimatedElement( element );
+			this.loadAnimatedElement( element );
 		} );
+
+		this.animationService.buildTimelines();
 	}
 
 	private findAnimatedElements(): NodeListOf<Element> {
 		return document.querySelectorAll( '[data-gsap-animation]' );
 	}
 
-	private processAnimatedElement( element: Element ): void {
-		const config = this.extractAnimationConfig( element );
+	private loadAnimatedElement( element: Element ): void {
+		const storedConfigs = this.extractAnimationConfigs( element );
+
+		this.breakpointWatcher.watch( element, storedConfigs.flatMap( getBreakpointQueries ) );
 
-		if ( ! this.isValidConfig( config ) ) {
+		const configs = storedConfigs
+			.map( ( config ) => this.validateConfig( element, resolveBreakpoints( config, this.breakpointWatcher.matches ) ) )
+			.filter( ( config ): config is AnimationConfig => null !== config );
+
+		if ( ! this.lazyLoader || 0 === configs.length || ! configs.every( LazyLoader.isLazyConfig ) ) {
+			this.processAnimatedElement( element, configs );
 			return;
 		}
 
-		this.createAnimation( element, config );
+		this.lazyLoader.observe(
+			element,
+			() => this.processAnimatedElement( element, configs ),
+			configs.every( LazyLoader.isReleasableConfig ) ? () => this.animationService.releaseAnimation( element ) : undefined,
+		);
+	}
+
+	private processAnimatedElement( element: Element, configs: AnimationConfig[] ): void {
+		configs.forEach( ( config ) => this.createAnimation( element, config ) );
 	}
 
-	private extractAnimationConfig( element: Element ): AnimationConfig | null {
+	private extractAnimationConfigs( element: Element ): AnimationConfig[] {
 		const configData = element.getAttribute( 'data-gsap-animation' );
 
 		if ( ! configData ) {
-			return null;
+			return [];
 		}
 
 		try {
-			return JSON.parse( configData ) as AnimationConfig;
-		} catch {
-			return null;
-		}
-	}
-
-	private isValidConfig( config: AnimationConfig | null ): config is AnimationConfig {
-		return config !== null &&
-			config.enabled &&
-			'string' === typeof config.type &&
-			'string' === typeof config.trigger;
-	}
-
-	private createAnimation( element: Element, config: AnimationConfig ): void {
-		try {
-			this.animationService.createProductionAnimation( element, config );
+			return normalizeAnimationData( JSON.parse( configData ) );
 		} catch ( error ) {
-			// Silent error handling for production
+			debugLog.report( 'parse', error, element );
+			return [];
 		}
 	}
 
-	private initializeIntersectionObserver(): void {
-		if ( this.hasScrollTriggeredElements() ) {
-			this.observer = new IntersectionObserver(
-				this.handleIntersectionChanges.bind( this ),
-				this.getIntersectionObserverOptions(),
-			);
+	private validateConfig( element: Element, config: AnimationConfig ): AnimationConfig | null {
+		const result = validateAnimationConfig( config );
 
-			this.observeScrollElements();
+		if ( ! result.config?.enabled ) {
+			return null;
 		}
-	}
-
-	private hasScrollTriggeredElements(): boolean {
-		return document.querySelector( '[data-gsap-trigger="scroll"]' ) !== null;
-	}
-
-	private getIntersectionObserverOptions(): IntersectionObserverInit {
-		return {
-			root: null,
-			rootMargin: '0px',
-			threshold: 0.1,
-		};
-	}
 
-	private observeScrollElements(): void {
-		const scrollElements = document.querySelectorAll( '[data-gsap-trigger="scroll"]' );
-
-		scrollElements.forEach( ( element ) => {
-			if ( this.observer ) {
-				this.observer.observe( element );
-			}
-		} );
-	}
+		result.errors.forEach( ( error ) => debugLog.report( 'validate', `${ error.field }: ${ error.message }`, element ) );
+		result.warnings.forEach( ( warning ) => debugLog.report( 'validate', `${ warning.field }: ${ warning.message }`, element, 'warning' ) );
 
-	private handleIntersectionChanges( entries: IntersectionObserverEntry[] ): void {
-		entries.forEach( ( entry ) => {
-			if ( entry.isIntersecting ) {
-				this.triggerScrollAnimation( entry.target );
-			}
-		} );
+		return result.isValid ? result.config : null;
 	}
 
-	private triggerScrollAnimation( element: Element ): void {
-		const blockId = this.extractBlockId( element );
-
-		if ( blockId ) {
-			this.animationService.stopPreview( blockId );
+	private createAnimation( element: Element, config: AnimationConfig ): void {
+		try {
+			this.animationService.createProductionAnimation( element, config );
+		} catch ( error ) {
+			debugLog.report( 'create', error, element );
 		}
 	}
 
-	private extractBlockId( element: Element ): string | null {
-		return element.getAttribute( 'data-gsap-block-id' ) ||
-			element.getAttribute( 'data-block' );
+	private createLazyLoader(): LazyLoader {
+		const settings = window.gsapBlockAnimatorSettings;
+
+		return new LazyLoader( settings?.lazyMargin ?? DEFAULT_LAZY_MARGIN, !! settings?.performanceMode );
 	}
 
 	private cleanupBeforeUnload(): void {
-		this.destroyIntersectionObserver();
+		this.breakpointWatcher.clear();
+		this.destroyLazyLoader();
 		this.destroyAllAnimations();
 	}
 
-	private destroyIntersectionObserver(): void {
-		if ( this.observer ) {
-			this.observer.disconnect();
-			this.observer = null;
+	private destroyLazyLoader(): void {
+		if ( this.lazyLoader ) {
+			this.lazyLoader.destroy();
+			this.lazyLoader = null;
 		}
 	}
 
@@ -153,12 +141,25 @@ class FrontendController {
 	}
 
 	public reinitialize(): void {
-		this.destroyIntersectionObserver();
+		this.breakpointWatcher.clear();
+		this.destroyLazyLoader();
 		this.destroyAllAnimations();
 		this.initialized = false;
 		this.initializeOnDOMReady();
 	}
 
+	public getAnimations( id: string ): AnimationLookup | null {
+		return this.animationService.getAnimations( id );
+	}
+
+	public pause(): void {
+		this.animationService.pauseAll();
+	}
+
+	public resume(): void {
+		this.animationService.resumeAll();
+	}
+
 	public getAnimationService(): AnimationService {
 		return this.animationService;
 	}
@@ -166,12 +167,9 @@ class FrontendController {
 
 const frontendController = new FrontendController();
 
-if ( typeof window !== 'undefined' ) {
-	// eslint-disable-next-line @typescript-eslint/no-explicit-any
-	( window as any ).GSAPBlockAnimator = {
-		controller: frontendController,
-		AnimationService,
-	};
+// The frontend bundle's API takes precedence when both controllers load
+if ( typeof window !== 'undefined' && ! window.GSAPBlockAnimator ) {
+	window.GSAPBlockAnimator = new AnimationApi( frontendController );
 }
 
 export { frontendController as default, FrontendController, AnimationService };
@@ -6,16 +6,22 @@
  */
 
 import { initializeFrontendController } from './frontend-animation-controller';
+import type { ReducedMotionPolicy } from './types/animation';
 // Global types are included automatically via tsconfig.json
 
 interface FrontendSettings {
 	performanceMode: boolean;
 	debugMode: boolean;
+	lazyMargin?: number;
+	pauseOffscreen?: boolean;
+	observeMutations?: boolean;
+	reducedMotionPolicy?: ReducedMotionPolicy;
 }
 
 class FrontendInitializer {
 	private settings: FrontendSettings;
 	private resizeTimeout: number = 0;
+	private eventsBound: boolean = false;
 
 	constructor() {
 		this.settings = this.getWordPressSettings();
@@ -29,9 +35,12 @@ class FrontendInitializer {
 
 		this.registerScrollTriggerIfAvailable();
 		this.exposeControllerGlobally();
-		this.handleReducedMotionPreference();
-		this.bindVisibilityChangeEvents();
-		this.bindResizeEventsWithThrottling();
+
+		if ( ! this.eventsBound ) {
+			this.eventsBound = true;
+			this.bindVisibilityChangeEvents();
+			this.bindResizeEventsWithThrottling();
+		}
 	}
 
 	private checkGSAPAvailability(): boolean {
@@ -48,6 +57,7 @@ class FrontendInitializer {
 		return window.gsapBlockAnimatorSettings || {
 			performanceMode: false,
 			debugMode: false,
+			reducedMotionPolicy: 'skip',
 		};
 	}
 
@@ -56,16 +66,12 @@ class FrontendInitializer {
 		initializeFrontendController();
 	}
 
-	private handleReducedMotionPreference(): void {
-		// Handle reduced motion preference - implemented in animation controller
-	}
-
 	private bindVisibilityChangeEvents(): void {
 		document.addEventListener( 'visibilitychange', () => {
 			if ( document.hidden ) {
-				window.GSAPBlockAnimator?.controller?.getAnimationService?.()?.destroyAll?.();
+				window.GSAPBlockAnimator?.pauseAll();
 			} else {
-				window.GSAPBlockAnimator?.controller?.reinitialize?.();
+				window.GSAPBlockAnimator?.resumeAll();
 			}
 		} );
 	}
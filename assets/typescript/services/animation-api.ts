@@ -0,0 +1,164 @@
+/**
+ * Public JavaScript API
+ *
+ * Exposed once as `window.GSAPBlockAnimator`. Animations are addressed by
+ * block ID, animation ID or timeline ID. The block ID is the block's saved
+ * reference (`data-gsap-ref`), or its HTML anchor, and stays the same
+ * across page loads. Handles look their animations up again on every
+ * call, so they keep working after tweens are rebuilt.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationHandle, AnimationSource, ControllableAnimation, GSAPBlockAnimatorApi } from '../types/api';
+import type { GSAPPosition } from '../types/gsap';
+
+class BlockAnimationHandle implements AnimationHandle {
+	public readonly id: string;
+	private source: AnimationSource;
+
+	constructor( id: string, source: AnimationSource ) {
+		this.id = id;
+		this.source = source;
+	}
+
+	public get element(): Element | null {
+		return this.source.getAnimations( this.id )?.element ?? null;
+	}
+
+	public play(): AnimationHandle {
+		return this.each( ( animation ) => animation.play() );
+	}
+
+	public pause(): AnimationHandle {
+		return this.each( ( animation ) => animation.pause() );
+	}
+
+	public reverse(): AnimationHandle {
+		return this.each( ( animation ) => animation.reverse() );
+	}
+
+	public restart(): AnimationHandle {
+		return this.each( ( animation ) => animation.restart() );
+	}
+
+	public seek( position: GSAPPosition ): AnimationHandle {
+		return this.each( ( animation ) => animation.seek( position ) );
+	}
+
+	public progress(): number;
+	public progress( value: number ): AnimationHandle;
+	public progress( value?: number ): number | AnimationHandle {
+		if ( 'number' !== typeof value ) {
+			return this.getAnimations()[ 0 ]?.progress() ?? 0;
+		}
+
+		return this.each( ( animation ) => animation.progress( value ) );
+	}
+
+	private each( action: ( animation: ControllableAnimation ) => void ): AnimationHandle {
+		this.getAnimations().forEach( action );
+		return this;
+	}
+
+	private getAnimations(): ControllableAnimation[] {
+		return this.source.getAnimations( this.id )?.animations || [];
+	}
+}
+
+export class AnimationApi implements GSAPBlockAnimatorApi {
+	public readonly controller: AnimationSource;
+
+	/**
+	 * @param {AnimationSource} controller - The frontend controller that owns the animations
+	 */
+	constructor( controller: AnimationSource ) {
+		this.controller = controller;
+	}
+
+	/**
+	 * Get a handle on the animations of a block, animation or timeline
+	 *
+	 * Returns null when nothing on the page matches the ID.
+	 *
+	 * @param {string} id - The block, animation or timeline ID
+	 */
+	public get( id: string ): AnimationHandle | null {
+		return this.controller.getAnimations( id ) ? new BlockAnimationHandle( id, this.controller ) : null;
+	}
+
+	public play( id: string ): boolean {
+		return this.control( id, ( handle ) => handle.play() );
+	}
+
+	public pause( id: string ): boolean {
+		return this.control( id, ( handle ) => handle.pause() );
+	}
+
+	public reverse( id: string ): boolean {
+		return this.control( id, ( handle ) => handle.reverse() );
+	}
+
+	public restart( id: string ): boolean {
+		return this.control( id, ( handle ) => handle.restart() );
+	}
+
+	public seek( id: string, position: GSAPPosition ): boolean {
+		return this.control( id, ( handle ) => handle.seek( position ) );
+	}
+
+	public progress( id: string ): number | null;
+	public progress( id: string, value: number ): boolean;
+	public progress( id: string, value?: number ): number | boolean | null {
+		if ( 'number' === typeof value ) {
+			return this.control( id, ( handle ) => handle.progress( value ) );
+		}
+
+		return this.get( id )?.progress() ?? null;
+	}
+
+	/**
+	 * Pause every running animation
+	 */
+	public pauseAll(): void {
+		this.controller.pause();
+	}
+
+	/**
+	 * Resume the animations paused by pauseAll()
+	 */
+	public resumeAll(): void {
+		this.controller.resume();
+	}
+
+	public reinitialize(): void {
+		this.controller.reinitialize();
+	}
+
+	/**
+	 * Animate the blocks inside content inserted after the page loaded
+	 * @param {ParentNode} root - The element or document to scan
+	 */
+	public scan( root?: ParentNode ): void {
+		this.controller.scan?.( root );
+	}
+
+	/**
+	 * Tear down the animations inside content that is about to be removed
+	 * @param {ParentNode} root - The element or document to tear down
+	 */
+	public teardown( root: ParentNode ): void {
+		this.controller.teardown?.( root );
+	}
+
+	private control( id: string, action: ( handle: AnimationHandle ) => void ): boolean {
+		const handle = this.get( id );
+
+		if ( handle ) {
+			action( handle );
+		}
+
+		return !! handle;
+	}
+}
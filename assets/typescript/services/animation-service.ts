@@ -1,4 +1,21 @@
 import type { AnimationConfig } from '../types/animation';
+import type { GSAPTimeline, ScrollTrigger } from '../types/gsap';
+import { TimelineRegistry } from './timeline-registry';
+import { debugLog } from './debug-log';
+import { ReducedMotionManager } from './reduced-motion';
+import { HoverInteraction } from './hover-interaction';
+import { ClickInteraction } from './click-interaction';
+import { TriggerWatcher } from './trigger-watcher';
+import { PlaybackManager, type PlaybackAnimation } from './playback-manager';
+import { bindLifecycleEvents } from '../utils/lifecycle-events';
+import type { AnimationLookup } from '../types/api';
+import { buildScrollTriggerVars } from '../utils/scroll-trigger';
+import { runValidationRules } from '../utils/validation-rules';
+import { buildAnimationVars, buildFromVars, hasAnimationProperties } from '../utils/animation-properties';
+import { buildStaggerVars } from '../utils/stagger';
+import { resolveEase } from '../utils/ease';
+import { resolveClickSource } from '../utils/click';
+import { buildParallaxScrollTriggerVars, buildParallaxVars, getParallaxLayers, isParallaxConfig } from '../utils/parallax';
 // Import '../types/global';
 
 // Use global GSAP loaded via CDN
@@ -19,28 +36,23 @@ interface PreviewOptions {
 interface AnimationInstance {
 	timeline: GSAPTimeline;
 	scrollTrigger?: ScrollTrigger;
+	animationId?: string;
+	cleanup?: Array<() => void>;
 }
 
-type GSAPTimeline = {
-	to: ( target: unknown, vars: Record<string, unknown> ) => GSAPTimeline;
-	from: ( target: unknown, vars: Record<string, unknown> ) => GSAPTimeline;
-	fromTo: ( target: unknown, fromVars: Record<string, unknown>, toVars: Record<string, unknown> ) => GSAPTimeline;
-	set: ( target: unknown, vars: Record<string, unknown> ) => GSAPTimeline;
-	play: () => GSAPTimeline;
-	kill: () => void;
-	eventCallback: ( type: string, callback: () => void ) => GSAPTimeline;
-	targets: () => Element[];
-	restart: () => GSAPTimeline;
-	reverse: () => GSAPTimeline;
-};
-
-type ScrollTrigger = {
-	kill: () => void;
-};
-
 export class AnimationService {
 	private activeAnimations: Map<string, AnimationInstance> = new Map();
+	// Frontend animations, keyed by block element so every animation of a block is kept
+	private productionAnimations: Map<Element, AnimationInstance[]> = new Map();
 	private originalStates: Map<string, CSSStyleDeclaration> = new Map();
+	private fallbackIds: WeakMap<Element, string> = new WeakMap();
+	private fallbackCount: number = 0;
+	private timelineRegistry: TimelineRegistry = new TimelineRegistry();
+	private reducedMotion: ReducedMotionManager = new ReducedMotionManager( window.gsapBlockAnimatorSettings?.reducedMotionPolicy );
+	private playback: PlaybackManager = new PlaybackManager(
+		( element ) => this.getPlaybackAnimations( element ),
+		!! window.gsapBlockAnimatorSettings?.pauseOffscreen,
+	);
 
 	public async createPreview( options: PreviewOptions ): Promise<void> {
 		try {
@@ -81,29 +93,178 @@ export class AnimationService {
 	}
 
 	public createProductionAnimation( element: Element, config: AnimationConfig ): void {
-		const blockId = this.extractBlockId( element );
-		const timeline = this.buildTimeline( config );
-		const target = this.resolveTarget( element, config );
+		if ( TimelineRegistry.isTimelineConfig( config ) && ! isParallaxConfig( config ) ) {
+			this.registerTimelineMember( element, config );
+			return;
+		}
 
-		this.applyAnimationToTimeline( timeline, target, config );
+		this.createStandaloneAnimation( element, config );
+	}
 
-		const animation: AnimationInstance = { timeline };
+	public buildTimelines(): void {
+		this.timelineRegistry.build( ( member ) => {
+			this.createStandaloneAnimation( member.element, member.config );
+		} );
+	}
 
-		if ( this.requiresScrollTrigger( config ) ) {
-			animation.scrollTrigger = this.createScrollTrigger( element, timeline, config );
+	public onReducedMotionChange( listener: ( reduced: boolean ) => void ): () => void {
+		return this.reducedMotion.subscribe( listener );
+	}
+
+	public releaseAnimation( element: Element ): void {
+		this.productionAnimations.get( element )?.forEach( ( animation ) => {
+			this.disposeTriggers( animation );
+			animation.scrollTrigger?.kill( true );
+			animation.timeline.revert();
+		} );
+		this.productionAnimations.delete( element );
+	}
+
+	/**
+	 * Find the animations of a block, animation or timeline for the public API
+	 *
+	 * Blocks match by their rendered block ID, block reference or HTML anchor.
+	 *
+	 * @param {string} id - The block, animation or timeline ID
+	 */
+	public getAnimations( id: string ): AnimationLookup | null {
+		const timeline = this.timelineRegistry.getTimeline( id );
+
+		if ( timeline ) {
+			return { element: this.timelineRegistry.getOwnerElement( id ) || null, animations: [ timeline ] };
 		}
 
-		this.storeActiveAnimation( blockId, animation );
-		this.executeBasedOnTrigger( timeline, config );
+		const blocks = Array.from( this.productionAnimations.keys() );
+		const block = blocks.find( ( element ) => {
+			return id === element.getAttribute( 'data-gsap-block-id' ) ||
+				id === element.getAttribute( 'data-gsap-ref' ) ||
+				id === element.id;
+		} );
+
+		if ( block ) {
+			return {
+				element: block,
+				animations: [
+					...( this.productionAnimations.get( block ) || [] ).map( ( animation ) => animation.timeline ),
+					...this.timelineRegistry.getTimelines( block ),
+				],
+			};
+		}
+
+		const owner = blocks.find( ( element ) => this.productionAnimations.get( element )?.some( ( animation ) => id === animation.animationId ) );
+		const animations = [
+			...( owner ? this.productionAnimations.get( owner ) || [] : [] )
+				.filter( ( animation ) => id === animation.animationId )
+				.map( ( animation ) => animation.timeline ),
+			...this.timelineRegistry.getMemberTimelines( id ),
+		];
+
+		return animations.length > 0 ? { element: owner || null, animations } : null;
+	}
+
+	public pauseAll(): void {
+		this.playback.pauseAll();
+	}
+
+	public resumeAll(): void {
+		this.playback.resumeAll();
 	}
 
 	public destroyAll(): void {
+		this.playback.clear();
 		this.activeAnimations.forEach( ( animation ) => {
 			this.killAnimation( animation );
 		} );
+		this.productionAnimations.forEach( ( animations ) => {
+			animations.forEach( ( animation ) => this.killAnimation( animation ) );
+		} );
+		this.timelineRegistry.destroyAll();
 		this.clearAllMaps();
 	}
 
+	private createStandaloneAnimation( element: Element, config: AnimationConfig ): void {
+		if ( isParallaxConfig( config ) ) {
+			this.createParallaxAnimation( element, config );
+			return;
+		}
+
+		const target = this.resolveTarget( element, config );
+		const plan = this.reducedMotion.adapt( config, this.prepareAnimationProperties( config ), buildFromVars( config ) );
+
+		if ( ! plan ) {
+			this.applyEndState( target, config );
+			return;
+		}
+
+		const timeline = this.buildTimeline( config );
+
+		if ( -1 === config.timing.repeat ) {
+			this.playback.watchOffscreen( element );
+		}
+
+		this.applyAnimationToTimeline( timeline, target, { ...config, type: plan.type }, plan.vars, plan.fromVars );
+		bindLifecycleEvents( timeline, element, { animationId: config.id } );
+
+		const animation: AnimationInstance = { timeline, animationId: config.id, cleanup: [] };
+
+		if ( this.requiresScrollTrigger( config ) ) {
+			animation.scrollTrigger = this.createScrollTrigger( element, timeline, config );
+		}
+
+		this.storeProductionAnimation( element, animation );
+		this.executeBasedOnTrigger( element, animation, config );
+	}
+
+	private createParallaxAnimation( element: Element, config: AnimationConfig ): void {
+		if ( 'keep' !== this.reducedMotion.getPolicy( config ) || ! ScrollTrigger ) {
+			return;
+		}
+
+		const layers = getParallaxLayers( element, this.resolveTarget( element, config ) );
+		const { fromVars, vars } = buildParallaxVars( element, layers, config );
+		const timeline = gsap.timeline() as GSAPTimeline;
+
+		timeline.fromTo( layers, fromVars, vars );
+
+		this.storeProductionAnimation( element, {
+			timeline,
+			scrollTrigger: this.createScrollTrigger( element, timeline, config ),
+			animationId: config.id,
+		} );
+	}
+
+	private registerTimelineMember( element: Element, config: AnimationConfig ): void {
+		const target = this.resolveTarget( element, config );
+		const vars = {
+			...this.prepareAnimationProperties( config ),
+			delay: config.timing.delay,
+			repeat: config.timing.repeat,
+			yoyo: config.timing.yoyo,
+		};
+		const plan = this.reducedMotion.adapt( config, vars, buildFromVars( config ) );
+
+		if ( ! plan ) {
+			this.applyEndState( target, config );
+			return;
+		}
+
+		this.timelineRegistry.register( {
+			element,
+			config: { ...config, type: plan.type },
+			target,
+			vars: plan.vars,
+			fromVars: plan.fromVars,
+		} );
+	}
+
+	private applyEndState( target: Element | NodeListOf<Element>, config: AnimationConfig ): void {
+		const endState = this.reducedMotion.getEndState( config, this.prepareAnimationProperties( config ) );
+
+		if ( endState && hasAnimationProperties( endState ) ) {
+			gsap.set( target, endState );
+		}
+	}
+
 	private validateElement( element: Element ): void {
 		if ( ! element || ! element.parentNode ) {
 			throw new Error( 'Invalid element provided for animation' );
@@ -114,16 +275,34 @@ export class AnimationService {
 		if ( ! config.enabled ) {
 			throw new Error( 'Animation is not enabled' );
 		}
-		if ( ! config.type || ! config.trigger ) {
-			throw new Error( 'Animation configuration is incomplete' );
+
+		const { errors } = runValidationRules( config );
+
+		if ( errors.length > 0 ) {
+			throw new Error( `${ errors[ 0 ].field }: ${ errors[ 0 ].message }` );
 		}
 	}
 
+	/**
+	 * Get the key a preview is stored under
+	 *
+	 * Elements without a block ID keep the same generated key for as long
+	 * as they exist, so a preview can still be found and stopped.
+	 *
+	 * @param {Element} element - The previewed element
+	 */
 	private extractBlockId( element: Element ): string {
-		const blockId = element.getAttribute( 'data-gsap-block-id' ) ||
-			element.getAttribute( 'data-block' ) ||
-			`fallback-${ Date.now() }`;
-		return blockId;
+		const blockId = element.getAttribute( 'data-gsap-block-id' ) || element.getAttribute( 'data-block' );
+
+		if ( blockId ) {
+			return blockId;
+		}
+
+		if ( ! this.fallbackIds.has( element ) ) {
+			this.fallbackIds.set( element, `fallback-${ ++this.fallbackCount }` );
+		}
+
+		return this.fallbackIds.get( element ) as string;
 	}
 
 	private storeOriginalState( blockId: string, element: Element ): void {
@@ -139,7 +318,7 @@ export class AnimationService {
 			delay: config.timing.delay,
 			repeat: config.timing.repeat,
 			yoyo: config.timing.yoyo,
-			ease: config.timing.ease,
+			ease: resolveEase( config.timing ),
 			paused: true,
 		} ) as GSAPTimeline;
 	}
@@ -155,9 +334,9 @@ export class AnimationService {
 		timeline: GSAPTimeline,
 		target: Element | NodeListOf<Element>,
 		config: AnimationConfig,
+		properties: Record<string, unknown> = this.prepareAnimationProperties( config ),
+		fromProperties: Record<string, unknown> = buildFromVars( config ),
 	): void {
-		const properties = this.prepareAnimationProperties( config );
-
 		switch ( config.type ) {
 			case 'to':
 				timeline.to( target, properties );
@@ -166,7 +345,7 @@ export class AnimationService {
 				timeline.from( target, properties );
 				break;
 			case 'fromTo':
-				timeline.fromTo( target, this.prepareFromProperties(), properties );
+				timeline.fromTo( target, fromProperties, properties );
 				break;
 			case 'set':
 				timeline.set( target, properties );
@@ -177,47 +356,16 @@ export class AnimationService {
 	private prepareAnimationProperties( config: AnimationConfig ): Record<string, unknown> {
 		const properties: Record<string, unknown> = {
 			duration: config.timing.duration,
-			ease: config.timing.ease,
+			ease: resolveEase( config.timing ),
+			...buildAnimationVars( config.properties ),
 		};
 
-		this.addTransformProperties( properties, config );
-		this.addStyleProperties( properties, config );
-
-		return properties;
-	}
-
-	private addTransformProperties( properties: Record<string, unknown>, config: AnimationConfig ): void {
-		if ( config.properties.x !== undefined ) {
-			properties.x = config.properties.x;
-		}
-		if ( config.properties.y !== undefined ) {
-			properties.y = config.properties.y;
-		}
-		if ( config.properties.rotation !== undefined ) {
-			properties.rotation = config.properties.rotation;
+		const stagger = buildStaggerVars( config );
+		if ( stagger ) {
+			properties.stagger = stagger;
 		}
-		if ( config.properties.scale !== undefined ) {
-			properties.scale = config.properties.scale;
-		}
-	}
 
-	private addStyleProperties( properties: Record<string, unknown>, config: AnimationConfig ): void {
-		if ( config.properties.opacity !== undefined ) {
-			properties.opacity = config.properties.opacity;
-		}
-		if ( config.properties.backgroundColor ) {
-			properties.backgroundColor = config.properties.backgroundColor;
-		}
-	}
-
-	private prepareFromProperties(): Record<string, unknown> {
-		return {
-			x: 0,
-			y: 0,
-			rotation: 0,
-			scale: 1,
-			opacity: 1,
-		};
+		return properties;
 	}
 
 	private configureTimelineCallbacks( timeline: GSAPTimeline, options: PreviewOptions ): void {
@@ -238,6 +386,10 @@ export class AnimationService {
 		this.activeAnimations.set( blockId, animation );
 	}
 
+	private storeProductionAnimation( element: Element, animation: AnimationInstance ): void {
+		this.productionAnimations.set( element, [ ...( this.productionAnimations.get( element ) || [] ), animation ] );
+	}
+
 	private async executeTimeline( timeline: GSAPTimeline ): Promise<void> {
 		return new Promise( ( resolve ) => {
 			timeline.eventCallback( 'onComplete', resolve );
@@ -251,8 +403,7 @@ export class AnimationService {
 		if ( onError ) {
 			onError( errorInstance );
 		} else {
-			// Silent error handling for production
-			// console.error( 'Animation preview error:', errorInstance );
+			debugLog.report( 'preview', errorInstance );
 		}
 	}
 
@@ -261,10 +412,21 @@ export class AnimationService {
 	}
 
 	private killAnimation( animation: AnimationInstance ): void {
-		animation.timeline.kill();
+		this.disposeTriggers( animation );
+		// Revert the trigger first so a pinned block leaves its pin spacer
 		if ( animation.scrollTrigger ) {
-			animation.scrollTrigger.kill();
+			animation.scrollTrigger.kill( true );
 		}
+		animation.timeline.kill();
+	}
+
+	/**
+	 * Remove the listeners and watchers that start an animation
+	 * @param {AnimationInstance} animation - The stored animation
+	 */
+	private disposeTriggers( animation: AnimationInstance ): void {
+		animation.cleanup?.forEach( ( cleanup ) => cleanup() );
+		animation.cleanup = [];
 	}
 
 	private removeActiveAnimation( blockId: string ): void {
@@ -290,19 +452,22 @@ export class AnimationService {
 	private createScrollTrigger(
 		element: Element,
 		timeline: GSAPTimeline,
-		// eslint-disable-next-line @typescript-eslint/no-unused-vars
 		config: AnimationConfig,
 	): ScrollTrigger {
+		const vars = isParallaxConfig( config )
+			? buildParallaxScrollTriggerVars( element, config )
+			: buildScrollTriggerVars( element, config );
+
 		return ScrollTrigger.create( {
-			trigger: element,
-			start: 'top 80%',
-			end: 'bottom 20%',
+			...vars,
 			animation: timeline,
-			toggleActions: 'play none none reverse',
 		} ) as ScrollTrigger;
 	}
 
-	private executeBasedOnTrigger( timeline: GSAPTimeline, config: AnimationConfig ): void {
+	private executeBasedOnTrigger( element: Element, animation: AnimationInstance, config: AnimationConfig ): void {
+		const { timeline } = animation;
+		const cleanup = animation.cleanup || [];
+
 		switch ( config.trigger ) {
 			case 'pageload':
 				timeline.play();
@@ -311,33 +476,58 @@ export class AnimationService {
 				// Scroll trigger handled elsewhere
 				break;
 			case 'click':
-				this.addClickTrigger( timeline );
+				this.addClickTrigger( element, timeline, config, cleanup );
 				break;
 			case 'hover':
-				this.addHoverTrigger( timeline );
+				this.addHoverTrigger( element, timeline, config, cleanup );
 				break;
 			default:
-				// Unknown trigger type
+				this.addWatchedTrigger( element, timeline, config, cleanup );
 		}
 	}
 
-	private addClickTrigger( timeline: GSAPTimeline ): void {
-		const element = timeline.targets()[ 0 ] as Element;
-		if ( element ) {
-			element.addEventListener( 'click', () => timeline.restart() );
+	private addClickTrigger( element: Element, timeline: GSAPTimeline, config: AnimationConfig, cleanup: Array<() => void> ): void {
+		const source = resolveClickSource( element, config );
+		if ( source ) {
+			const interaction = new ClickInteraction( timeline, config );
+			cleanup.push( () => interaction.destroy() );
+			this.addListener( source, 'click', () => interaction.click(), cleanup );
 		}
 	}
 
-	private addHoverTrigger( timeline: GSAPTimeline ): void {
-		const element = timeline.targets()[ 0 ] as Element;
-		if ( element ) {
-			element.addEventListener( 'mouseenter', () => timeline.play() );
-			element.addEventListener( 'mouseleave', () => timeline.reverse() );
+	private addHoverTrigger( element: Element, timeline: GSAPTimeline, config: AnimationConfig, cleanup: Array<() => void> ): void {
+		const interaction = new HoverInteraction( timeline, this.resolveTarget( element, config ), config );
+		cleanup.push( () => interaction.destroy() );
+		this.addListener( element, 'mouseenter', () => interaction.enter(), cleanup );
+		this.addListener( element, 'mouseleave', () => interaction.leave(), cleanup );
+	}
+
+	private addWatchedTrigger( element: Element, timeline: GSAPTimeline, config: AnimationConfig, cleanup: Array<() => void> ): void {
+		if ( TriggerWatcher.supports( config ) ) {
+			const watcher = new TriggerWatcher( element, timeline, config );
+			cleanup.push( () => watcher.destroy() );
 		}
 	}
 
+	private addListener( element: Element, type: string, listener: () => void, cleanup: Array<() => void> ): void {
+		element.addEventListener( type, listener );
+		cleanup.push( () => element.removeEventListener( type, listener ) );
+	}
+
+	private getPlaybackAnimations( element?: Element ): PlaybackAnimation[] {
+		const animations = element
+			? this.productionAnimations.get( element ) || []
+			: Array.from( this.productionAnimations.values() ).flat();
+
+		return [
+			...animations.map( ( animation ) => animation.timeline ),
+			...this.timelineRegistry.getTimelines( element ),
+		];
+	}
+
 	private clearAllMaps(): void {
 		this.activeAnimations.clear();
+		this.productionAnimations.clear();
 		this.originalStates.clear();
 	}
 }
@@ -0,0 +1,132 @@
+/**
+ * Breakpoint watcher
+ *
+ * Watches the media queries of the blocks' breakpoint overrides and
+ * reports the blocks whose breakpoints changed, the way gsap.matchMedia
+ * does, so their animations can be reverted and built again. Changes of
+ * several queries during one resize are reported together.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+interface WatchedQuery {
+	list: MediaQueryList;
+	elements: Set<Element>;
+	listener: () => void;
+}
+
+export class BreakpointWatcher {
+	private queries: Map<string, WatchedQuery> = new Map();
+	private pending: Set<Element> = new Set();
+	private frame: number | null = null;
+	private onChange: ( elements: Element[] ) => void;
+
+	/**
+	 * Create a watcher that watches nothing until blocks are added
+	 * @param {Function} onChange - Called with the blocks whose breakpoints changed
+	 */
+	constructor( onChange: ( elements: Element[] ) => void ) {
+		this.onChange = onChange;
+	}
+
+	/**
+	 * Check whether a media query matches right now
+	 *
+	 * Without matchMedia no breakpoint matches.
+	 *
+	 * @param {string} query - The media query
+	 */
+	public matches = ( query: string ): boolean => {
+		const watched = this.queries.get( query );
+
+		if ( watched ) {
+			return watched.list.matches;
+		}
+
+		return 'function' === typeof window.matchMedia && window.matchMedia( query ).matches;
+	};
+
+	/**
+	 * Rebuild a block when one of its media queries starts or stops matching
+	 * @param {Element}  element - The animated block
+	 * @param {string[]} queries - The media queries of its breakpoints
+	 */
+	public watch( element: Element, queries: string[] ): void {
+		if ( 'function' !== typeof window.matchMedia ) {
+			return;
+		}
+
+		queries.forEach( ( query ) => {
+			let watched = this.queries.get( query );
+
+			if ( ! watched ) {
+				const list = window.matchMedia( query );
+				const listener = () => this.schedule( query );
+
+				list.addEventListener( 'change', listener );
+				watched = { list, elements: new Set(), listener };
+				this.queries.set( query, watched );
+			}
+
+			watched.elements.add( element );
+		} );
+	}
+
+	/**
+	 * Stop watching a block, and media queries no block needs anymore
+	 * @param {Element} element - The animated block
+	 */
+	public unwatch( element: Element ): void {
+		this.pending.delete( element );
+
+		this.queries.forEach( ( watched, query ) => {
+			watched.elements.delete( element );
+
+			if ( 0 === watched.elements.size ) {
+				this.removeQuery( query );
+			}
+		} );
+	}
+
+	/**
+	 * Stop watching every block
+	 */
+	public clear(): void {
+		Array.from( this.queries.keys() ).forEach( ( query ) => this.removeQuery( query ) );
+		this.pending.clear();
+
+		if ( null !== this.frame ) {
+			window.cancelAnimationFrame( this.frame );
+			this.frame = null;
+		}
+	}
+
+	private schedule( query: string ): void {
+		this.queries.get( query )?.elements.forEach( ( element ) => this.pending.add( element ) );
+
+		if ( null === this.frame ) {
+			this.frame = window.requestAnimationFrame( () => this.flush() );
+		}
+	}
+
+	private flush(): void {
+		const elements = Array.from( this.pending );
+
+		this.frame = null;
+		this.pending.clear();
+
+		if ( elements.length > 0 ) {
+			this.onChange( elements );
+		}
+	}
+
+	private removeQuery( query: string ): void {
+		const watched = this.queries.get( query );
+
+		if ( watched ) {
+			watched.list.removeEventListener( 'change', watched.listener );
+			this.queries.delete( query );
+		}
+	}
+}
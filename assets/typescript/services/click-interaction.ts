@@ -0,0 +1,79 @@
+/**
+ * Click interaction
+ *
+ * Drives a paused timeline from clicks according to the click mode: play
+ * once, restart, toggle forward and reverse, or play the next step.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig, ClickMode } from '../types/animation';
+import type { GSAPTimeline, GSAPTween } from '../types/gsap';
+import { getClickConfig } from '../utils/click';
+
+export class ClickInteraction {
+	private timeline: GSAPTimeline;
+	private mode: ClickMode;
+	private steps: number;
+	private step: number = 0;
+	private played: boolean = false;
+	private forward: boolean = false;
+	private stepTween: GSAPTween | null = null;
+
+	/**
+	 * In step mode the timeline is split into equally long steps, e.g. one
+	 * per animated element, and each click plays the next one. A click
+	 * after the last step rewinds the timeline.
+	 *
+	 * @param {GSAPTimeline}    timeline - The paused click timeline
+	 * @param {AnimationConfig} config   - The animation configuration
+	 * @param {number}          steps    - The number of steps in the timeline
+	 */
+	constructor( timeline: GSAPTimeline, config: AnimationConfig, steps: number = 1 ) {
+		this.timeline = timeline;
+		this.mode = getClickConfig( config ).mode;
+		this.steps = Math.max( 1, steps );
+	}
+
+	/**
+	 * Handle a click on the source element
+	 */
+	public click(): void {
+		switch ( this.mode ) {
+			case 'once':
+				if ( ! this.played ) {
+					this.played = true;
+					this.timeline.play();
+				}
+				break;
+			case 'toggle':
+				this.forward = ! this.forward;
+				if ( this.forward ) {
+					this.timeline.play();
+				} else {
+					this.timeline.reverse();
+				}
+				break;
+			case 'step':
+				this.playNextStep();
+				break;
+			default:
+				this.timeline.restart();
+		}
+	}
+
+	/**
+	 * Stop a step that is still playing
+	 */
+	public destroy(): void {
+		this.stepTween?.kill();
+		this.stepTween = null;
+	}
+
+	private playNextStep(): void {
+		this.step = this.step >= this.steps ? 0 : this.step + 1;
+		this.stepTween?.kill();
+		this.stepTween = this.timeline.tweenTo( this.timeline.duration() * ( this.step / this.steps ) );
+	}
+}
@@ -0,0 +1,72 @@
+/**
+ * Debug log
+ *
+ * Collects the errors the frontend would otherwise swallow silently, such
+ * as unreadable animation data or tweens that fail to build. Nothing is
+ * recorded unless the site runs in debug mode.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import { isDebugMode } from '../utils/debug';
+
+export type DebugLevel = 'error' | 'warning';
+
+export interface DebugEntry {
+	level: DebugLevel;
+	context: string;
+	message: string;
+	element: Element | null;
+	time: number;
+}
+
+export class DebugLog {
+	private entries: DebugEntry[] = [];
+
+	/**
+	 * Record a problem
+	 * @param {string}     context - Where the problem happened, e.g. 'parse'
+	 * @param {unknown}    error   - The error or a message describing it
+	 * @param {Element}    element - The block the problem belongs to
+	 * @param {DebugLevel} level   - How serious the problem is
+	 */
+	public report( context: string, error: unknown, element: Element | null = null, level: DebugLevel = 'error' ): void {
+		if ( ! isDebugMode() ) {
+			return;
+		}
+
+		this.entries.push( {
+			level,
+			context,
+			message: error instanceof Error ? error.message : String( error ),
+			element,
+			time: Date.now(),
+		} );
+	}
+
+	/**
+	 * Get the recorded problems, only those of one block when given
+	 * @param {Element | null} element - The block element, or null for problems without a block
+	 */
+	public getEntries( element?: Element | null ): DebugEntry[] {
+		return undefined === element ? [ ...this.entries ] : this.entries.filter( ( entry ) => entry.element === element );
+	}
+
+	/**
+	 * Forget every recorded problem, e.g. before the page is animated again
+	 */
+	public clear(): void {
+		this.entries = [];
+	}
+
+	/**
+	 * Forget the problems of blocks that were torn down
+	 * @param {Element} element - The block element
+	 */
+	public forget( element: Element ): void {
+		this.entries = this.entries.filter( ( entry ) => entry.element !== element );
+	}
+}
+
+export const debugLog = new DebugLog();
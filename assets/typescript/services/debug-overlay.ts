@@ -0,0 +1,257 @@
+/**
+ * Debug overlay
+ *
+ * A floating panel, shown in debug mode, that lists every animated block
+ * with its block ID, triggers, the state and progress of each animation
+ * and the problems recorded for it. Clicking a block highlights it on
+ * the page; the markers switch draws ScrollTrigger markers on every
+ * scroll animation. The panel is only rebuilt when what it shows changed,
+ * and the mutation watcher ignores it.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig } from '../types/animation';
+import { debugLog, type DebugEntry } from './debug-log';
+import { setShowAllDebugMarkers, showsAllDebugMarkers } from '../utils/debug';
+import { IGNORE_MUTATIONS_ATTRIBUTE } from './mutation-watcher';
+
+const REFRESH_INTERVAL = 500;
+const HIGHLIGHT_OUTLINE = '3px solid #e91e63';
+
+export type DebugAnimationState = 'pending' | 'playing' | 'complete';
+
+export interface DebugAnimationInfo {
+	id?: string;
+	trigger: string;
+	state: DebugAnimationState;
+	progress: number;
+}
+
+export interface DebugBlockInfo {
+	element: Element;
+	blockId: string | null;
+	animations: DebugAnimationInfo[];
+	errors: DebugEntry[];
+}
+
+type DebugAnimation = {
+	progress: () => number;
+	isActive: () => boolean;
+};
+
+export class DebugOverlay {
+	private getBlocks: () => DebugBlockInfo[];
+	private onMarkersChange: () => void;
+	private panel: HTMLElement;
+	private list: HTMLElement;
+	private timer: number;
+	private collapsed: boolean = false;
+	private rendered: string = '';
+	private highlighted: { element: HTMLElement; outline: string } | null = null;
+
+	/**
+	 * Add the panel to the page and keep it up to date
+	 * @param {Function} getBlocks       - Lists the animated blocks
+	 * @param {Function} onMarkersChange - Rebuilds the animations after the markers switch changed
+	 */
+	constructor( getBlocks: () => DebugBlockInfo[], onMarkersChange: () => void ) {
+		this.getBlocks = getBlocks;
+		this.onMarkersChange = onMarkersChange;
+		this.panel = this.createPanel();
+		this.list = this.panel.querySelector( '.gsapba-debug__list' ) as HTMLElement;
+
+		document.body.appendChild( this.panel );
+		this.render( true );
+		this.timer = window.setInterval( () => this.render(), REFRESH_INTERVAL );
+	}
+
+	/**
+	 * Describe the state of an animation from its tweens or timelines
+	 * @param {AnimationConfig}  config     - The animation configuration
+	 * @param {DebugAnimation[]} animations - The tweens or timelines built for it
+	 */
+	public static describe( config: AnimationConfig, animations: DebugAnimation[] ): DebugAnimationInfo {
+		const progress = animations.length > 0
+			? animations.reduce( ( total, animation ) => total + animation.progress(), 0 ) / animations.length
+			: 0;
+		let state: DebugAnimationState = 'pending';
+
+		if ( animations.some( ( animation ) => animation.isActive() ) ) {
+			state = 'playing';
+		} else if ( animations.length > 0 && progress >= 1 ) {
+			state = 'complete';
+		}
+
+		return { id: config.id, trigger: config.trigger, state, progress };
+	}
+
+	/**
+	 * Remove the panel and any highlight
+	 */
+	public destroy(): void {
+		window.clearInterval( this.timer );
+		this.clearHighlight();
+		this.panel.remove();
+	}
+
+	private createPanel(): HTMLElement {
+		const panel = document.createElement( 'div' );
+		const header = document.createElement( 'div' );
+		const title = document.createElement( 'strong' );
+		const markers = document.createElement( 'label' );
+		const markersToggle = document.createElement( 'input' );
+		const list = document.createElement( 'div' );
+
+		panel.className = 'gsapba-debug';
+		panel.setAttribute( IGNORE_MUTATIONS_ATTRIBUTE, '' );
+		panel.setAttribute( 'style', 'position:fixed;right:12px;bottom:12px;z-index:999999;width:340px;max-height:60vh;display:flex;flex-direction:column;background:rgba(20,20,24,.94);color:#f1f1f1;font:12px/1.4 monospace;border-radius:6px;box-shadow:0 4px 16px rgba(0,0,0,.4);' );
+
+		header.setAttribute( 'style', 'display:flex;align-items:center;gap:8px;padding:8px 10px;border-bottom:1px solid #444;cursor:pointer;' );
+		title.textContent = 'GSAP Block Animator';
+		title.style.flex = '1';
+		header.addEventListener( 'click', ( event ) => {
+			if ( event.target === header || event.target === title ) {
+				this.collapsed = ! this.collapsed;
+				this.list.style.display = this.collapsed ? 'none' : 'block';
+				this.render( true );
+			}
+		} );
+
+		markersToggle.type = 'checkbox';
+		markersToggle.checked = showsAllDebugMarkers();
+		markersToggle.addEventListener( 'change', () => {
+			setShowAllDebugMarkers( markersToggle.checked );
+			this.onMarkersChange();
+		} );
+		markers.append( markersToggle, ' markers' );
+
+		list.className = 'gsapba-debug__list';
+		list.setAttribute( 'style', 'overflow:auto;padding:4px 0;' );
+
+		header.append( title, markers );
+		panel.append( header, list );
+
+		return panel;
+	}
+
+	/**
+	 * Rebuild the block list when anything it shows changed
+	 *
+	 * Periodic refreshes wait while the pointer is over the panel so rows
+	 * are not replaced under a click.
+	 *
+	 * @param {boolean} force - Whether to refresh even under the pointer or unchanged
+	 */
+	private render( force: boolean = false ): void {
+		if ( this.collapsed || ( ! force && this.panel.matches( ':hover' ) ) ) {
+			return;
+		}
+
+		const blocks = this.getBlocks();
+		const pageErrors = debugLog.getEntries( null );
+		const snapshot = this.getSnapshot( blocks, pageErrors );
+
+		if ( ! force && snapshot === this.rendered ) {
+			return;
+		}
+
+		const rows = blocks.map( ( block ) => this.createBlockRow( block ) );
+
+		this.rendered = snapshot;
+
+		if ( pageErrors.length > 0 ) {
+			rows.unshift( this.createErrors( pageErrors ) );
+		}
+
+		this.list.replaceChildren( ...rows );
+	}
+
+	private getSnapshot( blocks: DebugBlockInfo[], pageErrors: DebugEntry[] ): string {
+		return JSON.stringify( [
+			pageErrors.length,
+			blocks.map( ( block ) => [
+				block.blockId,
+				block.errors.length,
+				block.animations.map( ( animation ) => [ animation.trigger, animation.state, Math.round( animation.progress * 100 ) ] ),
+			] ),
+		] );
+	}
+
+	private createBlockRow( block: DebugBlockInfo ): HTMLElement {
+		const row = document.createElement( 'div' );
+		const heading = document.createElement( 'div' );
+		const isHighlighted = this.highlighted?.element === block.element;
+
+		row.setAttribute( 'style', `padding:6px 10px;cursor:pointer;border-left:3px solid ${ isHighlighted ? '#e91e63' : 'transparent' };` );
+		row.addEventListener( 'click', () => this.toggleHighlight( block.element ) );
+
+		heading.textContent = block.blockId || block.element.tagName.toLowerCase();
+		heading.style.fontWeight = 'bold';
+		row.appendChild( heading );
+
+		block.animations.forEach( ( animation ) => {
+			const line = document.createElement( 'div' );
+
+			line.textContent = `${ animation.trigger } · ${ animation.state } · ${ Math.round( animation.progress * 100 ) }%`;
+			line.style.color = this.getStateColor( animation.state );
+			line.title = animation.id || '';
+			row.appendChild( line );
+		} );
+
+		if ( block.errors.length > 0 ) {
+			row.appendChild( this.createErrors( block.errors ) );
+		}
+
+		return row;
+	}
+
+	private createErrors( errors: DebugEntry[] ): HTMLElement {
+		const container = document.createElement( 'div' );
+
+		container.style.padding = '2px 10px';
+
+		errors.forEach( ( entry ) => {
+			const line = document.createElement( 'div' );
+
+			line.textContent = `${ entry.level } [${ entry.context }] ${ entry.message }`;
+			line.style.color = 'error' === entry.level ? '#ff6b6b' : '#ffd166';
+			container.appendChild( line );
+		} );
+
+		return container;
+	}
+
+	private getStateColor( state: DebugAnimationState ): string {
+		switch ( state ) {
+			case 'playing':
+				return '#7bd88f';
+			case 'complete':
+				return '#9aa0a6';
+			default:
+				return '#8ab4f8';
+		}
+	}
+
+	private toggleHighlight( element: Element ): void {
+		const isSame = this.highlighted?.element === element;
+
+		this.clearHighlight();
+
+		if ( ! isSame && element instanceof HTMLElement ) {
+			this.highlighted = { element, outline: element.style.outline };
+			element.style.outline = HIGHLIGHT_OUTLINE;
+			element.scrollIntoView( { behavior: 'smooth', block: 'center' } );
+		}
+
+		this.render( true );
+	}
+
+	private clearHighlight(): void {
+		if ( this.highlighted ) {
+			this.highlighted.element.style.outline = this.highlighted.outline;
+			this.highlighted = null;
+		}
+	}
+}
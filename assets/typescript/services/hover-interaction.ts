@@ -0,0 +1,144 @@
+/**
+ * Hover interaction
+ *
+ * Drives a paused timeline from mouse hover: entering plays it forward
+ * from wherever it currently is and leaving applies the configured leave
+ * behaviour, so quick hovers never stack tweens or snap the element.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig, HoverConfig } from '../types/animation';
+import type { GSAPTarget, GSAPTimeline, GSAPTween } from '../types/gsap';
+import { buildAnimationVars, hasAnimationProperties } from '../utils/animation-properties';
+import { resolveEase } from '../utils/ease';
+import { getHoverConfig } from '../utils/hover';
+import { addEventCallback } from '../utils/lifecycle-events';
+
+export class HoverInteraction {
+	private timeline: GSAPTimeline;
+	private target: GSAPTarget;
+	private config: AnimationConfig;
+	private hover: HoverConfig;
+	private intentTimer: number | null = null;
+	private leaveTween: GSAPTween | null = null;
+	private reverseOnComplete: boolean = false;
+	private entered: boolean = false;
+
+	/**
+	 * @param {GSAPTimeline}    timeline - The paused hover timeline
+	 * @param {GSAPTarget}      target   - The animated target, used by leave animations
+	 * @param {AnimationConfig} config   - The animation configuration
+	 */
+	constructor( timeline: GSAPTimeline, target: GSAPTarget, config: AnimationConfig ) {
+		this.timeline = timeline;
+		this.target = target;
+		this.config = config;
+		this.hover = getHoverConfig( config );
+
+		addEventCallback( this.timeline, 'onComplete', () => {
+			if ( this.reverseOnComplete ) {
+				this.reverseOnComplete = false;
+				this.timeline.reverse();
+			}
+		} );
+	}
+
+	/**
+	 * Handle the pointer entering the element
+	 *
+	 * With a hover-intent delay the timeline only starts once the pointer
+	 * has stayed on the element for that long.
+	 */
+	public enter(): void {
+		this.clearIntentTimer();
+		this.reverseOnComplete = false;
+
+		if ( this.hover.intentDelay > 0 ) {
+			this.intentTimer = window.setTimeout( () => this.play(), this.hover.intentDelay * 1000 );
+			return;
+		}
+
+		this.play();
+	}
+
+	/**
+	 * Handle the pointer leaving the element
+	 */
+	public leave(): void {
+		this.clearIntentTimer();
+
+		if ( ! this.entered ) {
+			return;
+		}
+
+		this.entered = false;
+
+		switch ( this.hover.leave ) {
+			case 'continue':
+				if ( this.timeline.progress() < 1 ) {
+					this.reverseOnComplete = true;
+				} else {
+					this.timeline.reverse();
+				}
+				break;
+			case 'animate':
+				if ( ! this.playLeaveAnimation() ) {
+					this.timeline.reverse();
+				}
+				break;
+			default:
+				this.timeline.reverse();
+		}
+	}
+
+	/**
+	 * Stop pending timers and revert the leave animation
+	 */
+	public destroy(): void {
+		this.clearIntentTimer();
+		this.leaveTween?.revert();
+		this.leaveTween = null;
+	}
+
+	private play(): void {
+		this.intentTimer = null;
+		this.entered = true;
+
+		if ( this.leaveTween ) {
+			// The leave animation moved the target away from the timeline,
+			// so record fresh start values before playing again
+			this.leaveTween.kill();
+			this.leaveTween = null;
+			this.timeline.invalidate().restart();
+			return;
+		}
+
+		this.timeline.play();
+	}
+
+	private playLeaveAnimation(): boolean {
+		const leaveVars = buildAnimationVars( this.hover.leaveProperties );
+
+		if ( ! hasAnimationProperties( leaveVars ) ) {
+			return false;
+		}
+
+		this.timeline.pause();
+		this.leaveTween = window.gsap.to( this.target, {
+			...leaveVars,
+			duration: this.config.timing.duration,
+			ease: resolveEase( this.config.timing ),
+		} ) as GSAPTween;
+
+		return true;
+	}
+
+	private clearIntentTimer(): void {
+		if ( null !== this.intentTimer ) {
+			window.clearTimeout( this.intentTimer );
+			this.intentTimer = null;
+		}
+	}
+}
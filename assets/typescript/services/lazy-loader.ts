@@ -0,0 +1,175 @@
+/**
+ * Lazy animation loader
+ *
+ * Defers building a block's animations until the block approaches the
+ * viewport. Blocks already near the viewport when they are observed are
+ * built right away so above-the-fold animations start without waiting
+ * for the observer. In performance mode, scroll animations are released
+ * again once their block moves far away and rebuilt when it comes back.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig, TriggerType } from '../types/animation';
+import { TimelineRegistry } from './timeline-registry';
+import { getClickConfig } from '../utils/click';
+import { getScrollConfig } from '../utils/scroll-trigger';
+
+export const DEFAULT_LAZY_MARGIN = 200;
+
+const LAZY_TRIGGERS: TriggerType[] = [ 'pageload', 'scroll', 'click', 'hover', 'pointer', 'exit' ];
+
+interface LazyEntry {
+	create: () => void;
+	release?: () => void;
+	created: boolean;
+}
+
+export class LazyLoader {
+	private margin: number;
+	private releaseWhenFar: boolean;
+	private observer: IntersectionObserver | null = null;
+	private entries: Map<Element, LazyEntry> = new Map();
+
+	/**
+	 * @param {number}  margin         - Distance in pixels from the viewport at which blocks are built
+	 * @param {boolean} releaseWhenFar - Whether to release releasable blocks beyond that distance
+	 */
+	constructor( margin: number = DEFAULT_LAZY_MARGIN, releaseWhenFar: boolean = false ) {
+		this.margin = Math.max( 0, margin );
+		this.releaseWhenFar = releaseWhenFar;
+
+		if ( 'undefined' !== typeof IntersectionObserver ) {
+			this.observer = new IntersectionObserver( this.handleIntersections.bind( this ), {
+				root: null,
+				rootMargin: `${ this.margin }px 0px`,
+				threshold: 0,
+			} );
+		}
+	}
+
+	/**
+	 * Check whether an animation can wait until its block approaches the viewport
+	 *
+	 * Timeline members, pinned blocks and triggers that fire away from the
+	 * block (a click on another block, events, idle time, hash changes or
+	 * keyboard focus) are always built up front.
+	 *
+	 * @param {AnimationConfig} config - The animation configuration
+	 */
+	public static isLazyConfig( config: AnimationConfig ): boolean {
+		if ( ! LAZY_TRIGGERS.includes( config.trigger ) || TimelineRegistry.isTimelineConfig( config ) ) {
+			return false;
+		}
+
+		if ( 'click' === config.trigger ) {
+			return ! getClickConfig( config ).source;
+		}
+
+		return 'scroll' !== config.trigger || ! getScrollConfig( config ).pin.enabled;
+	}
+
+	/**
+	 * Check whether an animation can be released while its block is far away
+	 *
+	 * Only scroll animations qualify: they pick up their state from the
+	 * scroll position again when rebuilt.
+	 *
+	 * @param {AnimationConfig} config - The animation configuration
+	 */
+	public static isReleasableConfig( config: AnimationConfig ): boolean {
+		return 'scroll' === config.trigger && LazyLoader.isLazyConfig( config );
+	}
+
+	/**
+	 * Build a block now when it is near the viewport, or once it approaches it
+	 * @param {Element}  element - The block element
+	 * @param {Function} create  - Builds the block's animations
+	 * @param {Function} release - Tears them down again, when the block can be released
+	 */
+	public observe( element: Element, create: () => void, release?: () => void ): void {
+		const entry: LazyEntry = {
+			create,
+			release: this.releaseWhenFar ? release : undefined,
+			created: false,
+		};
+
+		if ( ! this.observer || this.isNearViewport( element ) ) {
+			entry.created = true;
+			create();
+
+			if ( ! this.observer || ! entry.release ) {
+				return;
+			}
+		}
+
+		this.entries.set( element, entry );
+		this.observer.observe( element );
+	}
+
+	/**
+	 * Build a block that is still waiting for the viewport right away
+	 * @param {Element} element - The block element
+	 */
+	public load( element: Element ): void {
+		const entry = this.entries.get( element );
+
+		if ( ! entry || entry.created ) {
+			return;
+		}
+
+		entry.created = true;
+		entry.create();
+
+		if ( ! entry.release ) {
+			this.unobserve( element );
+		}
+	}
+
+	/**
+	 * Stop observing a block without touching its animations
+	 * @param {Element} element - The block element
+	 */
+	public unobserve( element: Element ): void {
+		this.observer?.unobserve( element );
+		this.entries.delete( element );
+	}
+
+	/**
+	 * Stop observing all blocks without touching their animations
+	 */
+	public destroy(): void {
+		this.observer?.disconnect();
+		this.observer = null;
+		this.entries.clear();
+	}
+
+	private handleIntersections( intersections: IntersectionObserverEntry[] ): void {
+		intersections.forEach( ( intersection ) => {
+			const entry = this.entries.get( intersection.target );
+
+			if ( ! entry ) {
+				return;
+			}
+
+			if ( intersection.isIntersecting ) {
+				this.load( intersection.target );
+			} else if ( entry.created && entry.release ) {
+				entry.created = false;
+				entry.release();
+			}
+		} );
+	}
+
+	/**
+	 * Measure the block against the viewport grown by the margin
+	 * @param {Element} element - The block element
+	 */
+	private isNearViewport( element: Element ): boolean {
+		const rect = element.getBoundingClientRect();
+
+		return rect.bottom >= -this.margin &&
+			rect.top <= window.innerHeight + this.margin;
+	}
+}
@@ -0,0 +1,72 @@
+/**
+ * Mutation watcher
+ *
+ * Reports elements added to and removed from the page so blocks loaded
+ * later (infinite scroll, AJAX filters, page swaps) are animated and the
+ * animations of removed blocks are torn down. Nodes that are only moved,
+ * like a block ScrollTrigger wraps in a pin spacer, are not reported, nor
+ * is anything inside an element marked `data-gsap-ignore-mutations`, like
+ * the debug overlay.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+export const IGNORE_MUTATIONS_ATTRIBUTE = 'data-gsap-ignore-mutations';
+
+export class MutationWatcher {
+	private observer: MutationObserver | null = null;
+
+	/**
+	 * Start watching the document body
+	 * @param {Function} onChange - Called with the added and removed root elements of each batch of mutations
+	 */
+	constructor( onChange: ( added: Element[], removed: Element[] ) => void ) {
+		if ( 'undefined' === typeof MutationObserver || ! document.body ) {
+			return;
+		}
+
+		this.observer = new MutationObserver( ( mutations ) => {
+			const added = this.collect( mutations, 'addedNodes' ).filter( ( element ) => element.isConnected );
+			const removed = this.collect( mutations, 'removedNodes' ).filter( ( element ) => ! element.isConnected );
+
+			if ( added.length > 0 || removed.length > 0 ) {
+				onChange( added, removed );
+			}
+		} );
+
+		this.observer.observe( document.body, { childList: true, subtree: true } );
+	}
+
+	/**
+	 * Stop watching the page
+	 */
+	public destroy(): void {
+		this.observer?.disconnect();
+		this.observer = null;
+	}
+
+	private collect( mutations: MutationRecord[], key: 'addedNodes' | 'removedNodes' ): Element[] {
+		const elements = new Set<Element>();
+
+		mutations.forEach( ( mutation ) => {
+			if ( this.isIgnored( mutation.target ) ) {
+				return;
+			}
+
+			mutation[ key ].forEach( ( node ) => {
+				if ( node instanceof Element && ! node.hasAttribute( IGNORE_MUTATIONS_ATTRIBUTE ) ) {
+					elements.add( node );
+				}
+			} );
+		} );
+
+		return Array.from( elements );
+	}
+
+	private isIgnored( node: Node ): boolean {
+		const element = node instanceof Element ? node : node.parentElement;
+
+		return !! element?.closest( `[${ IGNORE_MUTATIONS_ATTRIBUTE }]` );
+	}
+}
@@ -0,0 +1,113 @@
+/**
+ * Playback manager
+ *
+ * Pauses running animations while the tab is hidden and, optionally,
+ * infinitely repeating animations while their block is off-screen, then
+ * resumes exactly the animations it paused from the same progress.
+ * Animations are looked up through the owner on every change, so tweens
+ * rebuilt in the meantime are never touched in their stale form.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+export interface PlaybackAnimation {
+	pause: () => unknown;
+	resume: () => unknown;
+	paused: () => boolean;
+}
+
+export class PlaybackManager {
+	private getAnimations: ( element?: Element ) => PlaybackAnimation[];
+	private hiddenPaused: PlaybackAnimation[] = [];
+	private offscreenPaused: Map<Element, PlaybackAnimation[]> = new Map();
+	private observer: IntersectionObserver | null = null;
+
+	/**
+	 * @param {Function} getAnimations  - Lists the current animations, of one block when given
+	 * @param {boolean}  pauseOffscreen - Whether to pause watched blocks while they are off-screen
+	 */
+	constructor( getAnimations: ( element?: Element ) => PlaybackAnimation[], pauseOffscreen: boolean = false ) {
+		this.getAnimations = getAnimations;
+
+		if ( pauseOffscreen && 'undefined' !== typeof IntersectionObserver ) {
+			this.observer = new IntersectionObserver( this.handleIntersections.bind( this ), { threshold: 0 } );
+		}
+	}
+
+	/**
+	 * Pause every running animation
+	 */
+	public pauseAll(): void {
+		this.hiddenPaused.push( ...this.pausePlaying( this.getAnimations() ) );
+	}
+
+	/**
+	 * Resume the animations paused by pauseAll()
+	 */
+	public resumeAll(): void {
+		this.resumeCurrent( this.hiddenPaused, this.getAnimations() );
+		this.hiddenPaused = [];
+	}
+
+	/**
+	 * Pause the animations of a block whenever it leaves the viewport
+	 *
+	 * Does nothing unless off-screen pausing is enabled.
+	 *
+	 * @param {Element} element - The block element
+	 */
+	public watchOffscreen( element: Element ): void {
+		this.observer?.observe( element );
+	}
+
+	/**
+	 * Stop watching a block, e.g. when it is removed from the page
+	 * @param {Element} element - The block element
+	 */
+	public unwatch( element: Element ): void {
+		this.observer?.unobserve( element );
+		this.offscreenPaused.delete( element );
+	}
+
+	/**
+	 * Forget every paused animation and watched block
+	 */
+	public clear(): void {
+		this.observer?.disconnect();
+		this.hiddenPaused = [];
+		this.offscreenPaused.clear();
+	}
+
+	private handleIntersections( intersections: IntersectionObserverEntry[] ): void {
+		intersections.forEach( ( { target, isIntersecting } ) => {
+			const paused = this.offscreenPaused.get( target );
+
+			if ( isIntersecting && paused ) {
+				this.resumeCurrent( paused, this.getAnimations( target ) );
+				this.offscreenPaused.delete( target );
+			} else if ( ! isIntersecting && ! paused ) {
+				this.offscreenPaused.set( target, this.pausePlaying( this.getAnimations( target ) ) );
+			}
+		} );
+	}
+
+	private pausePlaying( animations: PlaybackAnimation[] ): PlaybackAnimation[] {
+		const playing = animations.filter( ( animation ) => ! animation.paused() );
+
+		playing.forEach( ( animation ) => animation.pause() );
+
+		return playing;
+	}
+
+	/**
+	 * Resume paused animations that still exist
+	 * @param {PlaybackAnimation[]} paused  - The animations that were paused
+	 * @param {PlaybackAnimation[]} current - The animations that exist now
+	 */
+	private resumeCurrent( paused: PlaybackAnimation[], current: PlaybackAnimation[] ): void {
+		paused
+			.filter( ( animation ) => current.includes( animation ) )
+			.forEach( ( animation ) => animation.resume() );
+	}
+}
@@ -0,0 +1,187 @@
+/**
+ * Pointer effect
+ *
+ * Makes a block follow the pointer: a 3D tilt toward the cursor, a
+ * magnetic pull while the cursor is near, or a layered parallax where
+ * each selector-targeted child moves according to its depth.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { PointerConfig } from '../types/animation';
+import type { PointerPosition, PointerTracker } from './pointer-tracker';
+import { getLayerDepth } from '../utils/pointer';
+import { resolveEase } from '../utils/ease';
+
+const TILT_PERSPECTIVE = 800;
+const MAGNETIC_RADIUS = 40;
+const TILT_PROPERTIES = [ 'rotationX', 'rotationY', 'transformPerspective' ];
+const MOVE_PROPERTIES = [ 'x', 'y' ];
+
+interface PointerLayer {
+	element: Element;
+	depth: number;
+	original: Record<string, number | string>;
+	setX: ( value: number ) => void;
+	setY: ( value: number ) => void;
+}
+
+export class PointerEffect {
+	private element: Element;
+	private targets: Element[];
+	private pointer: PointerConfig;
+	private layers: PointerLayer[];
+	private unsubscribe: () => void;
+
+	/**
+	 * Start following the pointer right away
+	 * @param {Element}        element - The block element, whose bounds the pointer is measured against
+	 * @param {Element[]}      targets - The elements to move
+	 * @param {PointerConfig}  pointer - The pointer settings
+	 * @param {PointerTracker} tracker - The shared pointer tracker
+	 */
+	constructor( element: Element, targets: Element[], pointer: PointerConfig, tracker: PointerTracker ) {
+		this.element = element;
+		this.targets = targets;
+		this.pointer = pointer;
+		this.layers = this.createLayers();
+		this.unsubscribe = tracker.subscribe( ( position ) => this.update( position ) );
+	}
+
+	/**
+	 * Stop following the pointer and restore the properties it moved
+	 *
+	 * Other transforms of the targets, set by the theme or by other
+	 * animations, are kept.
+	 */
+	public destroy(): void {
+		this.unsubscribe();
+		window.gsap.killTweensOf( this.targets );
+		this.layers.forEach( ( layer ) => window.gsap.set( layer.element, layer.original ) );
+	}
+
+	private createLayers(): PointerLayer[] {
+		const isTilt = 'tilt' === this.pointer.effect;
+		const vars = {
+			duration: this.pointer.smoothing,
+			ease: resolveEase( { ease: this.pointer.ease } ),
+		};
+		const originals = this.targets.map( ( element ) => this.getOriginal( element, isTilt ? TILT_PROPERTIES : MOVE_PROPERTIES ) );
+
+		if ( isTilt ) {
+			window.gsap.set( this.targets, { transformPerspective: TILT_PERSPECTIVE } );
+		}
+
+		return this.targets.map( ( element, index ) => ( {
+			element,
+			depth: getLayerDepth( this.pointer, index, this.targets.length ),
+			original: originals[ index ],
+			setX: window.gsap.quickTo( element, isTilt ? 'rotationY' : 'x', vars ),
+			setY: window.gsap.quickTo( element, isTilt ? 'rotationX' : 'y', vars ),
+		} ) );
+	}
+
+	private getOriginal( element: Element, properties: string[] ): Record<string, number | string> {
+		return Object.fromEntries( properties.map( ( property ) => [ property, window.gsap.getProperty( element, property ) ] ) );
+	}
+
+	private update( position: PointerPosition | null ): void {
+		switch ( this.pointer.effect ) {
+			case 'magnetic':
+				this.updateMagnetic( position );
+				break;
+			case 'parallax':
+				this.updateParallax( position );
+				break;
+			default:
+				this.updateTilt( position );
+		}
+	}
+
+	/**
+	 * Rotate toward the pointer while it is over the block
+	 * @param {PointerPosition | null} position - The pointer position
+	 */
+	private updateTilt( position: PointerPosition | null ): void {
+		const offset = this.getRelativeOffset( position );
+
+		this.layers.forEach( ( layer ) => {
+			layer.setX( offset ? offset.x * this.pointer.intensity : 0 );
+			layer.setY( offset ? -offset.y * this.pointer.intensity : 0 );
+		} );
+	}
+
+	/**
+	 * Pull toward the pointer while it is over or near the block
+	 * @param {PointerPosition | null} position - The pointer position
+	 */
+	private updateMagnetic( position: PointerPosition | null ): void {
+		this.layers.forEach( ( layer ) => {
+			const rect = this.getRestingRect( layer.element );
+			const isNear = position && this.isWithin( position, rect, MAGNETIC_RADIUS );
+			const centerX = rect.left + ( rect.width / 2 );
+			const centerY = rect.top + ( rect.height / 2 );
+
+			layer.setX( isNear ? ( position.x - centerX ) * this.pointer.intensity : 0 );
+			layer.setY( isNear ? ( position.y - centerY ) * this.pointer.intensity : 0 );
+		} );
+	}
+
+	/**
+	 * Measure where a layer sits without the pull applied to it
+	 *
+	 * Measuring the pulled layer would move its center toward the pointer
+	 * and feed every pull back into the next one.
+	 *
+	 * @param {Element} element - The layer element
+	 */
+	private getRestingRect( element: Element ): DOMRect {
+		const rect = element.getBoundingClientRect();
+		const x = Number( window.gsap.getProperty( element, 'x' ) ) || 0;
+		const y = Number( window.gsap.getProperty( element, 'y' ) ) || 0;
+
+		return new DOMRect( rect.left - x, rect.top - y, rect.width, rect.height );
+	}
+
+	/**
+	 * Shift every layer by its depth as the pointer moves across the window
+	 * @param {PointerPosition | null} position - The pointer position
+	 */
+	private updateParallax( position: PointerPosition | null ): void {
+		const x = position ? ( ( position.x / window.innerWidth ) * 2 ) - 1 : 0;
+		const y = position ? ( ( position.y / window.innerHeight ) * 2 ) - 1 : 0;
+
+		this.layers.forEach( ( layer ) => {
+			layer.setX( x * this.pointer.intensity * layer.depth );
+			layer.setY( y * this.pointer.intensity * layer.depth );
+		} );
+	}
+
+	/**
+	 * Get the pointer offset from the block center, from -1 to 1 on each axis
+	 *
+	 * Returns null when the pointer is outside the block.
+	 *
+	 * @param {PointerPosition | null} position - The pointer position
+	 */
+	private getRelativeOffset( position: PointerPosition | null ): PointerPosition | null {
+		const rect = this.element.getBoundingClientRect();
+
+		if ( ! position || ! this.isWithin( position, rect, 0 ) || 0 === rect.width || 0 === rect.height ) {
+			return null;
+		}
+
+		return {
+			x: ( ( ( position.x - rect.left ) / rect.width ) * 2 ) - 1,
+			y: ( ( ( position.y - rect.top ) / rect.height ) * 2 ) - 1,
+		};
+	}
+
+	private isWithin( position: PointerPosition, rect: DOMRect, margin: number ): boolean {
+		return position.x >= rect.left - margin &&
+			position.x <= rect.right + margin &&
+			position.y >= rect.top - margin &&
+			position.y <= rect.bottom + margin;
+	}
+}
@@ -0,0 +1,96 @@
+/**
+ * Pointer tracker
+ *
+ * Listens to pointer movement once for the whole page and hands the
+ * latest position to every subscribed effect at most once per frame.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+export const FINE_POINTER_QUERY = '(hover: hover) and (pointer: fine)';
+
+export interface PointerPosition {
+	x: number;
+	y: number;
+}
+
+export class PointerTracker {
+	private listeners: Set<( position: PointerPosition | null ) => void> = new Set();
+	private position: PointerPosition | null = null;
+	private frame: number | null = null;
+	private handleMove = ( event: PointerEvent ): void => {
+		if ( 'touch' === event.pointerType ) {
+			return;
+		}
+
+		this.position = { x: event.clientX, y: event.clientY };
+		this.scheduleNotify();
+	};
+	private handleLeave = (): void => {
+		this.position = null;
+		this.scheduleNotify();
+	};
+
+	/**
+	 * Check whether the device has a mouse or similar pointer that can hover
+	 */
+	public static isSupported(): boolean {
+		return 'function' === typeof window.matchMedia && window.matchMedia( FINE_POINTER_QUERY ).matches;
+	}
+
+	/**
+	 * Listen for pointer positions
+	 *
+	 * The listener receives null when the pointer leaves the page.
+	 *
+	 * @param {Function} listener - Called with the latest pointer position
+	 */
+	public subscribe( listener: ( position: PointerPosition | null ) => void ): () => void {
+		if ( 0 === this.listeners.size ) {
+			window.addEventListener( 'pointermove', this.handleMove, { passive: true } );
+			document.documentElement.addEventListener( 'pointerleave', this.handleLeave );
+		}
+
+		this.listeners.add( listener );
+
+		return () => this.unsubscribe( listener );
+	}
+
+	/**
+	 * Stop tracking the pointer
+	 */
+	public destroy(): void {
+		this.listeners.clear();
+		this.removeListeners();
+	}
+
+	private scheduleNotify(): void {
+		if ( null !== this.frame ) {
+			return;
+		}
+
+		this.frame = window.requestAnimationFrame( () => {
+			this.frame = null;
+			this.listeners.forEach( ( listener ) => listener( this.position ) );
+		} );
+	}
+
+	private unsubscribe( listener: ( position: PointerPosition | null ) => void ): void {
+		this.listeners.delete( listener );
+
+		if ( 0 === this.listeners.size ) {
+			this.removeListeners();
+		}
+	}
+
+	private removeListeners(): void {
+		window.removeEventListener( 'pointermove', this.handleMove );
+		document.documentElement.removeEventListener( 'pointerleave', this.handleLeave );
+
+		if ( null !== this.frame ) {
+			window.cancelAnimationFrame( this.frame );
+			this.frame = null;
+		}
+	}
+}
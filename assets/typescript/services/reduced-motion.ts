@@ -0,0 +1,156 @@
+/**
+ * Reduced motion handling
+ *
+ * Watches the prefers-reduced-motion media query and adapts animations
+ * according to the block's policy, falling back to the site policy.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig, AnimationType, ReducedMotionPolicy } from '../types/animation';
+import type { GSAPVars } from '../types/gsap';
+
+export const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+const TIMING_KEYS = [ 'duration', 'delay', 'ease', 'repeat', 'yoyo', 'scrollTrigger', 'stagger' ];
+
+export interface MotionPlan {
+	type: AnimationType;
+	vars: GSAPVars;
+	fromVars: GSAPVars;
+}
+
+export class ReducedMotionManager {
+	private mediaQuery: MediaQueryList | null;
+	private sitePolicy: ReducedMotionPolicy;
+	private listeners: Set<( reduced: boolean ) => void> = new Set();
+	private handleChange = ( event: MediaQueryListEvent ): void => {
+		this.listeners.forEach( ( listener ) => listener( event.matches ) );
+	};
+
+	constructor( sitePolicy: ReducedMotionPolicy = 'skip' ) {
+		this.sitePolicy = sitePolicy;
+		this.mediaQuery = 'function' === typeof window.matchMedia ? window.matchMedia( REDUCED_MOTION_QUERY ) : null;
+	}
+
+	/**
+	 * Check whether the visitor prefers reduced motion
+	 */
+	public isReduced(): boolean {
+		return !! this.mediaQuery?.matches;
+	}
+
+	/**
+	 * Resolve the policy that applies to a configuration right now
+	 *
+	 * Always 'keep' when the visitor does not prefer reduced motion.
+	 *
+	 * @param {AnimationConfig} config - The animation configuration
+	 */
+	public getPolicy( config: AnimationConfig ): ReducedMotionPolicy {
+		if ( ! this.isReduced() ) {
+			return 'keep';
+		}
+
+		return config.reducedMotion || this.sitePolicy;
+	}
+
+	/**
+	 * Listen for live changes of the media query
+	 * @param {Function} listener - Called with the new preference
+	 */
+	public subscribe( listener: ( reduced: boolean ) => void ): () => void {
+		if ( this.mediaQuery && 0 === this.listeners.size ) {
+			this.mediaQuery.addEventListener( 'change', this.handleChange );
+		}
+
+		this.listeners.add( listener );
+
+		return () => this.unsubscribe( listener );
+	}
+
+	/**
+	 * Stop listening to the media query
+	 */
+	public destroy(): void {
+		this.listeners.clear();
+		this.mediaQuery?.removeEventListener( 'change', this.handleChange );
+	}
+
+	/**
+	 * Adapt a tween to the applicable policy
+	 *
+	 * Returns null when the animation must be skipped; use getEndState()
+	 * to jump straight to where it would have finished.
+	 *
+	 * @param {AnimationConfig} config   - The animation configuration
+	 * @param {GSAPVars}        vars     - The prepared tween vars
+	 * @param {GSAPVars}        fromVars - The prepared from vars for fromTo tweens
+	 */
+	public adapt( config: AnimationConfig, vars: GSAPVars, fromVars: GSAPVars ): MotionPlan | null {
+		switch ( this.getPolicy( config ) ) {
+			case 'skip':
+				return null;
+			case 'fade':
+				return this.createFadePlan( config, vars );
+			default:
+				return { type: config.type, vars, fromVars };
+		}
+	}
+
+	/**
+	 * Get the state a skipped animation would have ended in
+	 *
+	 * Interaction triggers have no end state to jump to, and 'from'
+	 * tweens already end in the element's natural state.
+	 *
+	 * @param {AnimationConfig} config - The animation configuration
+	 * @param {GSAPVars}        vars   - The prepared tween vars
+	 */
+	public getEndState( config: AnimationConfig, vars: GSAPVars ): GSAPVars | null {
+		const isEntrance = 'pageload' === config.trigger || 'scroll' === config.trigger;
+
+		if ( ! isEntrance || 'from' === config.type ) {
+			return null;
+		}
+
+		return this.stripTiming( vars );
+	}
+
+	private createFadePlan( config: AnimationConfig, vars: GSAPVars ): MotionPlan {
+		const timing = this.pickTiming( vars );
+
+		if ( 'from' === config.type ) {
+			return { type: 'from', vars: { ...timing, opacity: 0 }, fromVars: {} };
+		}
+
+		if ( 'set' === config.type ) {
+			return { type: 'set', vars, fromVars: {} };
+		}
+
+		const endState = this.stripTiming( vars );
+
+		return {
+			type: 'fromTo',
+			fromVars: { ...endState, opacity: 0 },
+			vars: { ...timing, ...endState, opacity: endState.opacity ?? 1 },
+		};
+	}
+
+	private stripTiming( vars: GSAPVars ): GSAPVars {
+		return Object.fromEntries( Object.entries( vars ).filter( ( [ key ] ) => ! TIMING_KEYS.includes( key ) ) );
+	}
+
+	private pickTiming( vars: GSAPVars ): GSAPVars {
+		return Object.fromEntries( Object.entries( vars ).filter( ( [ key ] ) => TIMING_KEYS.includes( key ) ) );
+	}
+
+	private unsubscribe( listener: ( reduced: boolean ) => void ): void {
+		this.listeners.delete( listener );
+
+		if ( 0 === this.listeners.size ) {
+			this.mediaQuery?.removeEventListener( 'change', this.handleChange );
+		}
+	}
+}
@@ -0,0 +1,322 @@
+/**
+ * Text splitter
+ *
+ * Wraps the text of an element in character, word or line spans so each
+ * piece can be animated on its own. Inline markup such as links and
+ * <strong> is preserved on copies of the original nodes, screen readers
+ * get the original text from a visually hidden copy, and revert() puts
+ * the original nodes back.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { TextSplitMode } from '../types/animation';
+
+const PIECE_CLASSES: Record<TextSplitMode, string> = {
+	chars: 'gsap-split-char',
+	words: 'gsap-split-word',
+	lines: 'gsap-split-line',
+};
+
+const SCREEN_READER_CLASS = 'gsap-split-sr-text';
+const INTERACTIVE_SELECTOR = 'a, button, label, summary, [tabindex], [role="button"], [role="link"]';
+const SKIPPED_TAGS = [ 'SCRIPT', 'STYLE', 'SVG', 'TEXTAREA' ];
+const RESIZE_DEBOUNCE = 200;
+
+interface SplitLeaf {
+	node: Node;
+	ancestors: Element[];
+	line: number;
+}
+
+export class TextSplitter {
+	private element: HTMLElement;
+	private mode: TextSplitMode;
+	private originalNodes: Node[];
+	private originalText: string;
+	private pieces: HTMLElement[] = [];
+	private onResplit?: ( pieces: HTMLElement[] ) => void;
+	private resizeTimer: number | null = null;
+	private lastWidth: number = 0;
+	private handleResize = (): void => {
+		if ( null !== this.resizeTimer ) {
+			window.clearTimeout( this.resizeTimer );
+		}
+
+		this.resizeTimer = window.setTimeout( () => this.resplit(), RESIZE_DEBOUNCE );
+	};
+
+	/**
+	 * Split an element right away
+	 *
+	 * Line splits depend on the layout, so they are redone when the
+	 * element width changes and handed to the resplit callback.
+	 *
+	 * @param {HTMLElement} element   - The element whose text is split
+	 * @param {string}      mode      - Split into chars, words or lines
+	 * @param {Function}    onResplit - Called with the new pieces after a line resplit
+	 */
+	constructor( element: HTMLElement, mode: TextSplitMode, onResplit?: ( pieces: HTMLElement[] ) => void ) {
+		this.element = element;
+		this.mode = mode;
+		this.onResplit = onResplit;
+		this.originalNodes = Array.from( element.childNodes );
+		this.originalText = ( element.textContent || '' ).replace( /\s+/g, ' ' ).trim();
+
+		this.split();
+
+		if ( 'lines' === mode ) {
+			this.lastWidth = element.clientWidth;
+			window.addEventListener( 'resize', this.handleResize );
+		}
+	}
+
+	/**
+	 * Get the spans to animate
+	 */
+	public getPieces(): HTMLElement[] {
+		return this.pieces;
+	}
+
+	/**
+	 * Put the original nodes back in place of the pieces and the screen
+	 * reader copy, and stop watching for resizes
+	 */
+	public revert(): void {
+		if ( null !== this.resizeTimer ) {
+			window.clearTimeout( this.resizeTimer );
+			this.resizeTimer = null;
+		}
+
+		window.removeEventListener( 'resize', this.handleResize );
+
+		this.element.replaceChildren( ...this.originalNodes );
+		this.element.removeAttribute( 'data-gsap-split' );
+		this.pieces = [];
+	}
+
+	/**
+	 * Split copies of the original nodes, so revert() can put the originals
+	 * back with their listeners and references intact
+	 */
+	private split(): void {
+		this.element.replaceChildren( ...this.originalNodes.map( ( node ) => node.cloneNode( true ) ) );
+		this.splitWords( this.element );
+
+		if ( 'lines' === this.mode ) {
+			this.groupLines();
+		}
+
+		this.pieces = Array.from( this.element.querySelectorAll<HTMLElement>( '.' + PIECE_CLASSES[ this.mode ] ) );
+		this.element.setAttribute( 'data-gsap-split', this.mode );
+		this.element.appendChild( this.createScreenReaderText() );
+	}
+
+	private resplit(): void {
+		this.resizeTimer = null;
+
+		if ( this.element.clientWidth === this.lastWidth ) {
+			return;
+		}
+
+		this.lastWidth = this.element.clientWidth;
+		this.split();
+		this.onResplit?.( this.pieces );
+	}
+
+	private splitWords( node: Node ): void {
+		Array.from( node.childNodes ).forEach( ( child ) => {
+			if ( Node.TEXT_NODE === child.nodeType ) {
+				this.splitTextNode( child as Text );
+			} else if ( Node.ELEMENT_NODE === child.nodeType && ! this.isSkipped( child as Element ) ) {
+				this.splitWords( child );
+			}
+		} );
+	}
+
+	private splitTextNode( textNode: Text ): void {
+		const fragment = document.createDocumentFragment();
+		const interactive = textNode.parentElement?.closest( INTERACTIVE_SELECTOR );
+		const isHidden = ! interactive || ! this.element.contains( interactive );
+
+		if ( interactive && ! isHidden ) {
+			this.labelInteractive( interactive );
+		}
+
+		( textNode.textContent || '' ).split( /(\s+)/ ).forEach( ( part ) => {
+			if ( '' === part ) {
+				return;
+			}
+
+			fragment.appendChild( /^\s+$/.test( part ) ? document.createTextNode( part ) : this.createWord( part, isHidden ) );
+		} );
+
+		textNode.replaceWith( fragment );
+	}
+
+	/**
+	 * Name a link or button by its text before the text is split
+	 *
+	 * Its words stay readable, as hiding them would leave a focusable
+	 * element without a name, and the label keeps split characters from
+	 * being read one by one.
+	 *
+	 * @param {Element} interactive - The link or button inside the split element
+	 */
+	private labelInteractive( interactive: Element ): void {
+		if ( interactive.hasAttribute( 'aria-label' ) || interactive.hasAttribute( 'aria-labelledby' ) ) {
+			return;
+		}
+
+		interactive.setAttribute( 'aria-label', ( interactive.textContent || '' ).replace( /\s+/g, ' ' ).trim() );
+	}
+
+	/**
+	 * Create a word span, split into characters in chars mode
+	 *
+	 * Words are hidden from screen readers, which read the visually hidden
+	 * copy instead, unless they belong to a link or button.
+	 *
+	 * @param {string}  text     - The word
+	 * @param {boolean} isHidden - Whether to hide the word from screen readers
+	 */
+	private createWord( text: string, isHidden: boolean ): HTMLElement {
+		const word = this.createPiece( 'words' );
+
+		if ( 'chars' === this.mode ) {
+			Array.from( text ).forEach( ( char ) => {
+				const piece = this.createPiece( 'chars' );
+				piece.textContent = char;
+				word.appendChild( piece );
+			} );
+		} else {
+			word.textContent = text;
+		}
+
+		if ( isHidden ) {
+			word.setAttribute( 'aria-hidden', 'true' );
+		}
+
+		return word;
+	}
+
+	private createPiece( mode: TextSplitMode ): HTMLElement {
+		const piece = document.createElement( 'span' );
+
+		piece.className = PIECE_CLASSES[ mode ];
+		piece.style.display = 'lines' === mode ? 'block' : 'inline-block';
+
+		return piece;
+	}
+
+	/**
+	 * Regroup the word spans into one block span per rendered line
+	 *
+	 * Inline elements spanning several lines are cloned into each line
+	 * so the markup around every word is kept.
+	 */
+	private groupLines(): void {
+		const leaves = this.collectLeaves( this.element, [] );
+		const lines: HTMLElement[] = [];
+		const usedAncestors: Set<Element> = new Set();
+		let clones: Map<Element, Element> = new Map();
+
+		this.assignLines( leaves );
+
+		leaves.forEach( ( leaf ) => {
+			if ( ! lines[ leaf.line ] ) {
+				lines[ leaf.line ] = this.createPiece( 'lines' );
+				clones = new Map();
+			}
+
+			let parent: Element = lines[ leaf.line ];
+
+			leaf.ancestors.forEach( ( ancestor ) => {
+				let clone = clones.get( ancestor );
+
+				if ( ! clone ) {
+					clone = ancestor.cloneNode( false ) as Element;
+
+					if ( usedAncestors.has( ancestor ) ) {
+						clone.removeAttribute( 'id' );
+					}
+
+					usedAncestors.add( ancestor );
+					clones.set( ancestor, clone );
+					parent.appendChild( clone );
+				}
+
+				parent = clone;
+			} );
+
+			parent.appendChild( leaf.node );
+		} );
+
+		this.element.replaceChildren( ...lines.filter( Boolean ) );
+	}
+
+	private collectLeaves( node: Node, ancestors: Element[] ): SplitLeaf[] {
+		return Array.from( node.childNodes ).flatMap( ( child ) => {
+			const isWord = child instanceof HTMLElement && child.classList.contains( PIECE_CLASSES.words );
+
+			if ( child instanceof Element && ! isWord && ! this.isSkipped( child ) && child.hasChildNodes() ) {
+				return this.collectLeaves( child, [ ...ancestors, child ] );
+			}
+
+			return [ { node: child, ancestors, line: 0 } ];
+		} );
+	}
+
+	/**
+	 * Assign a line index to every leaf based on the rendered word positions
+	 *
+	 * A word starts a new line once its vertical center falls below the
+	 * bottom of the current line; other leaves stay on the current line.
+	 *
+	 * @param {SplitLeaf[]} leaves - The leaves in document order
+	 */
+	private assignLines( leaves: SplitLeaf[] ): void {
+		let line = 0;
+		let lineBottom: number | null = null;
+
+		leaves.forEach( ( leaf ) => {
+			if ( leaf.node instanceof HTMLElement && leaf.node.classList.contains( PIECE_CLASSES.words ) ) {
+				const rect = leaf.node.getBoundingClientRect();
+
+				if ( null !== lineBottom && rect.top + ( rect.height / 2 ) > lineBottom ) {
+					line++;
+					lineBottom = null;
+				}
+
+				lineBottom = Math.max( lineBottom ?? rect.bottom, rect.bottom );
+			}
+
+			leaf.line = line;
+		} );
+	}
+
+	private createScreenReaderText(): HTMLElement {
+		const text = document.createElement( 'span' );
+
+		text.className = SCREEN_READER_CLASS;
+		text.textContent = this.originalText;
+		Object.assign( text.style, {
+			position: 'absolute',
+			width: '1px',
+			height: '1px',
+			padding: '0',
+			margin: '-1px',
+			overflow: 'hidden',
+			clip: 'rect(0, 0, 0, 0)',
+			whiteSpace: 'nowrap',
+			border: '0',
+		} );
+
+		return text;
+	}
+
+	private isSkipped( element: Element ): boolean {
+		return SKIPPED_TAGS.includes( element.tagName.toUpperCase() ) || element.classList.contains( SCREEN_READER_CLASS );
+	}
+}
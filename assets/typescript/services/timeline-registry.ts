@@ -0,0 +1,390 @@
+/**
+ * Frontend timeline registry
+ *
+ * Collects blocks that create or join a timeline and builds one master
+ * GSAP timeline per timeline ID, started by the owner block's trigger.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig, TimelineConfig } from '../types/animation';
+import type { GSAPPosition, GSAPTarget, GSAPTimeline, GSAPVars, ScrollTrigger } from '../types/gsap';
+import { buildScrollTriggerVars } from '../utils/scroll-trigger';
+import { hasAnimationProperties } from '../utils/animation-properties';
+import { resolveClickSource } from '../utils/click';
+import { HoverInteraction } from './hover-interaction';
+import { ClickInteraction } from './click-interaction';
+import { TriggerWatcher } from './trigger-watcher';
+import { bindLifecycleEvents } from '../utils/lifecycle-events';
+
+export interface TimelineMember {
+	element: Element;
+	config: AnimationConfig;
+	target: GSAPTarget;
+	vars: GSAPVars;
+	fromVars?: GSAPVars;
+}
+
+interface MasterTimeline {
+	id: string;
+	owner: TimelineMember;
+	children: TimelineMember[];
+	timeline: GSAPTimeline;
+	scrollTrigger?: ScrollTrigger;
+	cleanup: Array<() => void>;
+}
+
+export class TimelineRegistry {
+	private owners: Map<string, TimelineMember> = new Map();
+	private members: TimelineMember[] = [];
+	private timelines: Map<string, MasterTimeline> = new Map();
+
+	/**
+	 * Check whether a configuration creates or joins a timeline
+	 * @param {AnimationConfig} config - The animation configuration
+	 */
+	public static isTimelineConfig( config: AnimationConfig ): boolean {
+		return TimelineRegistry.isOwner( config.timeline ) || TimelineRegistry.isMember( config.timeline );
+	}
+
+	private static isOwner( timeline?: TimelineConfig ): timeline is TimelineConfig & { timelineId: string } {
+		return !! timeline?.isTimeline && !! timeline.timelineId;
+	}
+
+	private static isMember( timeline?: TimelineConfig ): timeline is TimelineConfig & { parentTimelineId: string } {
+		return !! timeline && ! timeline.isTimeline && !! timeline.parentTimelineId;
+	}
+
+	/**
+	 * Register a block with the registry
+	 *
+	 * Returns false when the block is not part of any timeline, in which
+	 * case the caller animates it on its own.
+	 *
+	 * @param {TimelineMember} member - The block and its prepared tween data
+	 */
+	public register( member: TimelineMember ): boolean {
+		const timeline = member.config.timeline;
+
+		if ( TimelineRegistry.isOwner( timeline ) ) {
+			this.owners.set( timeline.timelineId, member );
+			return true;
+		}
+
+		if ( TimelineRegistry.isMember( timeline ) ) {
+			this.members.push( member );
+			return true;
+		}
+
+		return false;
+	}
+
+	/**
+	 * Build a master timeline for every registered owner
+	 *
+	 * Members that join a timeline which is already built, e.g. blocks
+	 * added to the page later, are added to it. Members whose timeline
+	 * owner is not on the page are handed back through the orphan
+	 * callback so they still animate on their own.
+	 *
+	 * @param {Function} onOrphan - Called for members without a timeline owner
+	 */
+	public build( onOrphan: ( member: TimelineMember ) => void ): void {
+		const sortedMembers = this.sortByDocumentOrder( this.members );
+
+		this.owners.forEach( ( owner, timelineId ) => {
+			if ( this.timelines.has( timelineId ) ) {
+				return;
+			}
+
+			const children = sortedMembers.filter( ( member ) => member.config.timeline?.parentTimelineId === timelineId );
+			this.timelines.set( timelineId, this.createMasterTimeline( timelineId, owner, children ) );
+		} );
+
+		const unbuilt = sortedMembers.filter( ( member ) => ! this.owners.has( member.config.timeline?.parentTimelineId || '' ) );
+
+		this.timelines.forEach( ( master ) => {
+			const joining = unbuilt.filter( ( member ) => member.config.timeline?.parentTimelineId === master.id );
+
+			if ( joining.length > 0 ) {
+				this.rebuildMaster( master, this.sortByDocumentOrder( [ ...master.children, ...joining ] ) );
+			}
+		} );
+
+		unbuilt
+			.filter( ( member ) => ! this.timelines.has( member.config.timeline?.parentTimelineId || '' ) )
+			.forEach( onOrphan );
+
+		this.owners.clear();
+		this.members = [];
+	}
+
+	/**
+	 * Get a built master timeline by ID
+	 * @param {string} timelineId - The timeline ID
+	 */
+	public getTimeline( timelineId: string ): GSAPTimeline | undefined {
+		return this.timelines.get( timelineId )?.timeline;
+	}
+
+	/**
+	 * Get the built master timelines, only those a block owns when given
+	 * @param {Element} owner - The owner block element
+	 */
+	public getTimelines( owner?: Element ): GSAPTimeline[] {
+		return Array.from( this.timelines.values() )
+			.filter( ( master ) => ! owner || master.owner.element === owner )
+			.map( ( master ) => master.timeline );
+	}
+
+	/**
+	 * Get the owner block of a built master timeline
+	 * @param {string} timelineId - The timeline ID
+	 */
+	public getOwnerElement( timelineId: string ): Element | undefined {
+		return this.timelines.get( timelineId )?.owner.element;
+	}
+
+	/**
+	 * Get the built master timelines an animation owns or belongs to
+	 * @param {string} animationId - The animation ID
+	 */
+	public getMemberTimelines( animationId: string ): GSAPTimeline[] {
+		return Array.from( this.timelines.values() )
+			.filter( ( master ) => [ master.owner, ...master.children ].some( ( member ) => member.config.id === animationId ) )
+			.map( ( master ) => master.timeline );
+	}
+
+	/**
+	 * Point a block's tweens at new targets and rebuild its master timelines
+	 *
+	 * Used when the animated elements are replaced, e.g. after text is
+	 * split into lines again. Rebuilt timelines resume at the progress of
+	 * the old ones. Returns false when the block is in no built timeline.
+	 *
+	 * @param {Element}  element       - The block element
+	 * @param {Function} resolveTarget - Resolves the new target of each of the block's members
+	 */
+	public retarget( element: Element, resolveTarget: ( member: TimelineMember ) => GSAPTarget ): boolean {
+		const masters = Array.from( this.timelines.values() ).filter( ( candidate ) => {
+			return [ candidate.owner, ...candidate.children ].some( ( member ) => member.element === element );
+		} );
+
+		masters.forEach( ( master ) => {
+			[ master.owner, ...master.children ]
+				.filter( ( member ) => member.element === element )
+				.forEach( ( member ) => {
+					member.target = resolveTarget( member );
+				} );
+
+			this.rebuildMaster( master, master.children );
+		} );
+
+		return masters.length > 0;
+	}
+
+	/**
+	 * Revert the master timelines a block owns or belongs to
+	 *
+	 * Used when the block is removed from the page or rebuilt. The other
+	 * members of those timelines are registered again, so the next build()
+	 * rebuilds the timelines without the block, or with it when it
+	 * registers again first. Children left without their owner animate on
+	 * their own.
+	 *
+	 * @param {Element} element - The block element
+	 */
+	public destroyFor( element: Element ): void {
+		this.forgetPending( element );
+
+		this.timelines.forEach( ( master, timelineId ) => {
+			if ( ! [ master.owner, ...master.children ].some( ( member ) => member.element === element ) ) {
+				return;
+			}
+
+			this.destroyMaster( master );
+			this.timelines.delete( timelineId );
+
+			if ( master.owner.element !== element ) {
+				this.owners.set( timelineId, master.owner );
+			}
+
+			this.members.push( ...master.children.filter( ( member ) => member.element !== element ) );
+		} );
+	}
+
+	/**
+	 * Revert all master timelines and release their triggers
+	 */
+	public destroyAll(): void {
+		this.timelines.forEach( ( master ) => this.destroyMaster( master ) );
+
+		this.timelines.clear();
+		this.owners.clear();
+		this.members = [];
+	}
+
+	/**
+	 * Drop the registrations of a block that are waiting for build()
+	 * @param {Element} element - The block element
+	 */
+	private forgetPending( element: Element ): void {
+		this.owners.forEach( ( owner, timelineId ) => {
+			if ( owner.element === element ) {
+				this.owners.delete( timelineId );
+			}
+		} );
+
+		this.members = this.members.filter( ( member ) => member.element !== element );
+	}
+
+	/**
+	 * Build a master timeline again with the given children
+	 *
+	 * The rebuilt timeline resumes at the progress of the old one.
+	 *
+	 * @param {MasterTimeline}   master   - The built master timeline
+	 * @param {TimelineMember[]} children - The members to sequence after the owner
+	 */
+	private rebuildMaster( master: MasterTimeline, children: TimelineMember[] ): void {
+		const progress = master.timeline.progress();
+		this.destroyMaster( master );
+
+		const rebuilt = this.createMasterTimeline( master.id, master.owner, children );
+		rebuilt.timeline.progress( progress );
+		this.timelines.set( master.id, rebuilt );
+	}
+
+	private destroyMaster( master: MasterTimeline ): void {
+		master.cleanup.forEach( ( cleanup ) => cleanup() );
+		// Revert so a pinned owner leaves its pin spacer
+		master.scrollTrigger?.kill( true );
+		master.timeline.revert();
+	}
+
+	private createMasterTimeline( timelineId: string, owner: TimelineMember, children: TimelineMember[] ): MasterTimeline {
+		const timeline = window.gsap.timeline( { paused: true } ) as GSAPTimeline;
+		const master: MasterTimeline = { id: timelineId, owner, children, timeline, cleanup: [] };
+
+		bindLifecycleEvents( timeline, owner.element, { animationId: owner.config.id, timelineId } );
+
+		if ( hasAnimationProperties( owner.vars ) ) {
+			this.addMemberToTimeline( timeline, owner, 0 );
+		}
+
+		children.forEach( ( child ) => {
+			this.addMemberToTimeline( timeline, child, this.resolvePosition( child.config.timeline ) );
+		} );
+
+		this.bindOwnerTrigger( master, owner );
+
+		return master;
+	}
+
+	private addMemberToTimeline( timeline: GSAPTimeline, member: TimelineMember, position?: GSAPPosition ): void {
+		switch ( member.config.type ) {
+			case 'to':
+				timeline.to( member.target, member.vars, position );
+				break;
+			case 'from':
+				timeline.from( member.target, member.vars, position );
+				break;
+			case 'fromTo':
+				timeline.fromTo( member.target, member.fromVars || {}, member.vars, position );
+				break;
+			case 'set':
+				timeline.set( member.target, member.vars, position );
+				break;
+		}
+	}
+
+	/**
+	 * Map the stored timeline position onto a GSAP position parameter
+	 *
+	 * An undefined position appends the tween to the end of the timeline.
+	 *
+	 * @param {TimelineConfig} timeline - The member's timeline configuration
+	 */
+	private resolvePosition( timeline?: TimelineConfig ): GSAPPosition | undefined {
+		const position = timeline?.timelinePosition || 'start';
+
+		switch ( position ) {
+			case 'start':
+				return 0;
+			case 'end':
+				return undefined;
+			case 'custom':
+				return this.parseCustomPosition( timeline?.customPosition );
+			default:
+				return position;
+		}
+	}
+
+	private parseCustomPosition( customPosition?: string ): GSAPPosition | undefined {
+		const value = customPosition?.trim();
+
+		if ( ! value ) {
+			return undefined;
+		}
+
+		return /^\d+(\.\d+)?$/.test( value ) ? parseFloat( value ) : value;
+	}
+
+	private bindOwnerTrigger( master: MasterTimeline, owner: TimelineMember ): void {
+		const { timeline } = master;
+		const element = owner.element;
+
+		switch ( owner.config.trigger ) {
+			case 'pageload':
+				timeline.play();
+				break;
+			case 'scroll':
+				if ( 'undefined' === typeof window.ScrollTrigger ) {
+					timeline.play();
+					break;
+				}
+				master.scrollTrigger = window.ScrollTrigger.create( {
+					...buildScrollTriggerVars( element, owner.config ),
+					animation: timeline,
+				} ) as ScrollTrigger;
+				break;
+			case 'click': {
+				const source = resolveClickSource( element, owner.config );
+				const interaction = new ClickInteraction( timeline, owner.config );
+				master.cleanup.push( () => interaction.destroy() );
+				if ( source ) {
+					this.addListener( master, source, 'click', () => interaction.click() );
+				}
+				break;
+			}
+			case 'hover': {
+				const interaction = new HoverInteraction( timeline, owner.target, owner.config );
+				master.cleanup.push( () => interaction.destroy() );
+				this.addListener( master, element, 'mouseenter', () => interaction.enter() );
+				this.addListener( master, element, 'mouseleave', () => interaction.leave() );
+				break;
+			}
+			default:
+				if ( TriggerWatcher.supports( owner.config ) ) {
+					const watcher = new TriggerWatcher( element, timeline, owner.config );
+					master.cleanup.push( () => watcher.destroy() );
+				}
+		}
+	}
+
+	private addListener( master: MasterTimeline, element: Element, type: string, listener: () => void ): void {
+		element.addEventListener( type, listener );
+		master.cleanup.push( () => element.removeEventListener( type, listener ) );
+	}
+
+	private sortByDocumentOrder( members: TimelineMember[] ): TimelineMember[] {
+		return [ ...members ].sort( ( a, b ) => {
+			if ( a.element === b.element ) {
+				return 0;
+			}
+			// eslint-disable-next-line no-bitwise
+			return a.element.compareDocumentPosition( b.element ) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+		} );
+	}
+}
@@ -0,0 +1,257 @@
+/**
+ * Trigger watcher
+ *
+ * Plays a paused timeline when the page reaches the state a watched
+ * trigger waits for: the block leaving the viewport, receiving focus, a
+ * custom event on document, the visitor going idle or the URL hash
+ * matching. Where the state can end again the timeline is reversed.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig, EventTriggerAction } from '../types/animation';
+import type { GSAPTimeline } from '../types/gsap';
+import { getTriggerOptions, isWatchedTrigger, normalizeHash } from '../utils/triggers';
+
+const ACTIVITY_EVENTS = [ 'pointermove', 'pointerdown', 'keydown', 'scroll', 'wheel', 'touchstart' ];
+
+export class TriggerWatcher {
+	private element: Element;
+	private timeline: GSAPTimeline;
+	private config: AnimationConfig;
+	private cleanup: Array<() => void> = [];
+	private played: boolean = false;
+
+	/**
+	 * Start watching right away
+	 * @param {Element}         element  - The animated block element
+	 * @param {GSAPTimeline}    timeline - The paused timeline to drive
+	 * @param {AnimationConfig} config   - The animation configuration
+	 */
+	constructor( element: Element, timeline: GSAPTimeline, config: AnimationConfig ) {
+		this.element = element;
+		this.timeline = timeline;
+		this.config = config;
+
+		this.watch();
+	}
+
+	/**
+	 * Check whether a configuration uses a watched trigger
+	 * @param {AnimationConfig} config - The animation configuration
+	 */
+	public static supports( config: AnimationConfig ): boolean {
+		return isWatchedTrigger( config.trigger );
+	}
+
+	/**
+	 * Stop watching and remove all listeners
+	 */
+	public destroy(): void {
+		this.cleanup.forEach( ( cleanup ) => cleanup() );
+		this.cleanup = [];
+	}
+
+	private watch(): void {
+		switch ( this.config.trigger ) {
+			case 'exit':
+				this.watchExit();
+				break;
+			case 'focus':
+				this.watchFocus();
+				break;
+			case 'event':
+				this.watchEvent();
+				break;
+			case 'idle':
+				this.watchIdle();
+				break;
+			case 'hash':
+				this.watchHash();
+				break;
+			default:
+				// Not a watched trigger
+		}
+	}
+
+	/**
+	 * Play once the block has been seen and then scrolled out of view
+	 */
+	private watchExit(): void {
+		if ( 'undefined' === typeof IntersectionObserver ) {
+			return;
+		}
+
+		const options = getTriggerOptions( this.config, 'exit' );
+		let seen = false;
+
+		const observer = new IntersectionObserver( ( entries ) => {
+			entries.forEach( ( entry ) => {
+				if ( entry.isIntersecting ) {
+					if ( seen && this.played && ! options.once ) {
+						this.reverse();
+					}
+					seen = true;
+				} else if ( seen ) {
+					this.play();
+
+					if ( options.once ) {
+						observer.disconnect();
+					}
+				}
+			} );
+		} );
+
+		observer.observe( this.element );
+		this.cleanup.push( () => observer.disconnect() );
+	}
+
+	/**
+	 * Play while the block, or with focus-within anything inside it, has focus
+	 */
+	private watchFocus(): void {
+		const options = getTriggerOptions( this.config, 'focus' );
+		const enterType = options.within ? 'focusin' : 'focus';
+		const leaveType = options.within ? 'focusout' : 'blur';
+
+		this.listen( this.element, enterType, ( event ) => {
+			const target = event.target as Element;
+
+			if ( ! options.keyboardOnly || this.isFocusVisible( target ) ) {
+				this.play();
+			}
+		} );
+
+		this.listen( this.element, leaveType, ( event ) => {
+			const next = ( event as FocusEvent ).relatedTarget as Node | null;
+
+			// Moving focus between children keeps focus-within
+			if ( options.within && next && this.element.contains( next ) ) {
+				return;
+			}
+
+			this.reverse();
+		} );
+	}
+
+	/**
+	 * Apply the configured action whenever the named event fires on document
+	 */
+	private watchEvent(): void {
+		const options = getTriggerOptions( this.config, 'event' );
+		const name = options.name.trim();
+
+		if ( '' === name ) {
+			return;
+		}
+
+		this.listen( document, name, () => this.runAction( options.action ) );
+	}
+
+	/**
+	 * Play after the visitor has been inactive for the configured delay
+	 */
+	private watchIdle(): void {
+		const options = getTriggerOptions( this.config, 'idle' );
+		let timer: number | null = null;
+
+		const restartTimer = () => {
+			if ( null !== timer ) {
+				window.clearTimeout( timer );
+			}
+
+			timer = window.setTimeout( () => this.play(), Math.max( 0, options.delay ) * 1000 );
+		};
+
+		const handleActivity = () => {
+			if ( this.played && options.reverseOnActivity ) {
+				this.reverse();
+			}
+
+			restartTimer();
+		};
+
+		ACTIVITY_EVENTS.forEach( ( type ) => this.listen( window, type, handleActivity, { passive: true } ) );
+		this.cleanup.push( () => {
+			if ( null !== timer ) {
+				window.clearTimeout( timer );
+			}
+		} );
+
+		restartTimer();
+	}
+
+	/**
+	 * Play while the URL hash matches, checking on load and on every change
+	 */
+	private watchHash(): void {
+		const options = getTriggerOptions( this.config, 'hash' );
+		const hash = normalizeHash( options.hash );
+
+		if ( '' === hash ) {
+			return;
+		}
+
+		const check = () => {
+			if ( normalizeHash( window.location.hash ) === hash ) {
+				this.play();
+			} else if ( this.played && options.reverseOnChange ) {
+				this.reverse();
+			}
+		};
+
+		this.listen( window, 'hashchange', check );
+		check();
+	}
+
+	private runAction( action: EventTriggerAction ): void {
+		switch ( action ) {
+			case 'restart':
+				this.timeline.restart();
+				this.played = true;
+				break;
+			case 'reverse':
+				this.reverse();
+				break;
+			case 'toggle':
+				if ( this.played ) {
+					this.reverse();
+				} else {
+					this.play();
+				}
+				break;
+			default:
+				this.play();
+		}
+	}
+
+	private play(): void {
+		this.played = true;
+		this.timeline.play();
+	}
+
+	private reverse(): void {
+		this.played = false;
+		this.timeline.reverse();
+	}
+
+	private isFocusVisible( target: Element ): boolean {
+		try {
+			return target.matches( ':focus-visible' );
+		} catch ( error ) {
+			// Browsers without :focus-visible cannot tell keyboard focus apart
+			return true;
+		}
+	}
+
+	private listen(
+		target: EventTarget,
+		type: string,
+		listener: ( event: Event ) => void,
+		options?: AddEventListenerOptions,
+	): void {
+		target.addEventListener( type, listener, options );
+		this.cleanup.push( () => target.removeEventListener( type, listener, options ) );
+	}
+}
@@ -6,8 +6,24 @@
  */
 
 export type AnimationType = 'to' | 'from' | 'fromTo' | 'set';
-export type TriggerType = 'pageload' | 'scroll' | 'click' | 'hover';
-export type EaseType = 'none' | 'power1.out' | 'power2.out' | 'power3.out' | 'back.out' | 'elastic.out' | 'bounce.out';
+export type TriggerType = 'pageload' | 'scroll' | 'click' | 'hover' | 'exit' | 'focus' | 'event' | 'idle' | 'hash' | 'pointer';
+export type ReducedMotionPolicy = 'skip' | 'fade' | 'keep';
+export type EaseFamily = 'none' | 'power0' | 'power1' | 'power2' | 'power3' | 'power4' | 'sine' | 'expo' | 'circ' | 'back' | 'elastic' | 'bounce' | 'steps' | 'custom';
+export type EaseDirection = 'in' | 'out' | 'inOut';
+
+export interface EaseDescriptor {
+	family: EaseFamily;
+	direction: EaseDirection;
+	overshoot?: number;
+	amplitude?: number;
+	period?: number;
+	steps?: number;
+}
+
+/**
+ * A structured ease, or a GSAP ease string as stored by older versions
+ */
+export type EaseType = EaseDescriptor | string;
 
 export interface TransformProperties {
 	x?: number | string;
@@ -45,12 +61,19 @@ export interface PositionProperties {
 	bottom?: number | string;
 }
 
+export type BezierPoints = [ number, number, number, number ];
+
+export interface CustomEase {
+	bezier: BezierPoints;
+}
+
 export interface TimingProperties {
 	duration: number;
 	delay: number;
 	repeat: number;
 	yoyo: boolean;
 	ease: EaseType;
+	customEase?: CustomEase;
 }
 
 export interface AnimationProperties extends TransformProperties, AppearanceProperties, SizeProperties, PositionProperties {
@@ -68,15 +91,162 @@ export interface TimelineConfig {
 	scrollEnd?: string;
 }
 
+export type ScrollToggleAction = 'play' | 'pause' | 'resume' | 'reverse' | 'restart' | 'reset' | 'complete' | 'none';
+
+export interface ScrollToggleActions {
+	onEnter: ScrollToggleAction;
+	onLeave: ScrollToggleAction;
+	onEnterBack: ScrollToggleAction;
+	onLeaveBack: ScrollToggleAction;
+}
+
+export type ScrollMode = 'play' | 'parallax';
+export type ParallaxDirection = 'vertical' | 'horizontal';
+
+export interface ParallaxConfig {
+	speed: number;
+	direction: ParallaxDirection;
+	speeds?: number[];
+	clamp: boolean;
+}
+
+export interface PinConfig {
+	enabled: boolean;
+	duration: number;
+	pinSpacing: boolean;
+	anticipatePin: number;
+}
+
+export interface ScrollConfig {
+	mode: ScrollMode;
+	start: string;
+	end: string;
+	scrub: boolean | number;
+	toggleActions: ScrollToggleActions;
+	once: boolean;
+	markers: boolean;
+	parallax: ParallaxConfig;
+	pin: PinConfig;
+}
+
+export type StaggerMode = 'each' | 'amount';
+export type StaggerFrom = 'start' | 'center' | 'end' | 'edges' | 'random';
+
+export interface StaggerConfig {
+	enabled: boolean;
+	mode: StaggerMode;
+	value: number;
+	from: StaggerFrom;
+	grid: boolean;
+	ease: EaseType;
+}
+
+export type TextSplitMode = 'chars' | 'words' | 'lines';
+
+export interface ExitTriggerConfig {
+	once: boolean;
+}
+
+export interface FocusTriggerConfig {
+	within: boolean;
+	keyboardOnly: boolean;
+}
+
+export type EventTriggerAction = 'play' | 'restart' | 'reverse' | 'toggle';
+
+export interface EventTriggerConfig {
+	name: string;
+	action: EventTriggerAction;
+}
+
+export interface IdleTriggerConfig {
+	delay: number;
+	reverseOnActivity: boolean;
+}
+
+export interface HashTriggerConfig {
+	hash: string;
+	reverseOnChange: boolean;
+}
+
+/**
+ * Options of the triggers that watch page state, keyed by trigger
+ */
+export interface TriggerOptionsMap {
+	exit: ExitTriggerConfig;
+	focus: FocusTriggerConfig;
+	event: EventTriggerConfig;
+	idle: IdleTriggerConfig;
+	hash: HashTriggerConfig;
+}
+
+export type PointerEffectType = 'tilt' | 'magnetic' | 'parallax';
+
+export interface PointerConfig {
+	effect: PointerEffectType;
+	intensity: number;
+	smoothing: number;
+	ease: EaseType;
+	depths?: number[];
+}
+
+export type ClickMode = 'once' | 'restart' | 'toggle' | 'step';
+
+export interface ClickConfig {
+	mode: ClickMode;
+	source?: string;
+}
+
+export type HoverLeaveBehavior = 'reverse' | 'continue' | 'animate';
+
+export interface HoverConfig {
+	leave: HoverLeaveBehavior;
+	intentDelay: number;
+	leaveProperties?: Partial<AnimationProperties>;
+}
+
+export type BreakpointDevice = 'desktop' | 'tablet' | 'mobile';
+
+/**
+ * Settings that differ on one breakpoint
+ *
+ * Device breakpoints use the device name as their ID; custom breakpoints
+ * have a generated ID and their own media query. Properties and timing
+ * are merged over the animation's own values.
+ */
+export interface BreakpointOverride {
+	id: string;
+	query?: string;
+	disabled?: boolean;
+	properties?: Partial<AnimationProperties>;
+	fromProperties?: Partial<AnimationProperties>;
+	timing?: Partial<TimingProperties>;
+}
+
 export interface AnimationConfig {
+	version?: number;
 	id?: string;
 	enabled: boolean;
 	type: AnimationType;
 	trigger: TriggerType;
 	selector?: string;
+	textSplit?: TextSplitMode;
 	properties: Partial<AnimationProperties>;
+	fromProperties?: Partial<AnimationProperties>;
 	timing: TimingProperties;
 	timeline?: TimelineConfig;
+	scroll?: ScrollConfig;
+	stagger?: StaggerConfig;
+	click?: ClickConfig;
+	hover?: HoverConfig;
+	pointer?: PointerConfig;
+	exit?: ExitTriggerConfig;
+	focus?: FocusTriggerConfig;
+	event?: EventTriggerConfig;
+	idle?: IdleTriggerConfig;
+	hash?: HashTriggerConfig;
+	reducedMotion?: ReducedMotionPolicy;
+	breakpoints?: BreakpointOverride[];
 }
 
 export interface Animation {
@@ -96,7 +266,7 @@ export interface ValidationError {
 export interface ValidationResult {
 	isValid: boolean;
 	errors: ValidationError[];
-	warnings: string[];
+	warnings: ValidationError[];
 }
 
 export interface AnimationPreviewOptions {
@@ -0,0 +1,76 @@
+/**
+ * Public JavaScript API types
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { GSAPPosition } from './gsap';
+
+export type AnimationEventName = 'gsapba:start' | 'gsapba:complete' | 'gsapba:repeat' | 'gsapba:reverse-complete';
+
+export interface AnimationEventDetail {
+	blockId: string | null;
+	animationId?: string;
+	timelineId?: string;
+}
+
+export interface ControllableAnimation {
+	play: () => unknown;
+	pause: () => unknown;
+	reverse: () => unknown;
+	restart: () => unknown;
+	seek: ( position: GSAPPosition ) => unknown;
+	paused: () => boolean;
+	progress: {
+		(): number;
+		( value: number ): unknown;
+	};
+}
+
+export interface AnimationLookup {
+	element: Element | null;
+	animations: ControllableAnimation[];
+}
+
+export interface AnimationSource {
+	getAnimations: ( id: string ) => AnimationLookup | null;
+	pause: () => void;
+	resume: () => void;
+	reinitialize: () => void;
+	scan?: ( root?: ParentNode ) => void;
+	teardown?: ( root: ParentNode ) => void;
+}
+
+export interface AnimationHandle {
+	readonly id: string;
+	readonly element: Element | null;
+	play: () => AnimationHandle;
+	pause: () => AnimationHandle;
+	reverse: () => AnimationHandle;
+	restart: () => AnimationHandle;
+	seek: ( position: GSAPPosition ) => AnimationHandle;
+	progress: {
+		(): number;
+		( value: number ): AnimationHandle;
+	};
+}
+
+export interface GSAPBlockAnimatorApi {
+	readonly controller: AnimationSource;
+	get: ( id: string ) => AnimationHandle | null;
+	play: ( id: string ) => boolean;
+	pause: ( id: string ) => boolean;
+	reverse: ( id: string ) => boolean;
+	restart: ( id: string ) => boolean;
+	seek: ( id: string, position: GSAPPosition ) => boolean;
+	progress: {
+		( id: string ): number | null;
+		( id: string, value: number ): boolean;
+	};
+	pauseAll: () => void;
+	resumeAll: () => void;
+	reinitialize: () => void;
+	scan: ( root?: ParentNode ) => void;
+	teardown: ( root: ParentNode ) => void;
+}
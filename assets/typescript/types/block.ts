@@ -9,6 +9,8 @@ import type { AnimationConfig } from './animation';
 
 export interface BlockAttributes {
 	gsapAnimation?: AnimationConfig;
+	gsapAnimations?: AnimationConfig[];
+	gsapBlockRef?: string;
 	[key: string]: unknown;
 }
 
@@ -5,6 +5,8 @@
  * @since 2.0.0
  */
 
+import type { GSAPBlockAnimatorApi } from './api';
+
 declare global {
     interface Window {
         wp: {
@@ -23,23 +25,23 @@ declare global {
             from: ( target: unknown, vars: Record<string, unknown> ) => unknown;
             fromTo: ( target: unknown, fromVars: Record<string, unknown>, toVars: Record<string, unknown> ) => unknown;
             set: ( target: unknown, vars: Record<string, unknown> ) => unknown;
+            quickTo: ( target: unknown, property: string, vars?: Record<string, unknown> ) => ( value: number ) => void;
+            getProperty: ( target: unknown, property: string, unit?: string ) => number | string;
+            killTweensOf: ( target: unknown ) => void;
             registerPlugin: ( plugin: unknown ) => void;
         };
         ScrollTrigger: {
             create: ( config: Record<string, unknown> ) => unknown;
             refresh: () => void;
         };
-        GSAPBlockAnimator?: {
-            controller?: {
-                getAnimationService?: () => {
-                    destroyAll?: () => void;
-                };
-                reinitialize?: () => void;
-            };
-        };
+        GSAPBlockAnimator?: GSAPBlockAnimatorApi;
         gsapBlockAnimatorSettings?: {
             performanceMode: boolean;
             debugMode: boolean;
+            lazyMargin?: number;
+            pauseOffscreen?: boolean;
+            observeMutations?: boolean;
+            reducedMotionPolicy?: 'skip' | 'fade' | 'keep';
         };
     }
 }
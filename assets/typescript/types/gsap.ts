@@ -0,0 +1,64 @@
+/**
+ * GSAP runtime types used by the animation services
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+export type GSAPTarget = Element | NodeListOf<Element> | Element[];
+export type GSAPPosition = number | string;
+export type GSAPVars = Record<string, unknown>;
+
+export type GSAPTimeline = {
+	to: ( target: unknown, vars: GSAPVars, position?: GSAPPosition ) => GSAPTimeline;
+	from: ( target: unknown, vars: GSAPVars, position?: GSAPPosition ) => GSAPTimeline;
+	fromTo: ( target: unknown, fromVars: GSAPVars, toVars: GSAPVars, position?: GSAPPosition ) => GSAPTimeline;
+	set: ( target: unknown, vars: GSAPVars, position?: GSAPPosition ) => GSAPTimeline;
+	play: () => GSAPTimeline;
+	pause: () => GSAPTimeline;
+	resume: () => GSAPTimeline;
+	paused: () => boolean;
+	isActive: () => boolean;
+	invalidate: () => GSAPTimeline;
+	kill: () => void;
+	revert: () => GSAPTimeline;
+	eventCallback: {
+		( type: string ): ( () => void ) | null | undefined;
+		( type: string, callback: () => void ): GSAPTimeline;
+	};
+	restart: () => GSAPTimeline;
+	reverse: () => GSAPTimeline;
+	progress: {
+		(): number;
+		( value: number ): GSAPTimeline;
+	};
+	duration: () => number;
+	seek: ( position: GSAPPosition ) => GSAPTimeline;
+	tweenTo: ( position: GSAPPosition, vars?: GSAPVars ) => GSAPTween;
+};
+
+export type GSAPTween = {
+	kill: () => void;
+	scrollTrigger?: ScrollTrigger;
+	revert: () => GSAPTween;
+	play: () => GSAPTween;
+	pause: () => GSAPTween;
+	resume: () => GSAPTween;
+	reverse: () => GSAPTween;
+	restart: () => GSAPTween;
+	seek: ( position: GSAPPosition ) => GSAPTween;
+	paused: () => boolean;
+	isActive: () => boolean;
+	eventCallback: {
+		( type: string ): ( () => void ) | null | undefined;
+		( type: string, callback: () => void ): GSAPTween;
+	};
+	progress: {
+		(): number;
+		( value: number ): GSAPTween;
+	};
+};
+
+export type ScrollTrigger = {
+	kill: ( revert?: boolean ) => void;
+};
@@ -0,0 +1,121 @@
+/**
+ * Animation property pipeline
+ *
+ * Maps the declared AnimationProperties onto GSAP vars. Used by the editor
+ * preview and the frontend runtime so both animate exactly the same values.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig, AnimationProperties } from '../types/animation';
+import type { GSAPVars } from '../types/gsap';
+
+export const TRANSFORM_PROPERTY_KEYS: Array<keyof AnimationProperties> = [
+	'x',
+	'y',
+	'z',
+	'rotation',
+	'rotationX',
+	'rotationY',
+	'rotationZ',
+	'scale',
+	'scaleX',
+	'scaleY',
+	'scaleZ',
+	'skewX',
+	'skewY',
+];
+
+export const APPEARANCE_PROPERTY_KEYS: Array<keyof AnimationProperties> = [
+	'opacity',
+	'backgroundColor',
+	'borderColor',
+	'color',
+	'borderRadius',
+];
+
+export const SIZE_PROPERTY_KEYS: Array<keyof AnimationProperties> = [
+	'width',
+	'height',
+];
+
+export const POSITION_PROPERTY_KEYS: Array<keyof AnimationProperties> = [
+	'left',
+	'top',
+	'right',
+	'bottom',
+];
+
+export const ANIMATION_PROPERTY_KEYS: Array<keyof AnimationProperties> = [
+	...TRANSFORM_PROPERTY_KEYS,
+	...APPEARANCE_PROPERTY_KEYS,
+	...SIZE_PROPERTY_KEYS,
+	...POSITION_PROPERTY_KEYS,
+];
+
+/**
+ * Start values used by fromTo animations saved before explicit
+ * 'from' values could be configured
+ */
+export const DEFAULT_FROM_PROPERTIES: Partial<AnimationProperties> = {
+	x: 0,
+	y: 0,
+	rotation: 0,
+	scale: 1,
+	opacity: 1,
+};
+
+/**
+ * Check whether a stored property value should be animated
+ * @param {unknown} value - The stored property value
+ */
+function isAnimatableValue( value: unknown ): boolean {
+	if ( undefined === value || null === value ) {
+		return false;
+	}
+
+	if ( 'string' === typeof value ) {
+		return '' !== value.trim();
+	}
+
+	return 'number' !== typeof value || ! isNaN( value );
+}
+
+/**
+ * Map declared animation properties onto GSAP vars
+ * @param {Partial<AnimationProperties>} properties - The stored animation properties
+ */
+export function buildAnimationVars( properties?: Partial<AnimationProperties> ): GSAPVars {
+	const vars: GSAPVars = {};
+
+	if ( ! properties ) {
+		return vars;
+	}
+
+	ANIMATION_PROPERTY_KEYS.forEach( ( key ) => {
+		const value = properties[ key ];
+
+		if ( isAnimatableValue( value ) ) {
+			vars[ key ] = 'string' === typeof value ? value.trim() : value;
+		}
+	} );
+
+	return vars;
+}
+
+/**
+ * Map the 'from' values of a fromTo animation onto GSAP vars
+ * @param {AnimationConfig} config - The animation configuration
+ */
+export function buildFromVars( config: AnimationConfig ): GSAPVars {
+	return buildAnimationVars( config.fromProperties || DEFAULT_FROM_PROPERTIES );
+}
+
+/**
+ * Check whether GSAP vars contain at least one animated property
+ * @param {GSAPVars} vars - The GSAP vars
+ */
+export function hasAnimationProperties( vars: GSAPVars ): boolean {
+	return ANIMATION_PROPERTY_KEYS.some( ( key ) => vars[ key ] !== undefined );
+}
@@ -0,0 +1,135 @@
+/**
+ * Block animation list helpers
+ *
+ * Blocks store an ordered list of animations in `gsapAnimations`. Blocks
+ * saved before multiple animations were supported hold a single object in
+ * `gsapAnimation`, which is read as a one-item list until the block is
+ * edited and the list is written back. Animations are upgraded to the
+ * current schema version as they are read.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig, TimelineConfig } from '../types/animation';
+import type { BlockAttributes } from '../types/block';
+import { DEFAULT_EASE } from './ease';
+import { ANIMATION_CONFIG_VERSION, migrateAnimationConfig } from './config-migrations';
+
+const DEFAULT_TIMELINE_CONFIG: TimelineConfig = {
+	isTimeline: false,
+	timelineId: '',
+	timelineName: '',
+	timelinePosition: 'start',
+};
+
+/**
+ * Default animation configuration, shared by every panel
+ */
+export const DEFAULT_ANIMATION_CONFIG: AnimationConfig = {
+	version: ANIMATION_CONFIG_VERSION,
+	enabled: false,
+	type: 'to',
+	trigger: 'pageload',
+	properties: {},
+	timing: {
+		duration: 0.5,
+		delay: 0,
+		repeat: 0,
+		yoyo: false,
+		ease: DEFAULT_EASE,
+	},
+	timeline: DEFAULT_TIMELINE_CONFIG,
+};
+
+/**
+ * Create a disabled animation with default settings
+ * @param {Partial<AnimationConfig>} overrides - Settings to apply on top of the defaults
+ */
+export function createDefaultAnimationConfig( overrides: Partial<AnimationConfig> = {} ): AnimationConfig {
+	return {
+		...DEFAULT_ANIMATION_CONFIG,
+		id: createAnimationId(),
+		properties: {},
+		timing: { ...DEFAULT_ANIMATION_CONFIG.timing, ease: { ...DEFAULT_EASE } },
+		timeline: { ...DEFAULT_TIMELINE_CONFIG },
+		...overrides,
+	};
+}
+
+/**
+ * Create an ID that tells the animations of one block apart
+ */
+export function createAnimationId(): string {
+	return 'animation-' + Date.now().toString( 36 ) + Math.random().toString( 36 ).slice( 2, 6 );
+}
+
+/**
+ * Check whether a value looks like a stored animation configuration
+ * @param {unknown} value - The value to check
+ */
+export function isAnimationConfig( value: unknown ): value is AnimationConfig {
+	return isStoredObject( value ) && 'timing' in value;
+}
+
+/**
+ * Upgrade stored values to the current schema, skipping those that are not animations
+ *
+ * Values are migrated before they are checked, so old animations the
+ * migrations complete, e.g. ones without timing, are kept.
+ *
+ * @param {unknown[]} values - The stored values
+ */
+export function migrateStoredAnimations( values: unknown[] ): AnimationConfig[] {
+	return values
+		.filter( isStoredObject )
+		.map( ( value ) => migrateAnimationConfig( value as unknown as AnimationConfig ) )
+		.filter( isAnimationConfig );
+}
+
+function isStoredObject( value: unknown ): value is Record<string, unknown> {
+	return !! value && 'object' === typeof value && ! Array.isArray( value );
+}
+
+/**
+ * Get the ordered animation list of a block, reading legacy single-object attributes
+ * @param {BlockAttributes} attributes - The block attributes
+ */
+export function getBlockAnimations( attributes: BlockAttributes ): AnimationConfig[] {
+	if ( Array.isArray( attributes.gsapAnimations ) && attributes.gsapAnimations.length > 0 ) {
+		return migrateStoredAnimations( attributes.gsapAnimations );
+	}
+
+	const [ legacy ] = migrateStoredAnimations( [ attributes.gsapAnimation ] );
+
+	if ( legacy && ( legacy.enabled || Object.keys( legacy.properties || {} ).length > 0 ) ) {
+		return [ legacy ];
+	}
+
+	return [];
+}
+
+/**
+ * Build the attributes that store an animation list, dropping the legacy attribute
+ * @param {AnimationConfig[]} animations - The ordered animation list
+ */
+export function toBlockAttributes( animations: AnimationConfig[] ): Partial<BlockAttributes> {
+	return {
+		gsapAnimations: animations,
+		gsapAnimation: undefined,
+	};
+}
+
+/**
+ * Normalize rendered animation data: a list, or a single legacy object
+ *
+ * Entries that are not animations are skipped rather than failing the
+ * whole block.
+ *
+ * @param {unknown} data - The parsed data attribute
+ */
+export function normalizeAnimationData( data: unknown ): AnimationConfig[] {
+	const list = Array.isArray( data ) ? data : [ data ];
+
+	return migrateStoredAnimations( list );
+}
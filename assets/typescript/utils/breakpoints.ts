@@ -0,0 +1,223 @@
+/**
+ * Responsive breakpoint helpers
+ *
+ * An animation can override its properties and timing, or switch itself
+ * off, on the desktop, tablet and mobile breakpoints or on custom media
+ * queries. Overrides are merged over the animation's own values in the
+ * order they are stored, so a later override wins where two match.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig, BreakpointDevice, BreakpointOverride } from '../types/animation';
+
+export const BREAKPOINT_DEVICES: BreakpointDevice[] = [ 'desktop', 'tablet', 'mobile' ];
+
+/**
+ * Media queries of the device breakpoints, matching the editor's device previews
+ */
+export const BREAKPOINT_QUERIES: Record<BreakpointDevice, string> = {
+	desktop: '(min-width: 1025px)',
+	tablet: '(min-width: 768px) and (max-width: 1024px)',
+	mobile: '(max-width: 767px)',
+};
+
+const OVERRIDE_KEYS = [ 'properties', 'fromProperties', 'timing' ] as const;
+
+/**
+ * Check whether a breakpoint ID names a device breakpoint
+ * @param {string} id - The breakpoint ID
+ */
+export function isBreakpointDevice( id: string ): id is BreakpointDevice {
+	return ( BREAKPOINT_DEVICES as string[] ).includes( id );
+}
+
+/**
+ * Create an ID for a custom breakpoint
+ */
+export function createBreakpointId(): string {
+	return 'breakpoint-' + Date.now().toString( 36 ) + Math.random().toString( 36 ).slice( 2, 6 );
+}
+
+/**
+ * Get the breakpoint overrides of a configuration
+ * @param {AnimationConfig} config - The animation configuration
+ */
+export function getBreakpoints( config: AnimationConfig ): BreakpointOverride[] {
+	if ( ! Array.isArray( config.breakpoints ) ) {
+		return [];
+	}
+
+	return config.breakpoints.filter( ( override ) => !! override && 'object' === typeof override && 'string' === typeof override.id );
+}
+
+/**
+ * Find the override of one breakpoint
+ * @param {AnimationConfig} config - The animation configuration
+ * @param {string}          id     - The breakpoint ID
+ */
+export function findBreakpoint( config: AnimationConfig, id: string ): BreakpointOverride | undefined {
+	return getBreakpoints( config ).find( ( override ) => id === override.id );
+}
+
+/**
+ * Get the media query of a breakpoint, or an empty string when it has none
+ * @param {BreakpointOverride} override - The breakpoint override
+ */
+export function getBreakpointQuery( override: BreakpointOverride ): string {
+	return isBreakpointDevice( override.id ) ? BREAKPOINT_QUERIES[ override.id ] : ( override.query || '' ).trim();
+}
+
+/**
+ * List the distinct media queries a configuration depends on
+ * @param {AnimationConfig} config - The animation configuration
+ */
+export function getBreakpointQueries( config: AnimationConfig ): string[] {
+	const queries = getBreakpoints( config ).map( getBreakpointQuery ).filter( ( query ) => '' !== query );
+
+	return Array.from( new Set( queries ) );
+}
+
+/**
+ * Check whether a media query can be parsed
+ *
+ * Browsers turn media queries they cannot parse into 'not all'.
+ *
+ * @param {string} query - The media query
+ */
+export function isValidMediaQuery( query: string ): boolean {
+	if ( '' === query.trim() ) {
+		return false;
+	}
+
+	if ( 'undefined' === typeof window || 'function' !== typeof window.matchMedia ) {
+		return true;
+	}
+
+	return 'not all' !== window.matchMedia( query ).media;
+}
+
+/**
+ * Check whether an override changes anything
+ * @param {BreakpointOverride} override - The breakpoint override
+ */
+export function hasBreakpointChanges( override?: BreakpointOverride ): boolean {
+	if ( ! override ) {
+		return false;
+	}
+
+	return !! override.disabled || OVERRIDE_KEYS.some( ( key ) => Object.keys( override[ key ] || {} ).length > 0 );
+}
+
+/**
+ * Merge the properties and timing of an override over a configuration
+ *
+ * Whether the override disables the animation is left to the caller.
+ *
+ * @param {AnimationConfig}    config   - The animation configuration
+ * @param {BreakpointOverride} override - The breakpoint override
+ */
+export function applyBreakpoint( config: AnimationConfig, override: BreakpointOverride ): AnimationConfig {
+	return {
+		...config,
+		properties: { ...config.properties, ...override.properties },
+		timing: { ...config.timing, ...override.timing },
+		...( override.fromProperties ? { fromProperties: { ...config.fromProperties, ...override.fromProperties } } : {} ),
+	};
+}
+
+/**
+ * Resolve a configuration for the breakpoints that match right now
+ *
+ * The animation is disabled when any matching override disables it.
+ *
+ * @param {AnimationConfig} config  - The animation configuration
+ * @param {Function}        matches - Tells whether a media query matches
+ */
+export function resolveBreakpoints( config: AnimationConfig, matches: ( query: string ) => boolean ): AnimationConfig {
+	const matching = getBreakpoints( config ).filter( ( override ) => {
+		const query = getBreakpointQuery( override );
+		return '' !== query && matches( query );
+	} );
+
+	if ( 0 === matching.length ) {
+		return config;
+	}
+
+	return {
+		...matching.reduce( applyBreakpoint, config ),
+		enabled: config.enabled && ! matching.some( ( override ) => override.disabled ),
+	};
+}
+
+/**
+ * Get the configuration one breakpoint animates with, for the editor
+ * @param {AnimationConfig} config - The animation configuration
+ * @param {string}          id     - The breakpoint ID, or an empty string for all devices
+ */
+export function getBreakpointConfig( config: AnimationConfig, id: string ): AnimationConfig {
+	const override = id ? findBreakpoint( config, id ) : undefined;
+
+	return override ? applyBreakpoint( config, override ) : config;
+}
+
+/**
+ * Store an override, replacing the one with the same ID
+ * @param {AnimationConfig}    config   - The animation configuration
+ * @param {BreakpointOverride} override - The breakpoint override
+ */
+export function setBreakpoint( config: AnimationConfig, override: BreakpointOverride ): BreakpointOverride[] {
+	const breakpoints = getBreakpoints( config );
+
+	return findBreakpoint( config, override.id )
+		? breakpoints.map( ( current ) => override.id === current.id ? override : current )
+		: [ ...breakpoints, override ];
+}
+
+/**
+ * Remove the override of one breakpoint
+ * @param {AnimationConfig} config - The animation configuration
+ * @param {string}          id     - The breakpoint ID
+ */
+export function removeBreakpoint( config: AnimationConfig, id: string ): BreakpointOverride[] {
+	return getBreakpoints( config ).filter( ( override ) => id !== override.id );
+}
+
+/**
+ * Store edited properties or timing of one breakpoint
+ *
+ * Only the values that differ from the animation's own values are kept,
+ * so the breakpoint follows later changes to everything else.
+ *
+ * @param {AnimationConfig}          config  - The animation configuration
+ * @param {string}                   id      - The breakpoint ID
+ * @param {Partial<AnimationConfig>} updates - The edited values, as the breakpoint sees them
+ */
+export function overrideBreakpoint( config: AnimationConfig, id: string, updates: Partial<AnimationConfig> ): BreakpointOverride[] {
+	const override: BreakpointOverride = { ...( findBreakpoint( config, id ) || { id } ) };
+
+	OVERRIDE_KEYS.forEach( ( key ) => {
+		const values = updates[ key ];
+
+		if ( values ) {
+			const changes = getChangedValues( config[ key ] || {}, values );
+			Object.assign( override, { [ key ]: Object.keys( changes ).length > 0 ? changes : undefined } );
+		}
+	} );
+
+	return setBreakpoint( config, override );
+}
+
+/**
+ * Pick the values that differ from the base values
+ * @param {Object} base   - The animation's own values
+ * @param {Object} values - The values as the breakpoint sees them
+ */
+function getChangedValues( base: object, values: object ): Record<string, unknown> {
+	const stored = base as Record<string, unknown>;
+
+	return Object.fromEntries( Object.entries( values ).filter( ( [ key, value ] ) => {
+		return JSON.stringify( value ) !== JSON.stringify( stored[ key ] );
+	} ) );
+}
@@ -0,0 +1,85 @@
+/**
+ * Click interaction configuration helpers
+ *
+ * A click animation can be started by another block. The source block is
+ * referenced by its `gsapBlockRef` attribute, which is rendered as
+ * `data-gsap-ref` and survives reordering and reloading the post.
+ * Duplicating a block copies the attribute, so copies are given a new
+ * reference in the editor.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig, ClickConfig } from '../types/animation';
+
+export interface BlockRefEntry {
+	clientId: string;
+	ref?: string;
+}
+
+export const DEFAULT_CLICK_CONFIG: ClickConfig = {
+	mode: 'restart',
+};
+
+/**
+ * Resolve the click settings of a configuration, filling in defaults
+ * @param {AnimationConfig} config - The animation configuration
+ */
+export function getClickConfig( config: AnimationConfig ): ClickConfig {
+	return {
+		...DEFAULT_CLICK_CONFIG,
+		...config.click,
+	};
+}
+
+/**
+ * Create a stable reference for an animated block or a click source block
+ */
+export function createBlockRef(): string {
+	return 'block-' + Date.now().toString( 36 ) + Math.random().toString( 36 ).slice( 2, 6 );
+}
+
+/**
+ * Find the blocks that carry a reference an earlier block already has
+ *
+ * Returns the client IDs of the blocks that need a new reference. The
+ * first block in document order keeps it, so click animations keep the
+ * source they were set up with.
+ *
+ * @param {BlockRefEntry[]} blocks - Every block of the post in document order
+ */
+export function findDuplicateBlockRefs( blocks: BlockRefEntry[] ): string[] {
+	const seen: Set<string> = new Set();
+
+	return blocks.filter( ( { ref } ) => {
+		if ( ! ref ) {
+			return false;
+		}
+
+		if ( seen.has( ref ) ) {
+			return true;
+		}
+
+		seen.add( ref );
+		return false;
+	} ).map( ( { clientId } ) => clientId );
+}
+
+/**
+ * Find the element whose clicks start an animation
+ *
+ * Returns null when the configured source block is not on the page.
+ *
+ * @param {Element}         element - The animated block element
+ * @param {AnimationConfig} config  - The animation configuration
+ */
+export function resolveClickSource( element: Element, config: AnimationConfig ): Element | null {
+	const source = getClickConfig( config ).source;
+
+	if ( ! source ) {
+		return element;
+	}
+
+	return document.querySelector( `[data-gsap-ref="${ CSS.escape( source ) }"]` );
+}
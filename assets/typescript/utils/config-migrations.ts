@@ -0,0 +1,111 @@
+/**
+ * Animation config schema migrations
+ *
+ * Every stored animation carries the schema version it was saved with.
+ * Animations saved by older plugin versions are upgraded one step at a
+ * time when they are read, in the editor and on the frontend, so blocks
+ * keep working whatever shape they were stored in.
+ *
+ * To change the stored shape, bump ANIMATION_CONFIG_VERSION and add the
+ * step that upgrades the previous version. Steps describe the shape of
+ * their own version and must not follow later changes to the defaults.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig, EaseDescriptor } from '../types/animation';
+import { parseEase } from './ease';
+
+export const ANIMATION_CONFIG_VERSION = 2;
+
+export type ConfigMigration = ( config: AnimationConfig ) => AnimationConfig;
+
+/**
+ * Version 1: complete the settings older defaults left out
+ *
+ * The server-side default of the legacy attribute had no timeline, and
+ * hand-written or imported animations may miss properties or timing.
+ *
+ * @param {AnimationConfig} config - An unversioned animation configuration
+ */
+export function fillMissingSettings( config: AnimationConfig ): AnimationConfig {
+	const timing: Partial<AnimationConfig[ 'timing' ]> = config.timing && 'object' === typeof config.timing ? config.timing : {};
+
+	return {
+		...config,
+		enabled: !! config.enabled,
+		type: config.type || 'to',
+		trigger: config.trigger || 'pageload',
+		properties: config.properties && 'object' === typeof config.properties ? config.properties : {},
+		timing: {
+			duration: 0.5,
+			delay: 0,
+			repeat: 0,
+			yoyo: false,
+			ease: 'power1.out',
+			...timing,
+		},
+		timeline: config.timeline || {
+			isTimeline: false,
+			timelineId: '',
+			timelineName: '',
+			timelinePosition: 'start',
+		},
+	};
+}
+
+/**
+ * Version 2: store eases as structured descriptors instead of GSAP strings
+ *
+ * Version 1 animations written by hand or imported may have no timing.
+ *
+ * @param {AnimationConfig} config - A version 1 animation configuration
+ */
+export function structureEase( config: AnimationConfig ): AnimationConfig {
+	const ease: EaseDescriptor = parseEase( config.timing?.ease );
+
+	return {
+		...config,
+		timing: { ...( config.timing || {} ), ease },
+	};
+}
+
+/**
+ * Migration steps, keyed by the version they upgrade to
+ */
+export const CONFIG_MIGRATIONS: Record<number, ConfigMigration> = {
+	1: fillMissingSettings,
+	2: structureEase,
+};
+
+/**
+ * Get the schema version an animation was stored with
+ *
+ * Animations saved before versioning count as version 0.
+ *
+ * @param {AnimationConfig} config - The stored animation configuration
+ */
+export function getConfigVersion( config: AnimationConfig ): number {
+	const version = Number( config.version );
+
+	return Number.isInteger( version ) && version > 0 ? version : 0;
+}
+
+/**
+ * Upgrade a stored animation to the current schema version
+ *
+ * Animations from a newer plugin version are returned unchanged, so a
+ * downgrade does not throw their settings away.
+ *
+ * @param {AnimationConfig} config - The stored animation configuration
+ */
+export function migrateAnimationConfig( config: AnimationConfig ): AnimationConfig {
+	let migrated = config;
+
+	for ( let version = getConfigVersion( config ) + 1; version <= ANIMATION_CONFIG_VERSION; version++ ) {
+		migrated = { ...CONFIG_MIGRATIONS[ version ]( migrated ), version };
+	}
+
+	return migrated;
+}
@@ -0,0 +1,160 @@
+/**
+ * Animation config validator
+ *
+ * Checks an animation configuration read from a block attribute or a
+ * rendered data-gsap-animation payload before it reaches GSAP. Safe
+ * values are coerced first (numeric strings, missing timing settings),
+ * then the configuration is checked against the shared validation rules.
+ * Shared by the editor and the frontend runtime.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type {
+	AnimationConfig,
+	AnimationProperties,
+	TimingProperties,
+	ValidationError,
+	ValidationResult,
+} from '../types/animation';
+import { ANIMATION_PROPERTY_KEYS } from './animation-properties';
+import { NUMERIC_PROPERTY_KEYS, TIMING_RANGES, runValidationRules } from './validation-rules';
+
+export interface ConfigValidationResult extends ValidationResult {
+	config: AnimationConfig | null;
+}
+
+const NUMERIC_STRING_PATTERN = /^\s*-?\d+(\.\d+)?\s*$/;
+
+/**
+ * Read a stored number, accepting numeric strings
+ *
+ * Returns undefined when the value is not a finite number.
+ *
+ * @param {unknown} value - The stored value
+ */
+export function coerceNumber( value: unknown ): number | undefined {
+	if ( 'number' === typeof value ) {
+		return isFinite( value ) ? value : undefined;
+	}
+
+	if ( 'string' === typeof value && NUMERIC_STRING_PATTERN.test( value ) ) {
+		return parseFloat( value );
+	}
+
+	return undefined;
+}
+
+/**
+ * Validate an animation configuration and coerce its safe values
+ *
+ * The returned config is a coerced copy, or null when the value is not
+ * an animation configuration at all. Coerced and dropped values are
+ * listed in the warnings.
+ *
+ * @param {unknown} value - The stored animation configuration
+ */
+export function validateAnimationConfig( value: unknown ): ConfigValidationResult {
+	if ( ! value || 'object' !== typeof value || Array.isArray( value ) ) {
+		return {
+			isValid: false,
+			errors: [ { field: '', message: 'Animation data must be an object', code: 'invalid_type' } ],
+			warnings: [],
+			config: null,
+		};
+	}
+
+	const source = value as AnimationConfig;
+	const warnings: ValidationError[] = [];
+	const config: AnimationConfig = {
+		...source,
+		enabled: true === source.enabled || 'true' === String( source.enabled ),
+		timing: coerceTiming( source.timing, warnings ),
+		properties: coerceProperties( source.properties, 'properties', warnings ),
+	};
+
+	if ( undefined !== source.fromProperties ) {
+		config.fromProperties = coerceProperties( source.fromProperties, 'fromProperties', warnings );
+	}
+
+	const result = runValidationRules( config );
+
+	return { ...result, warnings: [ ...warnings, ...result.warnings ], config };
+}
+
+/**
+ * Convert a numeric string, noting the conversion
+ *
+ * Values that are not numbers at all are kept for the rules to report.
+ *
+ * @param {unknown}           value    - The stored value
+ * @param {string}            field    - The path of the value, for reports
+ * @param {ValidationError[]} warnings - Collects the conversions
+ */
+function coerceNumericValue( value: unknown, field: string, warnings: ValidationError[] ): unknown {
+	const number = coerceNumber( value );
+
+	if ( undefined === number || 'number' === typeof value ) {
+		return value;
+	}
+
+	warnings.push( { field, message: `Converted "${ value }" to a number`, code: 'coerced' } );
+
+	return number;
+}
+
+/**
+ * Coerce timing settings, filling in missing ones
+ * @param {unknown}           value    - The stored timing settings
+ * @param {ValidationError[]} warnings - Collects the conversions
+ */
+function coerceTiming( value: unknown, warnings: ValidationError[] ): TimingProperties {
+	const hasTiming = !! value && 'object' === typeof value;
+	const stored = ( hasTiming ? value : {} ) as Record<string, unknown>;
+	const timing: Record<string, unknown> = {
+		duration: TIMING_RANGES.duration.default,
+		delay: TIMING_RANGES.delay.default,
+		repeat: TIMING_RANGES.repeat.default,
+		...stored,
+		yoyo: true === stored.yoyo || 'true' === stored.yoyo,
+	};
+
+	if ( ! hasTiming ) {
+		warnings.push( { field: 'timing', message: 'Missing, the default timing is used', code: 'coerced' } );
+	}
+
+	[ 'duration', 'delay', 'repeat' ].forEach( ( key ) => {
+		timing[ key ] = coerceNumericValue( timing[ key ], `timing.${ key }`, warnings );
+	} );
+
+	return timing as unknown as TimingProperties;
+}
+
+/**
+ * Coerce animated property values
+ *
+ * Numeric strings of number-only properties are converted and keys that
+ * are not animation properties are dropped.
+ *
+ * @param {unknown}           value    - The stored properties
+ * @param {string}            field    - The path of the properties, for reports
+ * @param {ValidationError[]} warnings - Collects the conversions
+ */
+function coerceProperties( value: unknown, field: string, warnings: ValidationError[] ): Partial<AnimationProperties> {
+	const stored = ( value && 'object' === typeof value ? value : {} ) as Record<string, unknown>;
+	const properties: Record<string, unknown> = {};
+
+	Object.keys( stored ).forEach( ( key ) => {
+		if ( ! ( ANIMATION_PROPERTY_KEYS as string[] ).includes( key ) ) {
+			warnings.push( { field: `${ field }.${ key }`, message: 'Not an animation property, ignored', code: 'unknown_property' } );
+			return;
+		}
+
+		properties[ key ] = ( NUMERIC_PROPERTY_KEYS as string[] ).includes( key )
+			? coerceNumericValue( stored[ key ], `${ field }.${ key }`, warnings )
+			: stored[ key ];
+	} );
+
+	return properties as Partial<AnimationProperties>;
+}
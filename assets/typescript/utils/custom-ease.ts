@@ -0,0 +1,134 @@
+/**
+ * Custom cubic-bezier eases
+ *
+ * Converts the stored bezier control points into an ease function GSAP
+ * accepts, using the same curve definition as CSS cubic-bezier().
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { BezierPoints } from '../types/animation';
+
+export const DEFAULT_BEZIER: BezierPoints = [ 0.25, 0.1, 0.25, 1 ];
+
+/**
+ * How far the y values of the control points may leave the 0-1 range
+ */
+export const BEZIER_OVERSHOOT = 0.6;
+
+const NEWTON_ITERATIONS = 8;
+const NEWTON_PRECISION = 1e-6;
+const BISECTION_ITERATIONS = 20;
+
+/**
+ * Clamp control points to the range the editor can display
+ *
+ * The x values must stay within 0-1 for the curve to be a function of time.
+ *
+ * @param {number[]} bezier - The control points x1, y1, x2, y2
+ */
+export function sanitizeBezier( bezier?: number[] ): BezierPoints {
+	if ( ! Array.isArray( bezier ) || 4 !== bezier.length || bezier.some( ( value ) => 'number' !== typeof value || isNaN( value ) ) ) {
+		return [ ...DEFAULT_BEZIER ];
+	}
+
+	const clampX = ( value: number ) => Math.min( 1, Math.max( 0, value ) );
+	const clampY = ( value: number ) => Math.min( 1 + BEZIER_OVERSHOOT, Math.max( -BEZIER_OVERSHOOT, value ) );
+
+	return [ clampX( bezier[ 0 ] ), clampY( bezier[ 1 ] ), clampX( bezier[ 2 ] ), clampY( bezier[ 3 ] ) ];
+}
+
+/**
+ * Parse control points from text such as "0.25, 0.1, 0.25, 1" or "cubic-bezier(0.25, 0.1, 0.25, 1)"
+ * @param {string} value - The entered text
+ */
+export function parseBezier( value: string ): BezierPoints | null {
+	const numbers = value.replace( /cubic-bezier|[()]/gi, '' ).split( /[\s,]+/ ).filter( Boolean ).map( Number );
+
+	if ( 4 !== numbers.length || numbers.some( isNaN ) ) {
+		return null;
+	}
+
+	return sanitizeBezier( numbers );
+}
+
+/**
+ * Format control points the way CSS writes them
+ * @param {BezierPoints} bezier - The control points
+ */
+export function formatBezier( bezier: BezierPoints ): string {
+	return `cubic-bezier(${ bezier.map( ( value ) => Math.round( value * 1000 ) / 1000 ).join( ', ' ) })`;
+}
+
+/**
+ * Create an ease function for a cubic bezier curve from (0, 0) to (1, 1)
+ *
+ * The curve's x axis is time, so the curve parameter for a given progress
+ * is found with Newton's method, falling back to bisection where the
+ * slope is too flat for Newton to converge.
+ *
+ * @param {BezierPoints} bezier - The control points
+ */
+export function createBezierEase( bezier: BezierPoints ): ( progress: number ) => number {
+	const [ x1, y1, x2, y2 ] = sanitizeBezier( bezier );
+	// Polynomial coefficients of B(t) = a * t^3 + b * t^2 + c * t for one axis
+	const coefficients = ( p1: number, p2: number ) => ( {
+		a: 1 - ( 3 * p2 ) + ( 3 * p1 ),
+		b: ( 3 * p2 ) - ( 6 * p1 ),
+		c: 3 * p1,
+	} );
+	const xCurve = coefficients( x1, x2 );
+	const yCurve = coefficients( y1, y2 );
+	const sample = ( { a, b, c }: { a: number; b: number; c: number }, t: number ) => ( ( ( ( a * t ) + b ) * t ) + c ) * t;
+	const slope = ( { a, b, c }: { a: number; b: number; c: number }, t: number ) => ( 3 * a * t * t ) + ( 2 * b * t ) + c;
+
+	const solveCurveX = ( x: number ): number => {
+		let t = x;
+
+		for ( let i = 0; i < NEWTON_ITERATIONS; i++ ) {
+			const error = sample( xCurve, t ) - x;
+			const derivative = slope( xCurve, t );
+
+			if ( Math.abs( error ) < NEWTON_PRECISION ) {
+				return t;
+			}
+
+			if ( Math.abs( derivative ) < NEWTON_PRECISION ) {
+				break;
+			}
+
+			t -= error / derivative;
+		}
+
+		let lower = 0;
+		let upper = 1;
+		t = x;
+
+		for ( let i = 0; i < BISECTION_ITERATIONS; i++ ) {
+			const value = sample( xCurve, t );
+
+			if ( Math.abs( value - x ) < NEWTON_PRECISION ) {
+				break;
+			}
+
+			if ( value < x ) {
+				lower = t;
+			} else {
+				upper = t;
+			}
+
+			t = ( lower + upper ) / 2;
+		}
+
+		return t;
+	};
+
+	return ( progress: number ): number => {
+		if ( progress <= 0 || progress >= 1 ) {
+			return progress <= 0 ? 0 : 1;
+		}
+
+		return sample( yCurve, solveCurveX( progress ) );
+	};
+}
@@ -0,0 +1,41 @@
+/**
+ * Debug mode helpers
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+export const DEBUG_MARKERS_STORAGE_KEY = 'gsapBlockAnimatorDebugMarkers';
+
+/**
+ * Check whether the site runs in debug mode
+ */
+export function isDebugMode(): boolean {
+	return !! window.gsapBlockAnimatorSettings?.debugMode;
+}
+
+/**
+ * Check whether the debug overlay asked for markers on every scroll animation
+ *
+ * The choice is kept for the browser session so it survives reloads.
+ */
+export function showsAllDebugMarkers(): boolean {
+	try {
+		return isDebugMode() && '1' === window.sessionStorage.getItem( DEBUG_MARKERS_STORAGE_KEY );
+	} catch ( error ) {
+		// Storage is unavailable, e.g. in private browsing
+		return false;
+	}
+}
+
+/**
+ * Remember whether markers are drawn on every scroll animation
+ * @param {boolean} enabled - Whether to draw all markers
+ */
+export function setShowAllDebugMarkers( enabled: boolean ): void {
+	try {
+		window.sessionStorage.setItem( DEBUG_MARKERS_STORAGE_KEY, enabled ? '1' : '0' );
+	} catch ( error ) {
+		// Storage is unavailable, e.g. in private browsing
+	}
+}
@@ -0,0 +1,224 @@
+/**
+ * Ease helpers
+ *
+ * Converts between structured ease descriptors and GSAP ease strings.
+ * Plain strings saved by older versions are still accepted everywhere.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { EaseDescriptor, EaseDirection, EaseFamily, EaseType, TimingProperties } from '../types/animation';
+import { createBezierEase, sanitizeBezier } from './custom-ease';
+
+export type EaseParameter = 'overshoot' | 'amplitude' | 'period' | 'steps';
+
+interface EaseFamilyDefinition {
+	directional: boolean;
+	parameters: EaseParameter[];
+}
+
+interface EaseParameterRange {
+	min: number;
+	max: number;
+	step: number;
+	default: number;
+}
+
+export const EASE_FAMILIES: Record<EaseFamily, EaseFamilyDefinition> = {
+	none: { directional: false, parameters: [] },
+	power0: { directional: true, parameters: [] },
+	power1: { directional: true, parameters: [] },
+	power2: { directional: true, parameters: [] },
+	power3: { directional: true, parameters: [] },
+	power4: { directional: true, parameters: [] },
+	sine: { directional: true, parameters: [] },
+	expo: { directional: true, parameters: [] },
+	circ: { directional: true, parameters: [] },
+	back: { directional: true, parameters: [ 'overshoot' ] },
+	elastic: { directional: true, parameters: [ 'amplitude', 'period' ] },
+	bounce: { directional: true, parameters: [] },
+	steps: { directional: false, parameters: [ 'steps' ] },
+	custom: { directional: false, parameters: [] },
+};
+
+export const EASE_DIRECTIONS: EaseDirection[] = [ 'in', 'out', 'inOut' ];
+
+export const EASE_PARAMETER_RANGES: Record<EaseParameter, EaseParameterRange> = {
+	overshoot: { min: 0, max: 5, step: 0.1, default: 1.7 },
+	amplitude: { min: 1, max: 3, step: 0.1, default: 1 },
+	period: { min: 0.1, max: 2, step: 0.05, default: 0.3 },
+	steps: { min: 1, max: 50, step: 1, default: 5 },
+};
+
+export const DEFAULT_EASE: EaseDescriptor = { family: 'power1', direction: 'out' };
+
+const EASE_STRING_PATTERN = /^([a-z]+\d?)(?:\.(in|out|inOut))?(?:\(([^)]*)\))?$/;
+
+/**
+ * Check whether a stored ease is a structured descriptor
+ * @param {unknown} ease - The stored ease
+ */
+export function isEaseDescriptor( ease: unknown ): ease is EaseDescriptor {
+	return !! ease && 'object' === typeof ease && ( ease as EaseDescriptor ).family in EASE_FAMILIES;
+}
+
+/**
+ * Check whether a stored ease uses the custom bezier curve
+ * @param {EaseType} ease - The stored ease
+ */
+export function isCustomEase( ease?: EaseType ): boolean {
+	return 'custom' === ( isEaseDescriptor( ease ) ? ease.family : ease );
+}
+
+/**
+ * Parse a stored ease into a descriptor
+ *
+ * Accepts GSAP strings such as "power2.inOut", "back.out(2)",
+ * "elastic.in(1, 0.5)" and "steps(8)". Unknown eases fall back to the default.
+ *
+ * @param {EaseType} ease - The stored ease
+ */
+export function parseEase( ease?: EaseType ): EaseDescriptor {
+	if ( isEaseDescriptor( ease ) ) {
+		return { ...ease, direction: ease.direction || DEFAULT_EASE.direction };
+	}
+
+	const value = 'string' === typeof ease ? ease.trim() : '';
+
+	if ( 'linear' === value ) {
+		return { family: 'none', direction: DEFAULT_EASE.direction };
+	}
+
+	const match = EASE_STRING_PATTERN.exec( value );
+
+	if ( ! match || ! ( match[ 1 ] in EASE_FAMILIES ) ) {
+		return { ...DEFAULT_EASE };
+	}
+
+	const family = match[ 1 ] as EaseFamily;
+	const descriptor: EaseDescriptor = {
+		family,
+		direction: ( match[ 2 ] as EaseDirection ) || DEFAULT_EASE.direction,
+	};
+	const parameters = ( match[ 3 ] || '' ).split( ',' ).map( ( param ) => parseFloat( param ) );
+
+	EASE_FAMILIES[ family ].parameters.forEach( ( parameter, index ) => {
+		if ( ! isNaN( parameters[ index ] ) ) {
+			descriptor[ parameter ] = parameters[ index ];
+		}
+	} );
+
+	return descriptor;
+}
+
+/**
+ * Serialize a descriptor into a GSAP ease string
+ *
+ * Parameters are clamped to their supported range and left out when
+ * the family does not take them.
+ *
+ * @param {EaseDescriptor} descriptor - The ease descriptor
+ */
+export function serializeEase( descriptor: EaseDescriptor ): string {
+	const definition = EASE_FAMILIES[ descriptor.family ];
+
+	if ( ! definition ) {
+		return serializeEase( DEFAULT_EASE );
+	}
+
+	if ( 'none' === descriptor.family || 'custom' === descriptor.family ) {
+		return descriptor.family;
+	}
+
+	const name = definition.directional ? `${ descriptor.family }.${ descriptor.direction || DEFAULT_EASE.direction }` : descriptor.family;
+	const hasParameters = definition.parameters.some( ( parameter ) => undefined !== descriptor[ parameter ] );
+
+	if ( ! hasParameters && 'steps' !== descriptor.family ) {
+		return name;
+	}
+
+	const parameters = definition.parameters.map( ( parameter ) => getEaseParameter( descriptor, parameter ) );
+
+	return `${ name }(${ parameters.join( ', ' ) })`;
+}
+
+/**
+ * Get a descriptor parameter, clamped to its range and defaulted when unset
+ * @param {EaseDescriptor} descriptor - The ease descriptor
+ * @param {EaseParameter}  parameter  - The parameter name
+ */
+export function getEaseParameter( descriptor: EaseDescriptor, parameter: EaseParameter ): number {
+	const range = EASE_PARAMETER_RANGES[ parameter ];
+	const value = descriptor[ parameter ];
+
+	if ( 'number' !== typeof value || isNaN( value ) ) {
+		return range.default;
+	}
+
+	const clamped = Math.min( range.max, Math.max( range.min, value ) );
+
+	return 'steps' === parameter ? Math.round( clamped ) : clamped;
+}
+
+/**
+ * Validate a stored ease
+ *
+ * Strings must name a known ease, e.g. 'power2.inOut' or 'back.out(1.7)'.
+ *
+ * @param {EaseType} ease - The stored ease
+ */
+export function validateEase( ease?: EaseType ): string[] {
+	const errors: string[] = [];
+
+	if ( undefined === ease ) {
+		return errors;
+	}
+
+	if ( 'string' === typeof ease ) {
+		const match = EASE_STRING_PATTERN.exec( ease.trim() );
+		return 'linear' === ease.trim() || ( match && match[ 1 ] in EASE_FAMILIES ) ? errors : [ 'Unknown ease' ];
+	}
+
+	if ( ! isEaseDescriptor( ease ) ) {
+		return [ 'Unknown ease family' ];
+	}
+
+	if ( EASE_FAMILIES[ ease.family ].directional && ! EASE_DIRECTIONS.includes( ease.direction ) ) {
+		errors.push( 'Ease direction must be in, out or inOut' );
+	}
+
+	EASE_FAMILIES[ ease.family ].parameters.forEach( ( parameter ) => {
+		const value = ease[ parameter ];
+		const range = EASE_PARAMETER_RANGES[ parameter ];
+
+		if ( undefined !== value && ( 'number' !== typeof value || value < range.min || value > range.max ) ) {
+			errors.push( `Ease ${ parameter } must be between ${ range.min } and ${ range.max }` );
+		}
+	} );
+
+	return errors;
+}
+
+/**
+ * Resolve the ease to hand to GSAP
+ *
+ * Descriptors are serialized, strings are passed through unchanged and
+ * the custom curve becomes an ease function.
+ *
+ * @param {TimingProperties} timing   - The timing settings
+ * @param {string}           fallback - The ease used when none is set
+ */
+export function resolveEase( timing: Partial<TimingProperties>, fallback: string = 'power1.out' ): string | ( ( progress: number ) => number ) {
+	const ease = timing.ease;
+
+	if ( isCustomEase( ease ) ) {
+		return createBezierEase( sanitizeBezier( timing.customEase?.bezier ) );
+	}
+
+	if ( isEaseDescriptor( ease ) ) {
+		return serializeEase( ease );
+	}
+
+	return ease || fallback;
+}
@@ -0,0 +1,24 @@
+/**
+ * Hover interaction configuration helpers
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig, HoverConfig } from '../types/animation';
+
+export const DEFAULT_HOVER_CONFIG: HoverConfig = {
+	leave: 'reverse',
+	intentDelay: 0,
+};
+
+/**
+ * Resolve the hover settings of a configuration, filling in defaults
+ * @param {AnimationConfig} config - The animation configuration
+ */
+export function getHoverConfig( config: AnimationConfig ): HoverConfig {
+	return {
+		...DEFAULT_HOVER_CONFIG,
+		...config.hover,
+	};
+}
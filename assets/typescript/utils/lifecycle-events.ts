@@ -0,0 +1,60 @@
+/**
+ * Animation lifecycle events
+ *
+ * Dispatches bubbling `gsapba:*` CustomEvents on the block element as its
+ * animations start, complete, repeat and finish reversing, so theme code
+ * can chain its own behaviour without reaching into the controller.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationEventDetail, AnimationEventName } from '../types/api';
+
+type EventCallbackTarget = {
+	eventCallback: {
+		( type: string ): ( () => void ) | null | undefined;
+		( type: string, callback: () => void ): unknown;
+	};
+};
+
+const LIFECYCLE_CALLBACKS: Record<string, AnimationEventName> = {
+	onStart: 'gsapba:start',
+	onComplete: 'gsapba:complete',
+	onRepeat: 'gsapba:repeat',
+	onReverseComplete: 'gsapba:reverse-complete',
+};
+
+/**
+ * Add a GSAP callback without replacing the one already set
+ * @param {EventCallbackTarget} animation - The tween or timeline
+ * @param {string}              type      - The callback type, e.g. 'onComplete'
+ * @param {Function}            callback  - The callback to add
+ */
+export function addEventCallback( animation: EventCallbackTarget, type: string, callback: () => void ): void {
+	const previous = animation.eventCallback( type );
+
+	animation.eventCallback( type, previous ? () => {
+		previous();
+		callback();
+	} : callback );
+}
+
+/**
+ * Dispatch the lifecycle events of an animation on its block
+ * @param {EventCallbackTarget} animation - The tween or timeline
+ * @param {Element}             element   - The block element
+ * @param {Object}              ids       - The animation and timeline IDs to report
+ */
+export function bindLifecycleEvents( animation: EventCallbackTarget, element: Element, ids: Omit<AnimationEventDetail, 'blockId'> = {} ): void {
+	const detail: AnimationEventDetail = {
+		blockId: element.getAttribute( 'data-gsap-block-id' ),
+		...ids,
+	};
+
+	Object.entries( LIFECYCLE_CALLBACKS ).forEach( ( [ type, name ] ) => {
+		addEventCallback( animation, type, () => {
+			element.dispatchEvent( new CustomEvent<AnimationEventDetail>( name, { bubbles: true, detail } ) );
+		} );
+	} );
+}
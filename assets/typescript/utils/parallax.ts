@@ -0,0 +1,143 @@
+/**
+ * Scroll parallax helpers
+ *
+ * A parallax layer travels at its own speed relative to the page while the
+ * block crosses the viewport. The travel is scrubbed by ScrollTrigger over
+ * the whole time the block is on screen and centered, so layers sit in
+ * their natural position when the block is in the middle of the viewport.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig, ParallaxConfig } from '../types/animation';
+import type { GSAPTarget, GSAPVars } from '../types/gsap';
+import { buildScrollTriggerVars, getScrollConfig } from './scroll-trigger';
+
+export const COVER_BACKGROUND_SELECTOR = '.wp-block-cover__image-background, .wp-block-cover__video-background';
+
+/**
+ * Check whether a configuration uses the scroll parallax mode
+ * @param {AnimationConfig} config - The animation configuration
+ */
+export function isParallaxConfig( config: AnimationConfig ): boolean {
+	return 'scroll' === config.trigger && 'parallax' === getScrollConfig( config ).mode;
+}
+
+/**
+ * Get the layers that move with parallax
+ *
+ * A cover block without a selector moves its background image or video
+ * rather than the whole block.
+ *
+ * @param {Element}    element - The block element
+ * @param {GSAPTarget} target  - The resolved animation target
+ */
+export function getParallaxLayers( element: Element, target: GSAPTarget ): Element[] {
+	if ( target === element ) {
+		const backgrounds = element.classList.contains( 'wp-block-cover' )
+			? Array.from( element.querySelectorAll( COVER_BACKGROUND_SELECTOR ) ).filter( ( background ) => background.parentElement === element )
+			: [];
+
+		return backgrounds.length > 0 ? backgrounds : [ element ];
+	}
+
+	return target instanceof Element ? [ target ] : Array.from( target );
+}
+
+/**
+ * Get the speed of a layer relative to the page: 1 scrolls with the page,
+ * lower values lag behind and higher values move ahead
+ * @param {ParallaxConfig} parallax - The parallax settings
+ * @param {number}         index    - The layer index
+ */
+export function getLayerSpeed( parallax: ParallaxConfig, index: number ): number {
+	const speed = parallax.speeds?.[ index ];
+
+	return 'number' === typeof speed && ! isNaN( speed ) ? speed : parallax.speed;
+}
+
+/**
+ * Build the from and to vars that move the layers across the scroll range
+ *
+ * Values are functions so ScrollTrigger measures the layers again on every
+ * refresh. Cover backgrounds are scaled up just enough to never reveal
+ * their edges; with clamping, other layers only travel through the free
+ * space around them inside the block.
+ *
+ * @param {Element}         element - The block element
+ * @param {Element[]}       layers  - The layers to move
+ * @param {AnimationConfig} config  - The animation configuration
+ */
+export function buildParallaxVars( element: Element, layers: Element[], config: AnimationConfig ): { fromVars: GSAPVars; vars: GSAPVars } {
+	const parallax = getScrollConfig( config ).parallax;
+	const isVertical = 'vertical' === parallax.direction;
+	const axis = isVertical ? 'y' : 'x';
+	const isCoverBackground = ( layer: Element ) => layer !== element && layer.matches( COVER_BACKGROUND_SELECTOR );
+
+	const getTravel = ( index: number ): number => {
+		const layer = layers[ index ];
+		const blockRect = element.getBoundingClientRect();
+		const travel = ( 1 - getLayerSpeed( parallax, index ) ) * ( window.innerHeight + blockRect.height ) / 2;
+
+		if ( ! parallax.clamp || layer === element || isCoverBackground( layer ) ) {
+			return travel;
+		}
+
+		const layerRect = layer.getBoundingClientRect();
+		const blockSize = isVertical ? blockRect.height : blockRect.width;
+		const layerSize = isVertical ? layerRect.height : layerRect.width;
+		const room = Math.max( 0, ( blockSize - layerSize ) / 2 );
+
+		return Math.max( -room, Math.min( room, travel ) );
+	};
+
+	const getScale = ( index: number ): number => {
+		const layer = layers[ index ];
+
+		if ( ! isCoverBackground( layer ) ) {
+			return 1;
+		}
+
+		const rect = element.getBoundingClientRect();
+		const size = isVertical ? rect.height : rect.width;
+
+		return size > 0 ? 1 + ( ( 2 * Math.abs( getTravel( index ) ) ) / size ) : 1;
+	};
+
+	const fromVars: GSAPVars = { [ axis ]: ( index: number ) => -getTravel( index ) };
+	const vars: GSAPVars = { [ axis ]: ( index: number ) => getTravel( index ), ease: 'none' };
+
+	if ( layers.some( isCoverBackground ) ) {
+		fromVars.scale = getScale;
+		vars.scale = getScale;
+	}
+
+	return { fromVars, vars };
+}
+
+/**
+ * Build the ScrollTrigger vars of a parallax animation
+ *
+ * The range always runs from the block entering to the block leaving the
+ * viewport and the block is never pinned; only the scrub smoothing and
+ * markers come from the settings.
+ *
+ * @param {Element}         element - The trigger element
+ * @param {AnimationConfig} config  - The animation configuration
+ */
+export function buildParallaxScrollTriggerVars( element: Element, config: AnimationConfig ): Record<string, unknown> {
+	const scroll = getScrollConfig( config );
+	const vars = buildScrollTriggerVars( element, config );
+
+	[ 'toggleActions', 'pin', 'pinSpacing', 'anticipatePin' ].forEach( ( key ) => delete vars[ key ] );
+
+	return {
+		...vars,
+		start: 'top bottom',
+		end: 'bottom top',
+		scrub: 'number' === typeof scroll.scrub ? scroll.scrub : true,
+		once: false,
+		invalidateOnRefresh: true,
+	};
+}
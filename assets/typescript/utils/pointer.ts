@@ -0,0 +1,62 @@
+/**
+ * Pointer effect configuration helpers
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig, PointerConfig, PointerEffectType } from '../types/animation';
+
+/**
+ * Intensity range of each effect: maximum tilt in degrees, share of the
+ * pointer distance a magnetic block follows, or parallax offset in pixels
+ */
+export const POINTER_INTENSITY_RANGES: Record<PointerEffectType, { min: number; max: number; step: number; default: number }> = {
+	tilt: { min: 1, max: 45, step: 1, default: 10 },
+	magnetic: { min: 0.05, max: 1, step: 0.05, default: 0.3 },
+	parallax: { min: 5, max: 200, step: 5, default: 30 },
+};
+
+export const DEFAULT_POINTER_CONFIG: PointerConfig = {
+	effect: 'tilt',
+	intensity: POINTER_INTENSITY_RANGES.tilt.default,
+	smoothing: 0.4,
+	ease: { family: 'power3', direction: 'out' },
+};
+
+/**
+ * Resolve the pointer settings of a configuration, filling in defaults
+ * @param {AnimationConfig} config - The animation configuration
+ */
+export function getPointerConfig( config: AnimationConfig ): PointerConfig {
+	return {
+		...DEFAULT_POINTER_CONFIG,
+		...config.pointer,
+	};
+}
+
+/**
+ * Get the parallax depth of a layer
+ *
+ * Layers without a configured depth spread evenly from shallow to deep.
+ *
+ * @param {PointerConfig} pointer - The pointer settings
+ * @param {number}        index   - The layer index
+ * @param {number}        count   - The number of layers
+ */
+export function getLayerDepth( pointer: PointerConfig, index: number, count: number ): number {
+	const depth = pointer.depths?.[ index ];
+
+	return 'number' === typeof depth && ! isNaN( depth ) ? depth : ( index + 1 ) / count;
+}
+
+/**
+ * Parse comma separated layer depths, e.g. "1, 0.5, 0.2"
+ * @param {string} text - The entered depths
+ */
+export function parseLayerDepths( text: string ): number[] {
+	return text
+		.split( ',' )
+		.map( ( part ) => parseFloat( part ) )
+		.filter( ( depth ) => ! isNaN( depth ) );
+}
@@ -0,0 +1,124 @@
+/**
+ * ScrollTrigger configuration helpers
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig, PinConfig, ScrollConfig, ScrollToggleActions } from '../types/animation';
+import { isDebugMode, showsAllDebugMarkers } from './debug';
+
+export const DEFAULT_SCROLL_CONFIG: ScrollConfig = {
+	mode: 'play',
+	start: 'top 80%',
+	end: 'bottom 20%',
+	scrub: false,
+	toggleActions: {
+		onEnter: 'play',
+		onLeave: 'none',
+		onEnterBack: 'none',
+		onLeaveBack: 'reverse',
+	},
+	once: false,
+	markers: false,
+	parallax: {
+		speed: 0.5,
+		direction: 'vertical',
+		clamp: false,
+	},
+	pin: {
+		enabled: false,
+		duration: 100,
+		pinSpacing: true,
+		anticipatePin: 0,
+	},
+};
+
+/**
+ * Resolve the scroll settings of a configuration, filling in defaults
+ *
+ * Older configurations only stored start/end on the timeline settings,
+ * so those are used when no scroll settings have been saved.
+ *
+ * @param {AnimationConfig} config - The animation configuration
+ */
+export function getScrollConfig( config: AnimationConfig ): ScrollConfig {
+	const scroll = config.scroll;
+
+	return {
+		...DEFAULT_SCROLL_CONFIG,
+		start: config.timeline?.scrollStart || DEFAULT_SCROLL_CONFIG.start,
+		end: config.timeline?.scrollEnd || DEFAULT_SCROLL_CONFIG.end,
+		...scroll,
+		toggleActions: {
+			...DEFAULT_SCROLL_CONFIG.toggleActions,
+			...scroll?.toggleActions,
+		},
+		parallax: {
+			...DEFAULT_SCROLL_CONFIG.parallax,
+			...scroll?.parallax,
+		},
+		pin: {
+			...DEFAULT_SCROLL_CONFIG.pin,
+			...scroll?.pin,
+		},
+	};
+}
+
+/**
+ * Serialize toggle actions into the space separated ScrollTrigger format
+ * @param {ScrollToggleActions} actions - The toggle actions
+ */
+export function formatToggleActions( actions: ScrollToggleActions ): string {
+	return [ actions.onEnter, actions.onLeave, actions.onEnterBack, actions.onLeaveBack ].join( ' ' );
+}
+
+/**
+ * Build the ScrollTrigger vars that pin the trigger element
+ *
+ * The pin holds the block from the start position for the pin duration,
+ * measured in percent of the viewport height, which replaces the end.
+ *
+ * @param {PinConfig} pin - The pin settings
+ */
+export function buildPinVars( pin: PinConfig ): Record<string, unknown> {
+	if ( ! pin.enabled ) {
+		return {};
+	}
+
+	return {
+		pin: true,
+		end: `+=${ Math.max( 0, pin.duration ) }%`,
+		pinSpacing: pin.pinSpacing,
+		anticipatePin: pin.anticipatePin,
+	};
+}
+
+/**
+ * Build the ScrollTrigger vars for an animated element
+ *
+ * Markers are only drawn while the site runs in debug mode, for the
+ * animations that enable them or for all when the debug overlay asks.
+ *
+ * @param {Element}         element - The trigger element
+ * @param {AnimationConfig} config  - The animation configuration
+ */
+export function buildScrollTriggerVars( element: Element, config: AnimationConfig ): Record<string, unknown> {
+	const scroll = getScrollConfig( config );
+	const vars: Record<string, unknown> = {
+		trigger: element,
+		start: scroll.start,
+		end: scroll.end,
+		toggleActions: formatToggleActions( scroll.toggleActions ),
+		// A pinned block that stops listening would lose its pin spacer
+		once: scroll.once && ! scroll.pin.enabled,
+		markers: isDebugMode() && ( scroll.markers || showsAllDebugMarkers() ),
+		...buildPinVars( scroll.pin ),
+	};
+
+	if ( false !== scroll.scrub ) {
+		vars.scrub = scroll.scrub || true;
+	}
+
+	return vars;
+}
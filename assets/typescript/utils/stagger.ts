@@ -0,0 +1,59 @@
+/**
+ * Stagger configuration helpers
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig, StaggerConfig } from '../types/animation';
+import type { GSAPVars } from '../types/gsap';
+import { resolveEase } from './ease';
+
+export const DEFAULT_STAGGER_CONFIG: StaggerConfig = {
+	enabled: false,
+	mode: 'each',
+	value: 0.1,
+	from: 'start',
+	grid: false,
+	ease: 'none',
+};
+
+/**
+ * Resolve the stagger settings of a configuration, filling in defaults
+ * @param {AnimationConfig} config - The animation configuration
+ */
+export function getStaggerConfig( config: AnimationConfig ): StaggerConfig {
+	return {
+		...DEFAULT_STAGGER_CONFIG,
+		...config.stagger,
+	};
+}
+
+/**
+ * Build the GSAP stagger vars for selector-targeted and split text animations
+ *
+ * Returns undefined when neither a selector nor a text split is set or
+ * stagger is disabled, since a single element has nothing to stagger.
+ * Grid mode lets GSAP detect the rows and columns from the element layout.
+ *
+ * @param {AnimationConfig} config - The animation configuration
+ */
+export function buildStaggerVars( config: AnimationConfig ): GSAPVars | undefined {
+	const stagger = getStaggerConfig( config );
+
+	if ( ( ! config.selector && ! config.textSplit ) || ! stagger.enabled ) {
+		return undefined;
+	}
+
+	const vars: GSAPVars = {
+		[ stagger.mode ]: stagger.value,
+		from: stagger.from,
+		ease: resolveEase( { ease: stagger.ease }, 'none' ),
+	};
+
+	if ( stagger.grid ) {
+		vars.grid = 'auto';
+	}
+
+	return vars;
+}
@@ -0,0 +1,69 @@
+/**
+ * Watched trigger configuration helpers
+ *
+ * The exit, focus, event, idle and hash triggers each keep a small
+ * options object in the configuration under the trigger's own key.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type { AnimationConfig, TriggerOptionsMap, TriggerType } from '../types/animation';
+
+export type WatchedTrigger = keyof TriggerOptionsMap;
+
+export const DEFAULT_TRIGGER_OPTIONS: TriggerOptionsMap = {
+	exit: {
+		once: false,
+	},
+	focus: {
+		within: true,
+		keyboardOnly: false,
+	},
+	event: {
+		name: '',
+		action: 'play',
+	},
+	idle: {
+		delay: 5,
+		reverseOnActivity: true,
+	},
+	hash: {
+		hash: '',
+		reverseOnChange: true,
+	},
+};
+
+/**
+ * Check whether a trigger watches page state instead of pointer input
+ * @param {TriggerType} trigger - The trigger type
+ */
+export function isWatchedTrigger( trigger: TriggerType ): trigger is WatchedTrigger {
+	return trigger in DEFAULT_TRIGGER_OPTIONS;
+}
+
+/**
+ * Resolve the options of a watched trigger, filling in defaults
+ * @param {AnimationConfig} config  - The animation configuration
+ * @param {WatchedTrigger}  trigger - The trigger whose options are resolved
+ */
+export function getTriggerOptions<K extends WatchedTrigger>( config: AnimationConfig, trigger: K ): TriggerOptionsMap[ K ] {
+	return {
+		...DEFAULT_TRIGGER_OPTIONS[ trigger ],
+		...config[ trigger ],
+	};
+}
+
+/**
+ * Normalize a URL hash so '#intro' and 'intro' match
+ * @param {string} hash - The hash with or without the leading '#'
+ */
+export function normalizeHash( hash: string ): string {
+	const value = hash.trim().replace( /^#/, '' );
+
+	try {
+		return decodeURIComponent( value );
+	} catch ( error ) {
+		return value;
+	}
+}
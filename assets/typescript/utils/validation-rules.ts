@@ -0,0 +1,324 @@
+/**
+ * Animation validation rules
+ *
+ * The single set of rules every animation is checked against, in the
+ * inspector panel, before a preview and on the frontend. Rules are keyed
+ * by the path of the field they check, e.g. 'timing.duration', so the
+ * editor can show each problem under its control.
+ *
+ * Errors mark settings that cannot be animated safely and block previews
+ * and the frontend build; warnings point at settings that work but are
+ * probably not what the author meant.
+ *
+ * @package
+ * @since 2.0.0
+ */
+
+import type {
+	AnimationConfig,
+	AnimationProperties,
+	AnimationType,
+	TextSplitMode,
+	TriggerType,
+	ValidationError,
+	ValidationResult,
+} from '../types/animation';
+import { ANIMATION_PROPERTY_KEYS, buildAnimationVars, hasAnimationProperties } from './animation-properties';
+import { validateEase } from './ease';
+import { getBreakpoints, isBreakpointDevice, isValidMediaQuery } from './breakpoints';
+import { isParallaxConfig } from './parallax';
+import { getTriggerOptions } from './triggers';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationRule {
+	field: string;
+	code: string;
+	severity?: ValidationSeverity;
+	when?: ( config: AnimationConfig ) => boolean;
+	validate: ( value: unknown, config: AnimationConfig ) => string | null;
+}
+
+export const ANIMATION_TYPE_VALUES: AnimationType[] = [ 'to', 'from', 'fromTo', 'set' ];
+
+export const TRIGGER_TYPE_VALUES: TriggerType[] = [
+	'pageload',
+	'scroll',
+	'click',
+	'hover',
+	'exit',
+	'focus',
+	'event',
+	'idle',
+	'hash',
+	'pointer',
+];
+
+export const TEXT_SPLIT_VALUES: TextSplitMode[] = [ 'chars', 'words', 'lines' ];
+
+/**
+ * Allowed timing values, shared by the timing controls and the rules
+ */
+export const TIMING_RANGES: Record<'duration' | 'delay' | 'repeat', { min: number; max: number; step: number; default: number }> = {
+	duration: { min: 0, max: 60, step: 0.1, default: 0.5 },
+	delay: { min: 0, max: 30, step: 0.1, default: 0 },
+	repeat: { min: -1, max: 100, step: 1, default: 0 },
+};
+
+/**
+ * Properties GSAP only animates as plain numbers
+ */
+export const NUMERIC_PROPERTY_KEYS: Array<keyof AnimationProperties> = [
+	'rotation',
+	'rotationX',
+	'rotationY',
+	'rotationZ',
+	'scale',
+	'scaleX',
+	'scaleY',
+	'scaleZ',
+	'skewX',
+	'skewY',
+	'opacity',
+];
+
+/**
+ * Fields holding animated properties, checked key by key
+ */
+export const PROPERTY_FIELDS = [ 'properties', 'fromProperties', 'hover.leaveProperties' ];
+
+const SAFE_VALUE_PATTERN = /^[\w\s#%.,()+\-=*/]*$/;
+const UNSAFE_VALUE_PATTERN = /url\s*\(|expression\s*\(|javascript:/i;
+const UNSAFE_SELECTOR_PATTERN = /javascript:|data:|vbscript:|on\w+\s*=|<\/?script/i;
+const MAX_SELECTOR_LENGTH = 200;
+
+/**
+ * Check whether a CSS selector is safe and can be parsed
+ * @param {string} selector - The CSS selector
+ */
+export function isValidSelector( selector: string ): boolean {
+	if ( '' === selector.trim() ) {
+		return true;
+	}
+
+	if ( selector.length > MAX_SELECTOR_LENGTH || UNSAFE_SELECTOR_PATTERN.test( selector ) ) {
+		return false;
+	}
+
+	if ( 'undefined' === typeof document ) {
+		return true;
+	}
+
+	try {
+		document.createDocumentFragment().querySelector( selector );
+		return true;
+	} catch ( error ) {
+		return false;
+	}
+}
+
+/**
+ * Check whether a property value is a plain CSS value, e.g. '50%' or '#fff'
+ * @param {string} value - The property value
+ */
+export function isSafeCssValue( value: string ): boolean {
+	return SAFE_VALUE_PATTERN.test( value ) && ! UNSAFE_VALUE_PATTERN.test( value );
+}
+
+/**
+ * Read a value from a configuration by its field path
+ * @param {AnimationConfig} config - The animation configuration
+ * @param {string}          field  - The field path, e.g. 'timing.duration'
+ */
+export function getFieldValue( config: AnimationConfig, field: string ): unknown {
+	return field.split( '.' ).reduce<unknown>( ( value, key ) => {
+		return value && 'object' === typeof value ? ( value as Record<string, unknown> )[ key ] : undefined;
+	}, config );
+}
+
+function isNumber( value: unknown ): value is number {
+	return 'number' === typeof value && isFinite( value );
+}
+
+function rangeRule( key: keyof typeof TIMING_RANGES, label: string, unit: string = '' ): ValidationRule {
+	const range = TIMING_RANGES[ key ];
+
+	return {
+		field: `timing.${ key }`,
+		code: 'out_of_range',
+		validate: ( value ) => {
+			if ( undefined === value ) {
+				return null;
+			}
+
+			return isNumber( value ) && value >= range.min && value <= range.max
+				? null
+				: `${ label } must be between ${ range.min } and ${ range.max }${ unit }`;
+		},
+	};
+}
+
+function createPropertyRules( field: string ): ValidationRule[] {
+	return ANIMATION_PROPERTY_KEYS.map( ( key ): ValidationRule => {
+		const isNumeric = NUMERIC_PROPERTY_KEYS.includes( key );
+
+		return {
+			field: `${ field }.${ key }`,
+			code: isNumeric ? 'invalid_number' : 'unsafe_value',
+			validate: ( value ) => {
+				if ( undefined === value || null === value || '' === value ) {
+					return null;
+				}
+
+				if ( isNumeric ) {
+					if ( ! isNumber( value ) ) {
+						return 'Must be a number';
+					}
+
+					return 'opacity' === key && ( value < 0 || value > 1 ) ? 'Opacity must be between 0 and 1' : null;
+				}
+
+				return isNumber( value ) || ( 'string' === typeof value && isSafeCssValue( value ) )
+					? null
+					: 'Use a plain CSS value, e.g. 100px, 50% or #ffffff';
+			},
+		};
+	} );
+}
+
+/**
+ * Check whether an animation moves anything
+ * @param {AnimationConfig} config - The animation configuration
+ */
+function hasProperties( config: AnimationConfig ): boolean {
+	return hasAnimationProperties( buildAnimationVars( config.properties ) ) ||
+		( 'fromTo' === config.type && hasAnimationProperties( buildAnimationVars( config.fromProperties ) ) );
+}
+
+export const VALIDATION_RULES: ValidationRule[] = [
+	{
+		field: 'type',
+		code: 'invalid_value',
+		validate: ( value ) => ANIMATION_TYPE_VALUES.includes( value as AnimationType ) ? null : 'Unknown animation type',
+	},
+	{
+		field: 'trigger',
+		code: 'invalid_value',
+		validate: ( value ) => TRIGGER_TYPE_VALUES.includes( value as TriggerType ) ? null : 'Unknown trigger',
+	},
+	{
+		field: 'textSplit',
+		code: 'invalid_value',
+		validate: ( value ) => {
+			return undefined === value || TEXT_SPLIT_VALUES.includes( value as TextSplitMode )
+				? null
+				: 'Text can only be split into chars, words or lines';
+		},
+	},
+	{
+		field: 'selector',
+		code: 'invalid_selector',
+		validate: ( value ) => {
+			return undefined === value || ( 'string' === typeof value && isValidSelector( value ) )
+				? null
+				: 'Invalid or unsafe CSS selector';
+		},
+	},
+	{
+		field: 'properties',
+		code: 'no_properties',
+		severity: 'warning',
+		when: ( config ) => 'pointer' !== config.trigger && ! isParallaxConfig( config ),
+		validate: ( _value, config ) => hasProperties( config ) ? null : 'Nothing animates until at least one property is set',
+	},
+	rangeRule( 'duration', 'Duration', 's' ),
+	rangeRule( 'delay', 'Delay', 's' ),
+	{
+		field: 'timing.repeat',
+		code: 'out_of_range',
+		validate: ( value ) => {
+			const range = TIMING_RANGES.repeat;
+
+			return undefined === value || ( Number.isInteger( value ) && ( value as number ) >= range.min && ( value as number ) <= range.max )
+				? null
+				: `Repeat must be a whole number between ${ range.min } and ${ range.max }, -1 repeats forever`;
+		},
+	},
+	{
+		field: 'timing.duration',
+		code: 'instant',
+		severity: 'warning',
+		when: ( config ) => 'set' !== config.type,
+		validate: ( value ) => 0 === value ? 'A duration of 0 jumps straight to the end values' : null,
+	},
+	{
+		field: 'timing.ease',
+		code: 'invalid_ease',
+		validate: ( value ) => validateEase( value as AnimationConfig[ 'timing' ][ 'ease' ] )[ 0 ] || null,
+	},
+	{
+		field: 'event.name',
+		code: 'required',
+		when: ( config ) => 'event' === config.trigger,
+		validate: ( _value, config ) => '' === getTriggerOptions( config, 'event' ).name.trim() ? 'An event name is required for the custom event trigger' : null,
+	},
+	{
+		field: 'hash.hash',
+		code: 'required',
+		when: ( config ) => 'hash' === config.trigger,
+		validate: ( _value, config ) => '' === getTriggerOptions( config, 'hash' ).hash.trim() ? 'A URL hash is required for the URL hash trigger' : null,
+	},
+	{
+		field: 'breakpoints',
+		code: 'invalid_media_query',
+		validate: ( _value, config ) => {
+			const invalid = getBreakpoints( config ).find( ( override ) => {
+				return ! isBreakpointDevice( override.id ) && ! isValidMediaQuery( override.query || '' );
+			} );
+
+			if ( ! invalid ) {
+				return null;
+			}
+
+			return invalid.query?.trim() ? `Invalid media query: ${ invalid.query }` : 'Custom breakpoints need a media query';
+		},
+	},
+	...PROPERTY_FIELDS.flatMap( createPropertyRules ),
+];
+
+/**
+ * Check an animation against every rule
+ * @param {AnimationConfig} config - The animation configuration
+ */
+export function runValidationRules( config: AnimationConfig ): ValidationResult {
+	const result: ValidationResult = { isValid: true, errors: [], warnings: [] };
+
+	VALIDATION_RULES.forEach( ( rule ) => {
+		if ( rule.when && ! rule.when( config ) ) {
+			return;
+		}
+
+		const message = rule.validate( getFieldValue( config, rule.field ), config );
+
+		if ( message ) {
+			const issue: ValidationError = { field: rule.field, message, code: rule.code };
+			( 'warning' === rule.severity ? result.warnings : result.errors ).push( issue );
+		}
+	} );
+
+	result.isValid = 0 === result.errors.length;
+
+	return result;
+}
+
+/**
+ * Get the errors and warnings of one field
+ * @param {ValidationResult} result - The validation result
+ * @param {string}           field  - The field path
+ */
+export function getFieldIssues( result: ValidationResult | undefined, field: string ): { errors: ValidationError[]; warnings: ValidationError[] } {
+	return {
+		errors: result?.errors.filter( ( issue ) => field === issue.field ) || [],
+		warnings: result?.warnings.filter( ( issue ) => field === issue.field ) || [],
+	};
+}
@@ -6,6 +6,7 @@ namespace GSAPBlockAnimator\Animation\Strategies;
 
 use GSAPBlockAnimator\Animation\Interfaces\Animation_Strategy_Interface;
 use GSAPBlockAnimator\Animation\Value_Objects\Animation_Config;
+use GSAPBlockAnimator\Validation\Property_Validator;
 
 class From_Animation_Strategy implements Animation_Strategy_Interface {
 
@@ -151,22 +152,6 @@ class From_Animation_Strategy implements Animation_Strategy_Interface {
 	}
 
 	private function sanitize_ease( string $ease ): string {
-		$allowed_eases = array(
-			'none',
-			'power1.out',
-			'power2.out',
-			'power3.out',
-			'back.out',
-			'elastic.out',
-			'bounce.out',
-			'power1.in',
-			'power2.in',
-			'power3.in',
-			'power1.inOut',
-			'power2.inOut',
-			'power3.inOut',
-		);
-
-		return in_array( $ease, $allowed_eases, true ) ? $ease : 'power1.out';
+		return Property_Validator::validate_ease_function( $ease ) ? $ease : 'power1.out';
 	}
 }
@@ -4,6 +4,8 @@ declare(strict_types=1);
 
 namespace GSAPBlockAnimator\Animation\Value_Objects;
 
+use GSAPBlockAnimator\Validation\Property_Validator;
+
 class Animation_Config {
 
 	private bool $enabled;
@@ -96,27 +98,46 @@ class Animation_Config {
 	}
 
 	private function sanitize_trigger( string $trigger ): string {
-		$allowed_triggers = array( 'pageload', 'scroll', 'click', 'hover' );
+		$allowed_triggers = array( 'pageload', 'scroll', 'click', 'hover', 'exit', 'focus', 'event', 'idle', 'hash', 'pointer' );
 		return in_array( $trigger, $allowed_triggers, true ) ? $trigger : 'pageload';
 	}
 
-	private function sanitize_ease( string $ease ): string {
-		$allowed_eases = array(
-			'none',
-			'power1.out',
-			'power2.out',
-			'power3.out',
-			'back.out',
-			'elastic.out',
-			'bounce.out',
-			'power1.in',
-			'power2.in',
-			'power3.in',
-			'power1.inOut',
-			'power2.inOut',
-			'power3.inOut',
-		);
+	/**
+	 * Sanitize a stored ease into a GSAP ease string
+	 *
+	 * @param mixed $ease An ease string or a structured ease descriptor.
+	 */
+	private function sanitize_ease( $ease ): string {
+		if ( is_array( $ease ) ) {
+			$ease = $this->serialize_ease( $ease );
+		}
+
+		if ( ! is_string( $ease ) ) {
+			return 'power1.out';
+		}
+
+		return Property_Validator::validate_ease_function( $ease ) ? $ease : 'power1.out';
+	}
 
-		return in_array( $ease, $allowed_eases, true ) ? $ease : 'power1.out';
+	private function serialize_ease( array $ease ): string {
+		$family    = (string) ( $ease['family'] ?? 'power1' );
+		$direction = (string) ( $ease['direction'] ?? 'out' );
+
+		switch ( $family ) {
+			case 'none':
+				return 'none';
+			case 'steps':
+				return sprintf( 'steps(%d)', max( 1, (int) ( $ease['steps'] ?? 5 ) ) );
+			case 'back':
+				return isset( $ease['overshoot'] )
+					? sprintf( 'back.%s(%s)', $direction, (float) $ease['overshoot'] )
+					: 'back.' . $direction;
+			case 'elastic':
+				return isset( $ease['amplitude'] ) || isset( $ease['period'] )
+					? sprintf( 'elastic.%s(%s, %s)', $direction, (float) ( $ease['amplitude'] ?? 1 ), (float) ( $ease['period'] ?? 0.3 ) )
+					: 'elastic.' . $direction;
+			default:
+				return $family . '.' . $direction;
+		}
 	}
 }
@@ -107,7 +107,6 @@ class Autoloader {
 			'Services\ServiceProvider' => 'services/ServiceProvider.php',
 			'Services\AnimationService' => 'services/AnimationService.php',
 			'Services\BlockExtensionService' => 'services/BlockExtensionService.php',
-			'Validation\Animation_Validator' => 'validation/class-animation-validator.php',
 			'Validation\Property_Validator' => 'validation/property-validator.php',
 			'Animation\Interfaces\Animation_Strategy_Interface' => 'animation/interfaces/animation-strategy-interface.php',
 			'Animation\Strategies\To_Animation_Strategy' => 'animation/strategies/to-animation-strategy.php',
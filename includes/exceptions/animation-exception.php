@@ -38,7 +38,7 @@ class Animation_Exception extends Exception {
 
 	public static function invalid_trigger( string $trigger ): self {
 		return new self(
-			sprintf( 'Invalid trigger type: %s. Allowed triggers: pageload, scroll, click, hover', $trigger ),
+			sprintf( 'Invalid trigger type: %s. Allowed triggers: pageload, scroll, click, hover, exit, focus, event, idle, hash, pointer', $trigger ),
 			400
 		);
 	}
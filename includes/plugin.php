@@ -94,12 +94,16 @@ class Plugin {
 
 		// Create plugin options with default values.
 		$default_options = array(
-			'version'          => GSAP_BLOCK_ANIMATOR_VERSION,
-			'enabled'          => true,
-			'load_gsap'        => true,
-			'gsap_source'      => 'cdn', // cdn or local.
-			'performance_mode' => false,
-			'debug_mode'       => false,
+			'version'               => GSAP_BLOCK_ANIMATOR_VERSION,
+			'enabled'               => true,
+			'load_gsap'             => true,
+			'gsap_source'           => 'cdn', // cdn or local.
+			'performance_mode'      => false,
+			'lazy_margin'           => 200, // Pixels from the viewport at which animations are built.
+			'pause_offscreen'       => false, // Pause infinitely repeating animations while off-screen.
+			'observe_mutations'     => false, // Animate blocks inserted after the page loaded.
+			'debug_mode'            => false,
+			'reduced_motion_policy' => 'skip', // skip, fade or keep.
 		);
 
 		add_option( 'gsap_block_animator_options', $default_options );
@@ -226,8 +230,12 @@ class Plugin {
 			'gsap-block-animator-frontend',
 			'gsapBlockAnimatorSettings',
 			array(
-				'performanceMode' => $options['performance_mode'] ?? false,
-				'debugMode'       => $options['debug_mode'] ?? false,
+				'performanceMode'     => $options['performance_mode'] ?? false,
+				'lazyMargin'          => absint( $options['lazy_margin'] ?? 200 ),
+				'pauseOffscreen'      => $options['pause_offscreen'] ?? false,
+				'observeMutations'    => $options['observe_mutations'] ?? false,
+				'debugMode'           => $options['debug_mode'] ?? false,
+				'reducedMotionPolicy' => $options['reduced_motion_policy'] ?? 'skip',
 			)
 		);
 	}
@@ -251,6 +259,7 @@ class Plugin {
 				'wp-block-editor',
 				'wp-components',
 				'wp-compose',
+				'wp-data',
 				'wp-hooks',
 				'wp-i18n',
 			),
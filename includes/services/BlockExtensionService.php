@@ -14,6 +14,26 @@ class BlockExtensionService {
 
 	private const HTML_ELEMENT_PATTERN = '/^(\s*<[^>]+)(\s*>)/';
 
+	/**
+	 * Animation config schema version, kept in step with ANIMATION_CONFIG_VERSION
+	 * in assets/typescript/utils/config-migrations.ts
+	 */
+	public const ANIMATION_CONFIG_VERSION = 2;
+
+	/**
+	 * Block references and anchors already rendered on the page
+	 *
+	 * @var array<string, bool>
+	 */
+	private array $rendered_refs = array();
+
+	/**
+	 * Number of animated blocks given a position based ID
+	 *
+	 * @var int
+	 */
+	private int $fallback_count = 0;
+
 	/**
 	 * Constructor
 	 */
@@ -59,10 +79,11 @@ class BlockExtensionService {
 			$args['attributes'] = array();
 		}
 
-		// Add gsapAnimation attribute
+		// Add gsapAnimation attribute, matching the editor's default animation
 		$args['attributes']['gsapAnimation'] = array(
 			'type'    => 'object',
 			'default' => array(
+				'version'    => self::ANIMATION_CONFIG_VERSION,
 				'enabled'    => false,
 				'type'       => 'to',
 				'trigger'    => 'pageload',
@@ -72,11 +93,31 @@ class BlockExtensionService {
 					'delay'    => 0,
 					'repeat'   => 0,
 					'yoyo'     => false,
-					'ease'     => 'power1.out',
+					'ease'     => array(
+						'family'    => 'power1',
+						'direction' => 'out',
+					),
+				),
+				'timeline'   => array(
+					'isTimeline'       => false,
+					'timelineId'       => '',
+					'timelineName'     => '',
+					'timelinePosition' => 'start',
 				),
 			),
 		);
 
+		// Add gsapAnimations attribute, the ordered list of block animations
+		$args['attributes']['gsapAnimations'] = array(
+			'type'    => 'array',
+			'default' => array(),
+		);
+
+		// Add gsapBlockRef attribute, the stable reference of animated and click source blocks
+		$args['attributes']['gsapBlockRef'] = array(
+			'type' => 'string',
+		);
+
 		return $args;
 	}
 
@@ -88,21 +129,33 @@ class BlockExtensionService {
 	 * @return string Modified block content
 	 */
 	public function add_animation_data( string $block_content, array $block ): string {
-		$animation_config = $block['attrs']['gsapAnimation'] ?? null;
+		$animations = $this->get_enabled_animations( $block['attrs'] ?? array() );
+		$block_ref  = $this->claim_ref( $block['attrs']['gsapBlockRef'] ?? '' );
+		$attributes = '';
+
+		// Blocks are found by their reference, as click source and through the public API
+		if ( '' !== $block_ref ) {
+			$attributes .= sprintf( ' data-gsap-ref="%s"', esc_attr( $block_ref ) );
+		}
 
-		if ( ! $animation_config || ! ( $animation_config['enabled'] ?? false ) ) {
-			return $block_content;
+		if ( empty( $animations ) ) {
+			return $this->add_attributes( $block_content, $attributes );
 		}
 
 		// Add animation data attributes
-		$animation_data = wp_json_encode( $animation_config );
-		$trigger        = esc_attr( $animation_config['trigger'] ?? 'pageload' );
-		$selector       = $animation_config['selector'] ?? null;
+		$animation_data = wp_json_encode( $animations );
+		$triggers       = array_unique(
+			array_map(
+				static fn( array $animation ): string => (string) ( $animation['trigger'] ?? 'pageload' ),
+				$animations
+			)
+		);
+		$trigger        = esc_attr( implode( ' ', $triggers ) );
+		$selector       = 1 === count( $animations ) ? ( $animations[0]['selector'] ?? null ) : null;
 
-		// Create unique ID for the block
-		$block_id = 'gsap-block-' . $block['blockName'] . '-' . wp_generate_uuid4();
+		$block_id = $this->get_block_id( $block, $block_ref );
 
-		$attributes = sprintf(
+		$attributes .= sprintf(
 			' data-gsap-animation="%s" data-gsap-trigger="%s" data-gsap-block-id="%s"',
 			esc_attr( $animation_data ),
 			$trigger,
@@ -113,8 +166,66 @@ class BlockExtensionService {
 			$attributes .= sprintf( ' data-gsap-selector="%s"', esc_attr( $selector ) );
 		}
 
-		// Add attributes to the first HTML element in the block content
-		if ( preg_match( self::HTML_ELEMENT_PATTERN, $block_content, $matches ) ) {
+		return $this->add_attributes( $block_content, $attributes );
+	}
+
+	/**
+	 * Get the ID the public API looks an animated block up by
+	 *
+	 * The saved block reference comes first, then the HTML anchor, so the
+	 * ID stays the same across renders. Blocks saved before the editor gave
+	 * animated blocks a reference, and copies whose reference another block
+	 * on the page already has, fall back to their position on the page.
+	 *
+	 * @param array<string, mixed> $block Block data
+	 * @param string               $block_ref The block reference claimed for this block
+	 * @return string Block ID
+	 */
+	private function get_block_id( array $block, string $block_ref ): string {
+		if ( '' !== $block_ref ) {
+			return $block_ref;
+		}
+
+		$anchor = $this->claim_ref( $block['attrs']['anchor'] ?? '' );
+
+		if ( '' !== $anchor ) {
+			return $anchor;
+		}
+
+		++$this->fallback_count;
+
+		return 'gsap-block-' . sanitize_title( (string) $block['blockName'] ) . '-' . $this->fallback_count;
+	}
+
+	/**
+	 * Claim a block reference or anchor for the block being rendered
+	 *
+	 * Duplicating a block in the editor copies its reference, so only the
+	 * first block on the page gets it and the frontend never sees two
+	 * blocks with one ID.
+	 *
+	 * @param mixed $ref Saved block reference or anchor
+	 * @return string The reference, or an empty string when it is missing or taken
+	 */
+	private function claim_ref( $ref ): string {
+		if ( ! is_string( $ref ) || '' === $ref || isset( $this->rendered_refs[ $ref ] ) ) {
+			return '';
+		}
+
+		$this->rendered_refs[ $ref ] = true;
+
+		return $ref;
+	}
+
+	/**
+	 * Add attributes to the first HTML element in the block content
+	 *
+	 * @param string $block_content Block content
+	 * @param string $attributes Rendered attributes, each with a leading space
+	 * @return string Modified block content
+	 */
+	private function add_attributes( string $block_content, string $attributes ): string {
+		if ( '' !== $attributes && preg_match( self::HTML_ELEMENT_PATTERN, $block_content, $matches ) ) {
 			$before        = $matches[1];
 			$after         = $matches[2];
 			$block_content = $before . $attributes . $after . substr( $block_content, strlen( $matches[0] ) );
@@ -122,4 +233,28 @@ class BlockExtensionService {
 
 		return $block_content;
 	}
+
+	/**
+	 * Get the enabled animations of a block in order
+	 *
+	 * Blocks saved before multiple animations were supported only have
+	 * the single gsapAnimation attribute.
+	 *
+	 * @param array<string, mixed> $attrs Block attributes
+	 * @return array<int, array<string, mixed>> Enabled animation configurations
+	 */
+	private function get_enabled_animations( array $attrs ): array {
+		$animations = $attrs['gsapAnimations'] ?? array();
+
+		if ( ! is_array( $animations ) || empty( $animations ) ) {
+			$animations = isset( $attrs['gsapAnimation'] ) ? array( $attrs['gsapAnimation'] ) : array();
+		}
+
+		return array_values(
+			array_filter(
+				$animations,
+				static fn( $animation ): bool => is_array( $animation ) && ( $animation['enabled'] ?? false )
+			)
+		);
+	}
 }
@@ -75,9 +75,19 @@ class Property_Validator {
 	}
 
 	public static function validate_ease_function( string $ease ): bool {
+		if ( preg_match( '/^steps\(\s*\d+\s*\)$/', $ease ) ) {
+			return true;
+		}
+
+		// Back and elastic eases may carry parameters, e.g. "back.out(1.7)".
+		$ease = (string) preg_replace( '/^((?:back|elastic)\.(?:in|out|inOut))\(\s*[\d.]+\s*(?:,\s*[\d.]+\s*)?\)$/', '$1', $ease );
+
 		$allowed_eases = array(
 			'none',
 			'linear',
+			'power0.in',
+			'power0.out',
+			'power0.inOut',
 			'power1.in',
 			'power1.out',
 			'power1.inOut',
@@ -159,7 +169,7 @@ class Property_Validator {
 	}
 
 	public static function validate_trigger_type( string $trigger ): bool {
-		$allowed_triggers = array( 'pageload', 'scroll', 'click', 'hover', 'custom' );
+		$allowed_triggers = array( 'pageload', 'scroll', 'click', 'hover', 'exit', 'focus', 'event', 'idle', 'hash', 'pointer', 'custom' );
 		return in_array( $trigger, $allowed_triggers, true );
 	}
 
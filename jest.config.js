@@ -2,7 +2,7 @@ module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'jsdom',
   setupFilesAfterEnv: ['<rootDir>/__tests__/setup.ts'],
-  moduleNameMapping: {
+  moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/assets/typescript/$1',
     '^@/types/(.*)$': '<rootDir>/assets/typescript/types/$1',
     '^@/components/(.*)$': '<rootDir>/assets/typescript/components/$1',